@@ -0,0 +1,22 @@
+/**
+ * Agent Proxy (Netlify Function)
+ *
+ * Serves /api/agent/* and /api/upload in production so the Lyzr API key stays
+ * on the server. Set LYZR_API_KEY (and optionally the other variables listed
+ * in server/agent-proxy.mjs) in the Netlify site's environment, and build the
+ * client with VITE_AGENT_TRANSPORT=proxy.
+ *
+ * This is a synchronous function, so each request must finish within
+ * Netlify's execution limit (10s by default, 26s at most). Long manager runs
+ * belong on /api/agent/stream; see server/agent-proxy.mjs.
+ */
+
+import { createAgentProxy } from '../../server/agent-proxy.mjs'
+
+const proxy = createAgentProxy(process.env)
+
+export default (request, context) => proxy(request, { clientIp: context.ip })
+
+export const config = {
+  path: ['/api/agent/*', '/api/upload'],
+}
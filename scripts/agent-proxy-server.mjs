@@ -0,0 +1,84 @@
+/**
+ * Agent Proxy Dev Server
+ *
+ * Runs the agent proxy (server/agent-proxy.mjs) locally. With
+ * VITE_AGENT_TRANSPORT=proxy the Vite dev server forwards /api/agent/* and
+ * /api/upload here, so the browser never sees the API key.
+ *
+ * Reads .env, .env.local and .env.development(.local) like Vite does.
+ *
+ * @example
+ * ```bash
+ * # .env.local
+ * LYZR_API_KEY=...
+ * VITE_AGENT_TRANSPORT=proxy
+ *
+ * npm run proxy:agent   # in one terminal
+ * npm run dev           # in another
+ * ```
+ *
+ * Environment:
+ *   AGENT_PROXY_PORT  Port to listen on (default 8788)
+ */
+
+import { createServer } from 'node:http'
+import { Readable } from 'node:stream'
+import { fileURLToPath } from 'node:url'
+import { dirname, join } from 'node:path'
+import { loadEnv } from 'vite'
+import { createAgentProxy } from '../server/agent-proxy.mjs'
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..')
+const env = { ...loadEnv('development', ROOT, ''), ...process.env }
+const PORT = Number(env.AGENT_PROXY_PORT) || 8788
+
+if (!env.LYZR_API_KEY) {
+  console.warn('LYZR_API_KEY is not set; every proxied request will fail with 500')
+}
+
+const proxy = createAgentProxy(env)
+
+/**
+ * Node request -> standard Request
+ */
+function toRequest(req, signal) {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+  return new Request(new URL(req.url, `http://${req.headers.host || 'localhost'}`), {
+    method: req.method,
+    headers,
+    body: hasBody ? Readable.toWeb(req) : undefined,
+    duplex: 'half',
+    signal,
+  })
+}
+
+const server = createServer(async (req, res) => {
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort()
+  })
+
+  try {
+    const response = await proxy(toRequest(req, controller.signal), { clientIp: req.socket.remoteAddress })
+    res.writeHead(response.status, Object.fromEntries(response.headers))
+    if (!response.body) {
+      res.end()
+      return
+    }
+    for await (const chunk of response.body) res.write(chunk)
+    res.end()
+  } catch (error) {
+    if (controller.signal.aborted) return
+    console.error('[agent-proxy]', error)
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ success: false, error: 'Proxy error' }))
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Agent proxy listening on http://localhost:${PORT} (/api/agent/chat, /api/agent/stream, /api/upload)`)
+})
@@ -0,0 +1,128 @@
+/**
+ * Agent Type Generator
+ *
+ * Generates TypeScript interfaces and zod validators for the `result` of
+ * every agent in response_schemas/, with the additions from
+ * scripts/agent-schema-overrides.json (keyed by schema file name) merged in,
+ * using src/lib/schema-codegen.ts (compiled on the fly with Vite's
+ * transformWithEsbuild; the module has no imports, so no bundling is needed).
+ *
+ * @example
+ * ```bash
+ * npm run codegen:agents          # rewrite the generated modules
+ * npm run codegen:agents -- --check
+ * # exits 1 and lists stale files when the checked-in modules are out of date
+ * ```
+ *
+ * Both modes also compare the hand-written app schemas (src/lib/agent-schemas.ts,
+ * loaded through Vite's SSR loader) with the generated validators and, with
+ * --check, exit 1 when their fields have drifted apart.
+ *
+ * Outputs:
+ *   src/types/agent-responses.ts   Interfaces (PolicyDraftingAgentResult, ...)
+ *   src/lib/agent-validators.ts    zod validators, AGENT_RESULT_SCHEMAS and AGENT_MANIFEST
+ */
+
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { dirname, join, relative } from 'node:path'
+import { createServer, transformWithEsbuild } from 'vite'
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..')
+const SCHEMA_DIR = join(ROOT, 'response_schemas')
+const OVERRIDES_FILE = join(ROOT, 'scripts/agent-schema-overrides.json')
+const CODEGEN_ENTRY = join(ROOT, 'src/lib/schema-codegen.ts')
+
+const OUTPUTS = {
+  types: join(ROOT, 'src/types/agent-responses.ts'),
+  validators: join(ROOT, 'src/lib/agent-validators.ts'),
+}
+
+const check = process.argv.includes('--check')
+
+/**
+ * Load schema-codegen.ts without a TypeScript runtime
+ */
+async function loadCodegen() {
+  const { code } = await transformWithEsbuild(readFileSync(CODEGEN_ENTRY, 'utf8'), CODEGEN_ENTRY, {
+    loader: 'ts',
+    format: 'esm',
+  })
+  return import(`data:text/javascript;base64,${Buffer.from(code).toString('base64')}`)
+}
+
+/**
+ * findSchemaDrift() from agent-schemas.ts, which needs zod and the `@` alias
+ */
+async function findSchemaDrift() {
+  const server = await createServer({
+    configFile: false,
+    root: ROOT,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true },
+    resolve: { alias: { '@': join(ROOT, 'src') } },
+  })
+  try {
+    const { findSchemaDrift } = await server.ssrLoadModule('/src/lib/agent-schemas.ts')
+    return findSchemaDrift()
+  } finally {
+    await server.close()
+  }
+}
+
+function loadSchemas(applySchemaOverrides) {
+  const overrides = existsSync(OVERRIDES_FILE) ? JSON.parse(readFileSync(OVERRIDES_FILE, 'utf8')) : {}
+  return readdirSync(SCHEMA_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const raw = JSON.parse(readFileSync(join(SCHEMA_DIR, file), 'utf8'))
+      const json = overrides[file] ? applySchemaOverrides(raw, overrides[file]) : raw
+      return {
+        file,
+        agent_name: json.agent_name,
+        agent_id: json.agent_id,
+        agent_purpose: json.agent_purpose,
+        description: json.description,
+        response_schema: json.response_schema || {},
+      }
+    })
+}
+
+const { generateAgentModules, applySchemaOverrides } = await loadCodegen()
+
+const modules = generateAgentModules(loadSchemas(applySchemaOverrides), {
+  types: '@/types/agent-responses',
+  script: 'scripts/generate-agent-types.mjs',
+})
+
+const stale = Object.entries(OUTPUTS).filter(([key, path]) =>
+  !existsSync(path) || readFileSync(path, 'utf8') !== modules[key]
+)
+
+if (check) {
+  if (stale.length > 0) {
+    console.error('Generated agent types are out of date:')
+    for (const [, path] of stale) console.error(`  ${relative(ROOT, path)}`)
+    console.error('Run `npm run codegen:agents` and commit the result.')
+    process.exit(1)
+  }
+  console.log('Generated agent types are up to date')
+} else {
+  for (const [key, path] of stale) {
+    writeFileSync(path, modules[key])
+    console.log(`Wrote ${relative(ROOT, path)}`)
+  }
+  if (stale.length === 0) console.log('Generated agent types are up to date')
+}
+
+const drift = await findSchemaDrift()
+if (drift.length > 0) {
+  console.error('src/lib/agent-schemas.ts does not match the generated validators:')
+  for (const line of drift) console.error(`  ${line}`)
+  console.error('Update the app schemas (or response_schemas/) so their fields agree.')
+  if (check) process.exit(1)
+} else {
+  console.log('App schemas match the generated validators')
+}
@@ -0,0 +1,153 @@
+/**
+ * Mock SSE Server
+ *
+ * Serves a scripted Policy Creation Manager run over Server-Sent Events so
+ * streamAIAgent and the workflow timeline can be exercised without the Lyzr
+ * backend. Sub-agent outputs come from the fixtures in response_schemas/.
+ *
+ * Events are written in small, uneven slices so that lines and events are
+ * split across chunk boundaries, as they are over a real network.
+ *
+ * @example
+ * ```bash
+ * npm run mock:sse
+ * # .env.local
+ * VITE_LYZR_STREAM_URL=http://localhost:8787/v3/inference/stream/
+ * ```
+ *
+ * Environment:
+ *   MOCK_SSE_PORT      Port to listen on (default 8787)
+ *   MOCK_SSE_DELAY_MS  Delay between sub-agent steps (default 800)
+ */
+
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+
+const PORT = Number(process.env.MOCK_SSE_PORT) || 8787
+const STEP_DELAY_MS = Number(process.env.MOCK_SSE_DELAY_MS ?? 800)
+
+const fixture = (name) =>
+  JSON.parse(readFileSync(new URL(`../response_schemas/${name}.json`, import.meta.url), 'utf8'))
+
+const SUB_AGENTS = [
+  fixture('requirements_analyst_agent_response'),
+  fixture('policy_drafting_agent_response'),
+  fixture('compliance_checker_agent_response'),
+]
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+
+const formatEvent = (type, data) =>
+  `event: ${type}\ndata: ${JSON.stringify({ type, timestamp: new Date().toISOString(), ...data })}\n\n`
+
+/**
+ * Write a string in uneven slices to force chunk-boundary splits
+ */
+async function writeSliced(res, text) {
+  let offset = 0
+  while (offset < text.length) {
+    const size = 7 + Math.floor(Math.random() * 60)
+    res.write(text.slice(offset, offset + size))
+    offset += size
+    await sleep(5)
+  }
+}
+
+async function streamRun(res, requestId) {
+  const sub_agent_results = []
+  let previous = null
+
+  await writeSliced(res, formatEvent('chat_started', { request_id: requestId }))
+  await writeSliced(res, ': keep-alive comment, ignored by clients\n\n')
+
+  for (const agent of SUB_AGENTS) {
+    const name = agent.agent_name
+    const toolUseId = `tool-${sub_agent_results.length + 1}`
+    const output = agent.actual_test_response || agent.example_response
+
+    await writeSliced(res, formatEvent('subagent_switch', {
+      request_id: requestId,
+      active_subagent: name,
+      previous_subagent: previous,
+    }))
+    await sleep(STEP_DELAY_MS)
+
+    await writeSliced(res, formatEvent('tool_use', {
+      request_id: requestId,
+      tool_name: `call_${name.toLowerCase().replace(/\s+/g, '_')}`,
+      tool_input: {},
+      tool_use_id: toolUseId,
+      active_subagent: name,
+    }))
+    await sleep(STEP_DELAY_MS)
+
+    await writeSliced(res, formatEvent('tool_result', {
+      request_id: requestId,
+      tool_name: `call_${name.toLowerCase().replace(/\s+/g, '_')}`,
+      tool_use_id: toolUseId,
+      content: output,
+      is_error: false,
+      active_subagent: name,
+    }))
+
+    sub_agent_results.push({ agent_name: name, status: 'success', output })
+    previous = name
+  }
+
+  await writeSliced(res, formatEvent('chat_completed', {
+    request_id: requestId,
+    response: {
+      status: 'success',
+      result: {
+        final_output: {},
+        sub_agent_results,
+        summary: 'Mock run completed: requirements analyzed, policy drafted and compliance checked.',
+        workflow_completed: true,
+      },
+      metadata: {
+        agent_name: 'Policy Creation Manager',
+        timestamp: new Date().toISOString(),
+        sub_agents_used: SUB_AGENTS.map(agent => agent.agent_name),
+      },
+    },
+  }))
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Headers', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end()
+    return
+  }
+
+  if (req.method !== 'POST' || !req.url?.startsWith('/v3/inference/stream')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Not found' }))
+    return
+  }
+
+  let body = ''
+  for await (const chunk of req) body += chunk
+  let sessionId = 'mock-session'
+  try {
+    sessionId = JSON.parse(body).session_id || sessionId
+  } catch {
+    // Malformed bodies still get a scripted run
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  })
+
+  await streamRun(res, sessionId)
+  res.end()
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock SSE server listening on http://localhost:${PORT}/v3/inference/stream/`)
+})
@@ -0,0 +1,250 @@
+/**
+ * Agent Proxy
+ *
+ * Server-side half of proxy mode (VITE_AGENT_TRANSPORT=proxy). Holds the Lyzr
+ * API key so it never ships in the client bundle, forwards agent chat and
+ * streaming calls and file uploads, and applies per-user rate limits.
+ *
+ * Shared by the Netlify function (netlify/functions/agent-proxy.mjs) and the
+ * local dev server (scripts/agent-proxy-server.mjs); both hand it standard
+ * Request objects and send back the Response it returns.
+ *
+ * @example
+ * ```js
+ * const proxy = createAgentProxy(process.env)
+ * const response = await proxy(request, { clientIp: '203.0.113.7' })
+ * ```
+ *
+ * Routes:
+ *   POST /api/agent/chat     -> LYZR_API_URL
+ *   POST /api/agent/stream   -> LYZR_STREAM_URL (streamed through as it arrives)
+ *   POST /api/upload         -> LYZR_UPLOAD_URL
+ *
+ * /api/agent/chat answers only once the agent has finished, so on Netlify it
+ * is bound by the synchronous function limit (10s by default, 26s at most);
+ * a Policy Creation Manager run usually takes longer and is cut off with a
+ * 502. Send long runs through /api/agent/stream (the app does, via
+ * streamAIAgent), or host the proxy on a long-running server such as
+ * scripts/agent-proxy-server.mjs.
+ *
+ * Environment:
+ *   LYZR_API_KEY                  Lyzr API key (required; never VITE_-prefixed)
+ *   LYZR_API_URL                  Upstream chat endpoint
+ *   LYZR_STREAM_URL               Upstream streaming endpoint
+ *   LYZR_UPLOAD_URL               Upstream upload endpoint
+ *   AGENT_PROXY_ALLOWED_AGENTS    Comma-separated agent IDs the proxy may call (default: the
+ *                                 agents in response_schemas/ plus VITE_AGENT_IDS/VITE_AGENT_ID)
+ *   AGENT_PROXY_RATE_LIMIT        Requests per user per window (default 30)
+ *   AGENT_PROXY_IP_RATE_LIMIT     Requests per client IP per window (default 120)
+ *   AGENT_PROXY_RATE_WINDOW_MS    Window length in milliseconds (default 60000)
+ *
+ * Rate limits are kept in memory, so they are per process (per function
+ * instance on Netlify). User IDs are asserted by the client, which is why the
+ * looser per-IP limit applies as well.
+ *
+ * The proxy only calls allowed agents: it refuses to start with an empty
+ * allowlist rather than forward to any agent on the account.
+ */
+
+import managerSchema from '../response_schemas/policy_creation_manager_response.json' with { type: 'json' }
+import requirementsSchema from '../response_schemas/requirements_analyst_agent_response.json' with { type: 'json' }
+import draftingSchema from '../response_schemas/policy_drafting_agent_response.json' with { type: 'json' }
+import complianceSchema from '../response_schemas/compliance_checker_agent_response.json' with { type: 'json' }
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_UPSTREAM = {
+  chat: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/',
+  stream: 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/',
+  upload: 'https://agent-prod.studio.lyzr.ai/v3/assets/upload',
+}
+
+/** The app's agents, as in the agent registry (imported so bundlers include them) */
+const DEFAULT_ALLOWED_AGENTS = [managerSchema, requirementsSchema, draftingSchema, complianceSchema]
+  .map(schema => schema.agent_id)
+
+const REQUEST_ID_HEADER = 'X-Client-Request-ID'
+
+const ROUTES = {
+  '/api/agent/chat': 'chat',
+  '/api/agent/stream': 'stream',
+  '/api/upload': 'upload',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const json = (body, status = 200, headers = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+
+const positiveNumber = (value, fallback) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : fallback
+}
+
+const parseList = (text) => (text || '').split(',').map(item => item.trim()).filter(Boolean)
+
+/**
+ * AGENT_PROXY_ALLOWED_AGENTS when set, otherwise the app's agents and the
+ * client's agent ID overrides ("key=id" pairs in VITE_AGENT_IDS)
+ */
+function resolveAllowedAgents(env) {
+  if (env.AGENT_PROXY_ALLOWED_AGENTS?.trim()) return new Set(parseList(env.AGENT_PROXY_ALLOWED_AGENTS))
+  const overrides = parseList(env.VITE_AGENT_IDS).map(pair => pair.split('=')[1]?.trim()).filter(Boolean)
+  return new Set([...DEFAULT_ALLOWED_AGENTS, ...overrides, ...parseList(env.VITE_AGENT_ID)].filter(Boolean))
+}
+
+/**
+ * Fixed-window counter per key
+ */
+export function createRateLimiter({ limit, window_ms, now = () => Date.now() }) {
+  const windows = new Map()
+
+  return {
+    /** Count one request; reports whether it is allowed */
+    hit(key) {
+      const time = now()
+      let entry = windows.get(key)
+      if (!entry || entry.reset_at <= time) {
+        entry = { count: 0, reset_at: time + window_ms }
+        windows.set(key, entry)
+      }
+      entry.count += 1
+
+      // Drop expired windows now and then so the map does not grow forever
+      if (windows.size > 10_000) {
+        for (const [k, value] of windows) if (value.reset_at <= time) windows.delete(k)
+      }
+
+      return {
+        allowed: entry.count <= limit,
+        limit,
+        remaining: Math.max(0, limit - entry.count),
+        retry_after_s: Math.max(1, Math.ceil((entry.reset_at - time) / 1000)),
+      }
+    },
+  }
+}
+
+function rateLimitHeaders(result) {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+  }
+}
+
+// =============================================================================
+// Proxy
+// =============================================================================
+
+/**
+ * Build the request handler from an environment (process.env or similar).
+ * Throws when no agent is allowed.
+ */
+export function createAgentProxy(env = {}) {
+  const apiKey = env.LYZR_API_KEY || ''
+  const upstream = {
+    chat: env.LYZR_API_URL || DEFAULT_UPSTREAM.chat,
+    stream: env.LYZR_STREAM_URL || DEFAULT_UPSTREAM.stream,
+    upload: env.LYZR_UPLOAD_URL || DEFAULT_UPSTREAM.upload,
+  }
+  const allowedAgents = resolveAllowedAgents(env)
+  if (allowedAgents.size === 0) {
+    throw new Error('The agent proxy has no allowed agents; set AGENT_PROXY_ALLOWED_AGENTS to the agent IDs it may call')
+  }
+  const window_ms = positiveNumber(env.AGENT_PROXY_RATE_WINDOW_MS, 60_000)
+  const userLimiter = createRateLimiter({ limit: positiveNumber(env.AGENT_PROXY_RATE_LIMIT, 30), window_ms })
+  const ipLimiter = createRateLimiter({ limit: positiveNumber(env.AGENT_PROXY_IP_RATE_LIMIT, 120), window_ms })
+
+  /**
+   * Apply both limits; returns the user's result, or a 429 response
+   */
+  function checkRateLimit(userId, clientIp) {
+    const ip = ipLimiter.hit(`ip:${clientIp || 'unknown'}`)
+    const user = userId ? userLimiter.hit(`user:${userId}`) : ip
+    const blocked = !ip.allowed ? ip : !user.allowed ? user : null
+    if (blocked) {
+      return {
+        response: json(
+          { success: false, error: `Rate limit exceeded. Try again in ${blocked.retry_after_s}s.` },
+          429,
+          { 'Retry-After': String(blocked.retry_after_s), ...rateLimitHeaders(blocked) }
+        ),
+      }
+    }
+    return { headers: rateLimitHeaders(user) }
+  }
+
+  async function forward(url, request, body, contentType, extraHeaders) {
+    const headers = { 'x-api-key': apiKey, ...(contentType ? { 'Content-Type': contentType } : {}) }
+    const requestId = request.headers.get(REQUEST_ID_HEADER)
+    if (requestId) headers[REQUEST_ID_HEADER] = requestId
+    if (request.headers.get('accept')) headers.Accept = request.headers.get('accept')
+
+    let upstreamResponse
+    try {
+      upstreamResponse = await fetch(url, { method: 'POST', headers, body, signal: request.signal })
+    } catch (error) {
+      if (request.signal?.aborted) return new Response(null, { status: 499 })
+      return json({ success: false, error: `Upstream request failed: ${error.message}` }, 502, extraHeaders)
+    }
+
+    const responseHeaders = { ...extraHeaders }
+    for (const name of ['content-type', 'retry-after', 'cache-control']) {
+      const value = upstreamResponse.headers.get(name)
+      if (value) responseHeaders[name] = value
+    }
+    // Passed through as it arrives, so event streams are not buffered
+    return new Response(upstreamResponse.body, { status: upstreamResponse.status, headers: responseHeaders })
+  }
+
+  async function handleInference(kind, request, clientIp) {
+    let payload
+    try {
+      payload = await request.json()
+    } catch {
+      return json({ success: false, error: 'Request body must be JSON' }, 400)
+    }
+    if (!payload || typeof payload.agent_id !== 'string' || typeof payload.message !== 'string') {
+      return json({ success: false, error: 'agent_id and message are required' }, 400)
+    }
+    if (!allowedAgents.has(payload.agent_id)) {
+      return json({ success: false, error: `Agent ${payload.agent_id} is not available through this proxy` }, 403)
+    }
+
+    const limit = checkRateLimit(payload.user_id || request.headers.get('x-user-id'), clientIp)
+    if (limit.response) return limit.response
+
+    return forward(upstream[kind], request, JSON.stringify(payload), 'application/json', limit.headers)
+  }
+
+  async function handleUpload(request, clientIp) {
+    const contentType = request.headers.get('content-type') || ''
+    if (!contentType.startsWith('multipart/form-data')) {
+      return json({ success: false, error: 'Uploads must be multipart/form-data' }, 400)
+    }
+
+    const limit = checkRateLimit(request.headers.get('x-user-id'), clientIp)
+    if (limit.response) return limit.response
+
+    // Keeps the multipart boundary from the original content type
+    return forward(upstream.upload, request, await request.arrayBuffer(), contentType, limit.headers)
+  }
+
+  return async function handleAgentProxyRequest(request, { clientIp } = {}) {
+    const { pathname } = new URL(request.url)
+    const kind = ROUTES[pathname.replace(/\/+$/, '')]
+
+    if (!kind) return json({ success: false, error: `No proxy route for ${pathname}` }, 404)
+    if (request.method !== 'POST') return json({ success: false, error: 'Method not allowed' }, 405, { Allow: 'POST' })
+    if (!apiKey) return json({ success: false, error: 'The agent proxy has no LYZR_API_KEY configured' }, 500)
+
+    return kind === 'upload' ? handleUpload(request, clientIp) : handleInference(kind, request, clientIp)
+  }
+}
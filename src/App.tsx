@@ -1,19 +1,26 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
+import { AppConfigProvider } from '@/components/AppConfigProvider'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
 import Home from './pages/Home'
+import Settings from './pages/Settings'
+import Telemetry from './pages/Telemetry'
 import NotFound from './pages/NotFound'
 
 export default function App() {
   return (
     <BrowserRouter>
       <ErrorBoundary>
-        <AgentInterceptorProvider>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </AgentInterceptorProvider>
+        <AppConfigProvider>
+          <AgentInterceptorProvider>
+            <Routes>
+              <Route path="/" element={<Home />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/telemetry" element={<Telemetry />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </AgentInterceptorProvider>
+        </AppConfigProvider>
         <GlobalErrorModal />
       </ErrorBoundary>
     </BrowserRouter>
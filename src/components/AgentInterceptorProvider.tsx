@@ -1,10 +1,11 @@
 import { useEffect, useState } from 'react'
 import {
-  installAgentInterceptor,
-  onInterceptorError,
+  agentIssueMiddleware,
+  onAgentIssue,
   clearPendingError,
   sendFixRequestToParent,
-} from '@/lib/agent-fetch-interceptor'
+} from '@/lib/agent-issue-detection'
+import { registerAgentMiddleware } from '@/lib/agent-middleware'
 import { isInIframe } from '@/components/ErrorBoundary'
 
 interface PendingError {
@@ -387,7 +388,7 @@ function GlobalErrorModal({
 }
 
 /**
- * Provider that installs the global fetch interceptor for Lyzr Agent API calls.
+ * Provider that adds issue detection to the agent middleware pipeline.
  * Shows error modal when issues are detected, lets user click "Fix with AI".
  *
  * Add this to your layout.tsx to enable error detection for ALL agent calls.
@@ -397,11 +398,11 @@ export function AgentInterceptorProvider({ children }: { children: React.ReactNo
   const [globalError, setGlobalError] = useState<GlobalError | null>(null)
 
   useEffect(() => {
-    // Install interceptor on mount
-    installAgentInterceptor()
+    // Check every agent call while mounted
+    const unregister = registerAgentMiddleware(agentIssueMiddleware)
 
     // Register callback to receive error notifications
-    onInterceptorError((error) => {
+    onAgentIssue((error) => {
       setPendingError(error)
     })
 
@@ -432,7 +433,10 @@ export function AgentInterceptorProvider({ children }: { children: React.ReactNo
     }
 
     window.addEventListener('error', handleGlobalError)
-    return () => window.removeEventListener('error', handleGlobalError)
+    return () => {
+      unregister()
+      window.removeEventListener('error', handleGlobalError)
+    }
   }, [])
 
   const handleDismiss = () => {
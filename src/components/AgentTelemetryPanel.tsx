@@ -0,0 +1,205 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAgentTelemetry } from '@/hooks/useAgentTelemetry'
+import type { LatencyStats } from '@/lib/agent-telemetry'
+
+const RECENT_CALLS = 50
+
+const latencyChartConfig = {
+  p50_ms: { label: 'p50', color: 'hsl(217 91% 60%)' },
+  p95_ms: { label: 'p95', color: 'hsl(25 95% 53%)' }
+} satisfies ChartConfig
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`)
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : bytes >= 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${bytes} B`
+
+// Component: p50/p95 bars for one group of agents
+function LatencyChart({ title, description, stats }: { title: string; description: string; stats: LatencyStats[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {stats.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">No calls recorded yet</p>
+        ) : (
+          <ChartContainer config={latencyChartConfig} className="h-64 w-full">
+            <BarChart data={stats} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} tick={{ fontSize: 11 }} interval={0} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={formatMs} width={48} />
+              <ChartTooltip
+                content={<ChartTooltipContent formatter={(value, name) => `${latencyChartConfig[name as keyof typeof latencyChartConfig]?.label || name}: ${formatMs(Number(value))}`} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="p50_ms" fill="var(--color-p50_ms)" radius={4} />
+              <Bar dataKey="p95_ms" fill="var(--color-p95_ms)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+        {stats.length > 0 && (
+          <div className="mt-3 space-y-1">
+            {stats.map(stat => (
+              <div key={stat.name} className="flex items-center justify-between text-xs text-gray-600">
+                <span className="truncate">{stat.name}</span>
+                <span>
+                  {stat.count} calls · p50 {formatMs(stat.p50_ms)} · p95 {formatMs(stat.p95_ms)}
+                  {stat.errors > 0 && <span className="text-red-600"> · {stat.errors} failed</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Component: Developer view of recorded agent call telemetry
+export function AgentTelemetryPanel() {
+  const { records, agentStats, subAgentStats, totals, clear } = useAgentTelemetry()
+  const recent = records.slice(-RECENT_CALLS).reverse()
+
+  const summary = [
+    { label: 'Calls', value: String(totals.calls) },
+    { label: 'Failed', value: String(totals.errors) },
+    { label: 'Retries', value: String(totals.retries) },
+    { label: 'Cache hits', value: String(totals.cache_hits) },
+    { label: 'Tokens', value: totals.total_tokens.toLocaleString() },
+    { label: 'Cost', value: totals.cost > 0 ? `$${totals.cost.toFixed(4)}` : '—' },
+    { label: 'Sent', value: formatBytes(totals.request_bytes) },
+    { label: 'Received', value: formatBytes(totals.response_bytes) }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-4 gap-3">
+        {summary.map(item => (
+          <div key={item.label} className="bg-white border border-gray-200 rounded-lg p-3">
+            <p className="text-xs text-gray-500">{item.label}</p>
+            <p className="text-lg font-semibold text-gray-900">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <LatencyChart
+          title="Latency by agent"
+          description="Calls answered from the cache or cancelled are left out"
+          stats={agentStats}
+        />
+        <LatencyChart
+          title="Latency by sub-agent"
+          description="Time spent in each sub-agent of streamed manager runs"
+          stats={subAgentStats}
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base">Recent calls</CardTitle>
+            <CardDescription>
+              Last {Math.min(RECENT_CALLS, records.length)} of {records.length} recorded in this browser
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={clear} disabled={records.length === 0}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear log
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Agent</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead className="text-right">Sent / received</TableHead>
+                <TableHead>Parse</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recent.map(record => (
+                <TableRow key={record.id}>
+                  <TableCell className="text-xs text-gray-500 whitespace-nowrap">
+                    {new Date(record.started_at).toLocaleTimeString()}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {record.agent_name}
+                    <span className="text-xs text-gray-400 ml-1">{record.kind}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="secondary"
+                      title={record.error}
+                      className={cn(
+                        record.success ? 'bg-green-100 text-green-800 hover:bg-green-100' : 'bg-red-100 text-red-800 hover:bg-red-100'
+                      )}
+                    >
+                      {record.aborted ? 'cancelled' : record.success ? 'ok' : 'failed'}
+                    </Badge>
+                    {record.cache_status && record.cache_status !== 'miss' && (
+                      <Badge variant="outline" className="ml-1">{record.cache_status}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{formatMs(record.duration_ms)}</TableCell>
+                  <TableCell className={cn('text-right text-sm', record.attempts > 1 && 'text-amber-600')}>
+                    {record.attempts}
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-gray-600 whitespace-nowrap">
+                    {formatBytes(record.request_bytes)} / {formatBytes(record.response_bytes)}
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-600">{record.parse_strategy || '—'}</TableCell>
+                  <TableCell className="text-right text-xs text-gray-600">
+                    {record.usage?.total_tokens !== undefined ? record.usage.total_tokens.toLocaleString() : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {recent.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-sm text-gray-500 py-8">
+                    Agent calls will show up here as they finish
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default AgentTelemetryPanel
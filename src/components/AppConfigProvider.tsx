@@ -0,0 +1,24 @@
+import { useEffect, useRef, useState } from 'react'
+import { configureApp, type AppConfigOverrides } from '@/lib/app-config'
+
+// Component: Applies config overrides (endpoints, keys, agent IDs, per-environment values) for the whole app
+export function AppConfigProvider({
+  children,
+  ...overrides
+}: AppConfigOverrides & { children: React.ReactNode }) {
+  const serialized = JSON.stringify(overrides)
+  const applied = useRef(serialized)
+
+  // Apply before the first render of the children so their first requests use it
+  useState(() => configureApp(overrides))
+
+  useEffect(() => {
+    if (applied.current === serialized) return
+    applied.current = serialized
+    configureApp(JSON.parse(serialized) as AppConfigOverrides)
+  }, [serialized])
+
+  return <>{children}</>
+}
+
+export default AppConfigProvider
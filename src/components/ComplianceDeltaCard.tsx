@@ -0,0 +1,75 @@
+import { Badge } from '@/components/ui/badge'
+import { ArrowRight, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ComplianceDelta } from '@/lib/policy-diff'
+
+const statusClass = (status: string | null) => {
+  switch (status) {
+    case 'pass':
+      return 'bg-green-100 text-green-800 hover:bg-green-100'
+    case 'warning':
+      return 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100'
+    case 'fail':
+      return 'bg-red-100 text-red-800 hover:bg-red-100'
+    default:
+      return 'bg-gray-100 text-gray-600 hover:bg-gray-100'
+  }
+}
+
+// Component: What changed since the previous compliance review
+export function ComplianceDeltaCard({
+  delta,
+  previousChecked
+}: {
+  delta: ComplianceDelta
+  previousChecked: Date
+}) {
+  const DeltaIcon = delta.scoreDelta > 0 ? TrendingUp : delta.scoreDelta < 0 ? TrendingDown : Minus
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900">Since Last Check</h3>
+        <span className="text-xs text-gray-500">
+          Previous: {previousChecked.toLocaleString()}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-600">{delta.scoreBefore}%</span>
+        <ArrowRight className="w-4 h-4 text-gray-400" />
+        <span className="font-semibold text-gray-900">{delta.scoreAfter}%</span>
+        <span className={cn(
+          "flex items-center gap-1 font-medium",
+          delta.scoreDelta > 0 ? 'text-green-600' : delta.scoreDelta < 0 ? 'text-red-600' : 'text-gray-500'
+        )}>
+          <DeltaIcon className="w-4 h-4" />
+          {delta.scoreDelta > 0 ? '+' : ''}{delta.scoreDelta}
+        </span>
+      </div>
+
+      {delta.changedChecks.length > 0 ? (
+        <ul className="mt-3 space-y-2">
+          {delta.changedChecks.map((change, idx) => (
+            <li key={idx} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">{change.category}</span>
+              <span className="flex items-center gap-1">
+                <Badge className={cn("text-xs", statusClass(change.before))}>
+                  {(change.before || 'new').toUpperCase()}
+                </Badge>
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+                <Badge className={cn("text-xs", statusClass(change.after))}>
+                  {(change.after || 'removed').toUpperCase()}
+                </Badge>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500">No compliance checks changed status</p>
+      )}
+    </div>
+  )
+}
+
+export default ComplianceDeltaCard
@@ -5,7 +5,7 @@ import React, { Component, ErrorInfo, ReactNode, useState, useEffect } from 'rea
 // =============================================================================
 
 interface ErrorDetails {
-  type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
+  type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'cancelled' | 'timeout' | 'unknown'
   message: string
   stack?: string
   componentStack?: string
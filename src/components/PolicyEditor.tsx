@@ -0,0 +1,399 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  Undo2,
+  Redo2,
+  Save,
+  X,
+  AlertTriangle
+} from 'lucide-react'
+import { usePolicyEditor } from '@/hooks/usePolicyEditor'
+import type { PolicyDocument, PolicyResult } from '@/types/policy'
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+// Component: Move up / move down / remove controls for an array item
+function ItemControls({
+  index,
+  length,
+  onMove,
+  onRemove
+}: {
+  index: number
+  length: number
+  onMove: (to: number) => void
+  onRemove: () => void
+}) {
+  return (
+    <div className="flex items-center gap-1 shrink-0">
+      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => onMove(index - 1)} title="Move up">
+        <ArrowUp className="w-3 h-3" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === length - 1} onClick={() => onMove(index + 1)} title="Move down">
+        <ArrowDown className="w-3 h-3" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" onClick={onRemove} title="Remove">
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  )
+}
+
+// Component: Editable list of strings (steps, bullets)
+function StringListEditor({
+  items,
+  onChange,
+  addLabel,
+  placeholder
+}: {
+  items: string[]
+  onChange: (items: string[], key?: string) => void
+  addLabel: string
+  placeholder?: string
+}) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <span className="text-xs text-gray-500 w-5 text-right">{idx + 1}.</span>
+          <Input
+            value={item}
+            placeholder={placeholder}
+            onChange={(e) => onChange(items.map((v, i) => (i === idx ? e.target.value : v)), `item-${idx}`)}
+          />
+          <ItemControls
+            index={idx}
+            length={items.length}
+            onMove={(to) => onChange(moveItem(items, idx, to))}
+            onRemove={() => onChange(items.filter((_, i) => i !== idx))}
+          />
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...items, ''])}>
+        <Plus className="w-3 h-3 mr-1" />
+        {addLabel}
+      </Button>
+    </div>
+  )
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return <h2 className="text-lg font-semibold text-gray-900 mb-2">{children}</h2>
+}
+
+// Component: In-place editor for a generated policy
+export function PolicyEditor({
+  policy,
+  onSave,
+  onCancel
+}: {
+  policy: PolicyResult
+  onSave: (edited: PolicyResult) => void
+  onCancel: () => void
+}) {
+  const { draft, update, undo, redo, reset, canUndo, canRedo, isDirty } = usePolicyEditor(policy)
+  // A newer policy that arrived while there were unsaved edits
+  const [incoming, setIncoming] = useState<PolicyResult | null>(null)
+  const dirtyRef = useRef(isDirty)
+  dirtyRef.current = isDirty
+
+  useEffect(() => {
+    if (dirtyRef.current) {
+      setIncoming(policy)
+    } else {
+      reset(policy)
+      setIncoming(null)
+    }
+  }, [policy, reset])
+
+  const loadIncoming = () => {
+    reset(incoming)
+    setIncoming(null)
+  }
+
+  if (!draft) return null
+
+  const doc = draft.policy_document
+
+  const setDoc = (patch: Partial<PolicyDocument>, key?: string) => {
+    update(d => ({ ...d, policy_document: { ...d.policy_document, ...patch } }), key)
+  }
+
+  // Only while focus is inside the editor, so undo elsewhere (e.g. the chat box) stays native
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return
+    e.preventDefault()
+    if (e.shiftKey) redo()
+    else undo()
+  }
+
+  return (
+    <div className="h-full flex flex-col" onKeyDown={handleKeyDown}>
+      {incoming && (
+        <div className="px-6 py-2 border-b border-amber-200 bg-amber-50 flex items-center gap-2 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>This policy was updated while you were editing. Loading the new version discards your changes.</span>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIncoming(null)}>
+              Keep my edits
+            </Button>
+            <Button variant="outline" size="sm" className="bg-white" onClick={loadIncoming}>
+              Load new version
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="px-6 py-2 border-b border-gray-200 flex items-center gap-2 bg-gray-50">
+        <Button variant="ghost" size="sm" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4 mr-1" />
+          Undo
+        </Button>
+        <Button variant="ghost" size="sm" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4 mr-1" />
+          Redo
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+            disabled={!isDirty}
+            onClick={() => onSave(draft)}
+          >
+            <Save className="w-4 h-4 mr-1" />
+            Save Changes
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-6 space-y-6">
+          <Input
+            value={draft.policy_title}
+            onChange={(e) => update(d => ({ ...d, policy_title: e.target.value }), 'policy_title')}
+            className="text-xl font-bold"
+          />
+
+          <div>
+            <SectionLabel>Purpose</SectionLabel>
+            <Textarea value={doc.purpose} onChange={(e) => setDoc({ purpose: e.target.value }, 'purpose')} />
+          </div>
+
+          <div>
+            <SectionLabel>Scope</SectionLabel>
+            <Textarea value={doc.scope} onChange={(e) => setDoc({ scope: e.target.value }, 'scope')} />
+          </div>
+
+          <div>
+            <SectionLabel>Definitions</SectionLabel>
+            <div className="space-y-3">
+              {(doc.definitions || []).map((def, idx) => (
+                <div key={idx} className="bg-gray-50 p-3 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={def.term}
+                      placeholder="Term"
+                      onChange={(e) => setDoc({
+                        definitions: doc.definitions.map((d, i) => (i === idx ? { ...d, term: e.target.value } : d))
+                      }, `definitions-${idx}-term`)}
+                    />
+                    <ItemControls
+                      index={idx}
+                      length={doc.definitions.length}
+                      onMove={(to) => setDoc({ definitions: moveItem(doc.definitions, idx, to) })}
+                      onRemove={() => setDoc({ definitions: doc.definitions.filter((_, i) => i !== idx) })}
+                    />
+                  </div>
+                  <Textarea
+                    value={def.definition}
+                    placeholder="Definition"
+                    onChange={(e) => setDoc({
+                      definitions: doc.definitions.map((d, i) => (i === idx ? { ...d, definition: e.target.value } : d))
+                    }, `definitions-${idx}-definition`)}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDoc({ definitions: [...(doc.definitions || []), { term: '', definition: '' }] })}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add definition
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <SectionLabel>Policy Statement</SectionLabel>
+            <Textarea
+              value={doc.policy_statement}
+              onChange={(e) => setDoc({ policy_statement: e.target.value }, 'policy_statement')}
+            />
+          </div>
+
+          <div>
+            <SectionLabel>Procedures</SectionLabel>
+            <div className="space-y-4">
+              {(doc.procedures || []).map((proc, idx) => (
+                <div key={idx} className="border-l-4 border-blue-500 pl-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={proc.section_title}
+                      placeholder="Section title"
+                      onChange={(e) => setDoc({
+                        procedures: doc.procedures.map((p, i) => (i === idx ? { ...p, section_title: e.target.value } : p))
+                      }, `procedures-${idx}-title`)}
+                    />
+                    <ItemControls
+                      index={idx}
+                      length={doc.procedures.length}
+                      onMove={(to) => setDoc({ procedures: moveItem(doc.procedures, idx, to) })}
+                      onRemove={() => setDoc({ procedures: doc.procedures.filter((_, i) => i !== idx) })}
+                    />
+                  </div>
+                  <Textarea
+                    value={proc.content}
+                    placeholder="Section content"
+                    onChange={(e) => setDoc({
+                      procedures: doc.procedures.map((p, i) => (i === idx ? { ...p, content: e.target.value } : p))
+                    }, `procedures-${idx}-content`)}
+                  />
+                  <StringListEditor
+                    items={proc.steps || []}
+                    addLabel="Add step"
+                    placeholder="Step"
+                    onChange={(steps, key) => setDoc({
+                      procedures: doc.procedures.map((p, i) => (i === idx ? { ...p, steps } : p))
+                    }, key && `procedures-${idx}-${key}`)}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDoc({
+                  procedures: [...(doc.procedures || []), { section_title: '', content: '', steps: [] }]
+                })}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add procedure
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <SectionLabel>Responsibilities</SectionLabel>
+            <div className="space-y-3">
+              {(doc.responsibilities || []).map((resp, idx) => (
+                <div key={idx} className="bg-blue-50 p-3 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={resp.role}
+                      placeholder="Role"
+                      onChange={(e) => setDoc({
+                        responsibilities: doc.responsibilities.map((r, i) => (i === idx ? { ...r, role: e.target.value } : r))
+                      }, `responsibilities-${idx}-role`)}
+                    />
+                    <ItemControls
+                      index={idx}
+                      length={doc.responsibilities.length}
+                      onMove={(to) => setDoc({ responsibilities: moveItem(doc.responsibilities, idx, to) })}
+                      onRemove={() => setDoc({ responsibilities: doc.responsibilities.filter((_, i) => i !== idx) })}
+                    />
+                  </div>
+                  <StringListEditor
+                    items={resp.responsibilities || []}
+                    addLabel="Add responsibility"
+                    onChange={(items, key) => setDoc({
+                      responsibilities: doc.responsibilities.map((r, i) => (i === idx ? { ...r, responsibilities: items } : r))
+                    }, key && `responsibilities-${idx}-${key}`)}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDoc({
+                  responsibilities: [...(doc.responsibilities || []), { role: '', responsibilities: [] }]
+                })}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add role
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <SectionLabel>Enforcement</SectionLabel>
+            <div className="space-y-3">
+              <div>
+                <h3 className="font-medium text-gray-900 mb-1">Violation Reporting</h3>
+                <Textarea
+                  value={doc.enforcement?.violation_reporting || ''}
+                  onChange={(e) => setDoc({
+                    enforcement: { ...doc.enforcement, violation_reporting: e.target.value }
+                  }, 'violation_reporting')}
+                />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-900 mb-1">Investigation Process</h3>
+                <Textarea
+                  value={doc.enforcement?.investigation_process || ''}
+                  onChange={(e) => setDoc({
+                    enforcement: { ...doc.enforcement, investigation_process: e.target.value }
+                  }, 'investigation_process')}
+                />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-900 mb-1">Disciplinary Actions</h3>
+                <StringListEditor
+                  items={doc.enforcement?.disciplinary_actions || []}
+                  addLabel="Add action"
+                  onChange={(items, key) => setDoc({
+                    enforcement: { ...doc.enforcement, disciplinary_actions: items }
+                  }, key && `disciplinary-${key}`)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Effective Date</label>
+              <Input
+                value={doc.effective_date}
+                onChange={(e) => setDoc({ effective_date: e.target.value }, 'effective_date')}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Review Cycle</label>
+              <Input
+                value={doc.review_cycle}
+                onChange={(e) => setDoc({ review_cycle: e.target.value }, 'review_cycle')}
+              />
+            </div>
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default PolicyEditor
@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuCheckboxItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator
+} from '@/components/ui/dropdown-menu'
+import { Download, Loader2 } from 'lucide-react'
+import { exportPolicy, EXPORT_FORMATS, type ExportFormat } from '@/lib/policy-export'
+import type { PolicyResult, ComplianceResult } from '@/types/policy'
+
+// Component: Export Policy dropdown
+export function PolicyExportMenu({
+  policyData,
+  complianceData
+}: {
+  policyData: PolicyResult | null
+  complianceData: ComplianceResult | null
+}) {
+  const [includeCompliance, setIncludeCompliance] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!policyData) return
+    setExporting(true)
+    try {
+      await exportPolicy(format, policyData, {
+        compliance: includeCompliance ? complianceData : null
+      })
+    } catch (error) {
+      console.error('Policy export failed:', error)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="text-gray-700" disabled={!policyData || exporting}>
+          {exporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Export Policy
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeCompliance && !!complianceData}
+          disabled={!complianceData}
+          onCheckedChange={(checked) => setIncludeCompliance(checked === true)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Include compliance appendix
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export default PolicyExportMenu
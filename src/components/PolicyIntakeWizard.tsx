@@ -0,0 +1,224 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Progress } from '@/components/ui/progress'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form'
+import { ChevronLeft, ChevronRight, Send } from 'lucide-react'
+import { parseListInput, type PolicyIntake } from '@/lib/policy-intake'
+
+const listField = (message?: string) =>
+  message
+    ? z.string().refine(value => parseListInput(value).length > 0, message)
+    : z.string()
+
+const intakeSchema = z.object({
+  policy_topic: z.string().trim().min(1, 'What is the policy about?'),
+  scope: z.string().trim().min(1, 'Describe who and what the policy covers'),
+  target_audience: listField('Add at least one audience'),
+  key_provisions: listField('Add at least one key provision'),
+  exceptions: listField(),
+  monitoring: z.string().trim(),
+  violations_process: z.string().trim(),
+  consequences: listField(),
+  additional_requirements: listField()
+})
+
+type IntakeFormValues = z.infer<typeof intakeSchema>
+type IntakeField = keyof IntakeFormValues
+
+const EMPTY_INTAKE: IntakeFormValues = {
+  policy_topic: '',
+  scope: '',
+  target_audience: '',
+  key_provisions: '',
+  exceptions: '',
+  monitoring: '',
+  violations_process: '',
+  consequences: '',
+  additional_requirements: ''
+}
+
+const STEPS: Array<{ title: string; description: string; fields: IntakeField[] }> = [
+  {
+    title: 'Scope',
+    description: 'What the policy is about and who it applies to',
+    fields: ['policy_topic', 'scope', 'target_audience']
+  },
+  {
+    title: 'Provisions',
+    description: 'The rules the policy must contain and any exceptions',
+    fields: ['key_provisions', 'exceptions']
+  },
+  {
+    title: 'Enforcement',
+    description: 'How compliance is monitored and what happens on a violation',
+    fields: ['monitoring', 'violations_process', 'consequences']
+  },
+  {
+    title: 'Additional Requirements',
+    description: 'Anything else the draft has to cover',
+    fields: ['additional_requirements']
+  }
+]
+
+const FIELD_LABELS: Record<IntakeField, { label: string; placeholder: string; list?: boolean }> = {
+  policy_topic: { label: 'Policy topic', placeholder: 'Remote work' },
+  scope: { label: 'Scope', placeholder: 'All full-time and part-time employees working from home at least one day a week' },
+  target_audience: { label: 'Target audience', placeholder: 'Employees\nPeople managers\nIT', list: true },
+  key_provisions: { label: 'Key provisions', placeholder: 'Core hours 10:00–15:00 local time\nCompany-issued laptop required', list: true },
+  exceptions: { label: 'Exceptions', placeholder: 'Roles that require on-site equipment', list: true },
+  monitoring: { label: 'Monitoring', placeholder: 'Quarterly manager check-ins' },
+  violations_process: { label: 'Violations process', placeholder: 'Report to HR, who investigates within 10 business days' },
+  consequences: { label: 'Consequences', placeholder: 'Written warning\nRevocation of remote work eligibility', list: true },
+  additional_requirements: { label: 'Additional requirements', placeholder: 'Home office stipend of $500 per year', list: true }
+}
+
+const toIntake = (values: IntakeFormValues): PolicyIntake => ({
+  policy_topic: values.policy_topic,
+  requirements: {
+    scope: values.scope,
+    target_audience: parseListInput(values.target_audience),
+    key_provisions: parseListInput(values.key_provisions),
+    exceptions: parseListInput(values.exceptions),
+    enforcement_mechanisms: {
+      monitoring: values.monitoring,
+      violations_process: values.violations_process,
+      consequences: parseListInput(values.consequences)
+    },
+    additional_requirements: parseListInput(values.additional_requirements)
+  }
+})
+
+// Component: Step-by-step intake that captures the Requirements Analyst fields up front
+export function PolicyIntakeWizard({
+  open,
+  onOpenChange,
+  onSubmit,
+  onUseFreeText
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (intake: PolicyIntake) => void
+  onUseFreeText: () => void
+}) {
+  const [step, setStep] = useState(0)
+  const form = useForm<IntakeFormValues>({
+    resolver: zodResolver(intakeSchema),
+    defaultValues: EMPTY_INTAKE
+  })
+
+  const current = STEPS[step]
+  const isLastStep = step === STEPS.length - 1
+
+  const handleNext = async () => {
+    const valid = await form.trigger(current.fields)
+    if (valid) setStep(prev => prev + 1)
+  }
+
+  const handleSubmit = (values: IntakeFormValues) => {
+    onSubmit(toIntake(values))
+    form.reset(EMPTY_INTAKE)
+    setStep(0)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            New Policy · Step {step + 1} of {STEPS.length}: {current.title}
+          </DialogTitle>
+          <DialogDescription>{current.description}</DialogDescription>
+        </DialogHeader>
+
+        <Progress value={((step + 1) / STEPS.length) * 100} className="h-2" />
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            onKeyDown={(e) => {
+              // Enter inside an input should not skip ahead and submit the wizard
+              if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') e.preventDefault()
+            }}
+            className="space-y-4"
+          >
+            {current.fields.map(name => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{FIELD_LABELS[name].label}</FormLabel>
+                    <FormControl>
+                      {FIELD_LABELS[name].list || name === 'scope' ? (
+                        <Textarea
+                          placeholder={FIELD_LABELS[name].placeholder}
+                          className="min-h-[90px]"
+                          {...field}
+                        />
+                      ) : (
+                        <Input placeholder={FIELD_LABELS[name].placeholder} {...field} />
+                      )}
+                    </FormControl>
+                    {FIELD_LABELS[name].list && (
+                      <FormDescription>One per line</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <DialogFooter className="flex items-center sm:justify-between gap-2">
+              <Button type="button" variant="link" className="px-0 text-gray-500" onClick={onUseFreeText}>
+                Describe it in free text instead
+              </Button>
+              <div className="flex gap-2">
+                {step > 0 && (
+                  <Button type="button" variant="outline" onClick={() => setStep(prev => prev - 1)}>
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Back
+                  </Button>
+                )}
+                {isLastStep ? (
+                  <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">
+                    <Send className="w-4 h-4 mr-2" />
+                    Generate Policy
+                  </Button>
+                ) : (
+                  <Button type="button" className="bg-blue-600 hover:bg-blue-700 text-white" onClick={handleNext}>
+                    Next
+                    <ChevronRight className="w-4 h-4 ml-1" />
+                  </Button>
+                )}
+              </div>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PolicyIntakeWizard
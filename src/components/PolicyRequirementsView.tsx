@@ -0,0 +1,136 @@
+import { useMemo } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle, AlertTriangle, AlertCircle, ClipboardList } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getSectionTitle } from '@/lib/policy-agents'
+import {
+  traceProvisions,
+  isRequirementsEmpty,
+  type ProvisionCoverage
+} from '@/lib/policy-requirements'
+import type { PolicyRequirements, PolicyResult } from '@/types/policy'
+
+const COVERAGE_STYLES: Record<ProvisionCoverage, { label: string; className: string; icon: typeof CheckCircle }> = {
+  covered: { label: 'In draft', className: 'bg-green-100 text-green-800 hover:bg-green-100', icon: CheckCircle },
+  partial: { label: 'Partially covered', className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100', icon: AlertTriangle },
+  missing: { label: 'Not found', className: 'bg-red-100 text-red-800 hover:bg-red-100', icon: AlertCircle }
+}
+
+function RequirementList({ title, items }: { title: string; items: string[] }) {
+  return (
+    <div className="mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2">{title}</h2>
+      {items.length > 0 ? (
+        <ul className="list-disc list-inside space-y-1 text-gray-700">
+          {items.map((item, idx) => (
+            <li key={idx}>{item}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">None specified</p>
+      )}
+    </div>
+  )
+}
+
+// Component: Requirements Analyst output with provision traceability against the draft
+export function PolicyRequirementsView({
+  requirements,
+  policyData
+}: {
+  requirements: PolicyRequirements | null
+  policyData: PolicyResult | null
+}) {
+  const trace = useMemo(() => traceProvisions(requirements, policyData), [requirements, policyData])
+
+  if (!requirements) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <ClipboardList className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+        <p>No requirements analysis for this policy</p>
+      </div>
+    )
+  }
+
+  const covered = trace.filter(t => t.coverage === 'covered').length
+  const enforcement = requirements.enforcement_mechanisms
+
+  return (
+    <div>
+      {isRequirementsEmpty(requirements) && (
+        <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          The requirements analysis came back empty. Use the guided intake to describe the scope,
+          audience and provisions up front.
+        </div>
+      )}
+
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">Scope</h2>
+        <p className="text-gray-700">{requirements.scope || 'Not specified'}</p>
+      </div>
+
+      <RequirementList title="Target Audience" items={requirements.target_audience} />
+
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-gray-900">Key Provisions</h2>
+          {trace.length > 0 && policyData && (
+            <span className="text-sm text-gray-600">
+              {covered} of {trace.length} in draft
+            </span>
+          )}
+        </div>
+        {trace.length > 0 ? (
+          <ul className="space-y-2">
+            {trace.map((item, idx) => {
+              const style = COVERAGE_STYLES[item.coverage]
+              const Icon = style.icon
+              return (
+                <li key={idx} className="flex items-start justify-between gap-3 border border-gray-200 rounded-lg p-3">
+                  <span className="text-gray-700">{item.provision}</span>
+                  {policyData && (
+                    <div className="flex flex-col items-end gap-1 shrink-0">
+                      <Badge className={cn("text-xs", style.className)}>
+                        <Icon className="w-3 h-3 mr-1" />
+                        {style.label}
+                      </Badge>
+                      {item.section && (
+                        <span className="text-xs text-gray-500">{getSectionTitle(item.section)}</span>
+                      )}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">None specified</p>
+        )}
+      </div>
+
+      <RequirementList title="Exceptions" items={requirements.exceptions} />
+
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">Enforcement Mechanisms</h2>
+        <div className="space-y-2 text-gray-700">
+          <p><span className="font-medium">Monitoring:</span> {enforcement.monitoring || 'Not specified'}</p>
+          <p><span className="font-medium">Violations process:</span> {enforcement.violations_process || 'Not specified'}</p>
+          {enforcement.consequences.length > 0 && (
+            <div>
+              <p className="font-medium">Consequences:</p>
+              <ul className="list-disc list-inside ml-2">
+                {enforcement.consequences.map((consequence, idx) => (
+                  <li key={idx}>{consequence}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <RequirementList title="Additional Requirements" items={requirements.additional_requirements} />
+    </div>
+  )
+}
+
+export default PolicyRequirementsView
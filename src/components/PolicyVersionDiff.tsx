@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { ArrowRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { diffPolicyDocuments, type ChangeType, type SectionDiff } from '@/lib/policy-diff'
+import type { PolicyVersion } from '@/types/policy'
+
+const changeBadgeClass: Record<ChangeType, string> = {
+  added: 'bg-green-100 text-green-800 hover:bg-green-100',
+  removed: 'bg-red-100 text-red-800 hover:bg-red-100',
+  changed: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100',
+  unchanged: 'bg-gray-100 text-gray-600 hover:bg-gray-100'
+}
+
+function ChangeBadge({ type }: { type: ChangeType }) {
+  return <Badge className={cn('text-xs', changeBadgeClass[type])}>{type.toUpperCase()}</Badge>
+}
+
+// Component: Section-by-section diff of two policy documents
+export function PolicySectionDiffList({
+  sections,
+  showUnchanged = false
+}: {
+  sections: SectionDiff[]
+  showUnchanged?: boolean
+}) {
+  const visible = showUnchanged ? sections : sections.filter(s => s.type !== 'unchanged')
+
+  if (visible.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No differences between these versions</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {visible.map(section => (
+        <div key={section.key}>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-gray-900">{section.title}</h3>
+            <ChangeBadge type={section.type} />
+          </div>
+          <div className="space-y-3">
+            {section.blocks
+              .filter(block => showUnchanged || block.type !== 'unchanged')
+              .map((block, idx) => (
+                <div key={idx} className="border rounded-lg p-3">
+                  {block.label && (
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="font-medium text-sm text-gray-900">{block.label}</h4>
+                      <ChangeBadge type={block.type} />
+                    </div>
+                  )}
+                  {block.before !== block.after && (
+                    <div className="space-y-1 text-sm">
+                      {block.before && (
+                        <p className="bg-red-50 text-red-800 line-through rounded px-2 py-1">{block.before}</p>
+                      )}
+                      {block.after && (
+                        <p className="bg-green-50 text-green-800 rounded px-2 py-1">{block.after}</p>
+                      )}
+                    </div>
+                  )}
+                  {block.items && block.items.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {block.items.map((item, itemIdx) => (
+                        <li
+                          key={itemIdx}
+                          className={cn(
+                            'rounded px-2 py-0.5',
+                            item.type === 'added' && 'bg-green-50 text-green-800',
+                            item.type === 'removed' && 'bg-red-50 text-red-800 line-through',
+                            item.type === 'unchanged' && 'text-gray-600'
+                          )}
+                        >
+                          {item.type === 'added' ? '+ ' : item.type === 'removed' ? '- ' : '  '}
+                          {item.text}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Component: Version comparison dialog
+export function PolicyVersionDiff({
+  versions,
+  open,
+  onOpenChange
+}: {
+  versions: PolicyVersion[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const latest = versions[versions.length - 1]?.version
+  const [fromVersion, setFromVersion] = useState<number | undefined>(undefined)
+  const [toVersion, setToVersion] = useState<number | undefined>(undefined)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setToVersion(latest)
+      setFromVersion(versions.length > 1 ? versions[versions.length - 2].version : latest)
+    }
+  }, [open, latest, versions])
+
+  const from = versions.find(v => v.version === fromVersion)
+  const to = versions.find(v => v.version === toVersion)
+
+  const sections = useMemo(() => {
+    if (!from || !to) return []
+    return diffPolicyDocuments(from.policy.policy_document, to.policy.policy_document)
+  }, [from, to])
+
+  const renderSelect = (value: number | undefined, onChange: (v: number) => void) => (
+    <Select value={value?.toString()} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-40">
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(v => (
+          <SelectItem key={v.version} value={v.version.toString()}>
+            v{v.version} · {v.created.toLocaleDateString()}
+            {v.source === 'human' && ' · edited'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            Section-by-section changes between two drafts of this policy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          {renderSelect(fromVersion, setFromVersion)}
+          <ArrowRight className="w-4 h-4 text-gray-400" />
+          {renderSelect(toVersion, setToVersion)}
+          <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+            Show unchanged
+          </label>
+        </div>
+
+        <ScrollArea className="h-[60vh] pr-3">
+          {from && to ? (
+            <PolicySectionDiffList sections={sections} showUnchanged={showUnchanged} />
+          ) : (
+            <p className="text-sm text-gray-500 py-4 text-center">Select two versions to compare</p>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PolicyVersionDiff
@@ -0,0 +1,119 @@
+import { useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog'
+import { Check, X } from 'lucide-react'
+import { collectChangedPaths, diffPolicyDocuments } from '@/lib/policy-diff'
+import { PolicySectionDiffList } from '@/components/PolicyVersionDiff'
+import type { PolicyResult, RemediationRecommendation } from '@/types/policy'
+
+const valueAt = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source)
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '' : typeof value === 'string' ? value : JSON.stringify(value)
+
+const formatPath = (path: string) => path.replace(/_/g, ' ').replace(/\./g, ' › ')
+
+export interface RemediationProposal {
+  recommendation: RemediationRecommendation
+  policy: PolicyResult
+}
+
+// Component: Review a drafting agent proposal for a compliance recommendation
+export function RemediationProposalDialog({
+  proposal,
+  currentPolicy,
+  onAccept,
+  onReject
+}: {
+  proposal: RemediationProposal | null
+  currentPolicy: PolicyResult | null
+  onAccept: (policy: PolicyResult) => void
+  onReject: () => void
+}) {
+  const sections = useMemo(() => {
+    if (!proposal || !currentPolicy) return []
+    return diffPolicyDocuments(currentPolicy.policy_document, proposal.policy.policy_document)
+  }, [proposal, currentPolicy])
+
+  // Every field the proposal changes, so nothing is applied unseen
+  const changedPaths = useMemo(() => {
+    if (!proposal || !currentPolicy) return []
+    return collectChangedPaths(currentPolicy, proposal.policy)
+  }, [proposal, currentPolicy])
+
+  // Changes outside the document body (title, effective date, review cycle, ...)
+  const detailChanges = changedPaths.filter(path => path !== 'policy_document' && !path.startsWith('policy_document.'))
+
+  const hasChanges = changedPaths.length > 0
+
+  return (
+    <Dialog open={!!proposal} onOpenChange={(open) => { if (!open) onReject() }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Proposed Change</DialogTitle>
+          <DialogDescription>
+            {proposal?.recommendation.issue}
+          </DialogDescription>
+        </DialogHeader>
+
+        {proposal && (
+          <p className="text-sm text-gray-700 bg-blue-50 border border-blue-200 rounded-lg p-3">
+            {proposal.recommendation.recommendation}
+          </p>
+        )}
+
+        <ScrollArea className="h-[50vh] pr-3">
+          {detailChanges.length > 0 && (
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-900 mb-2">Policy Details</h3>
+              <div className="space-y-3">
+                {detailChanges.map(path => {
+                  const before = formatValue(valueAt(currentPolicy, path))
+                  const after = formatValue(valueAt(proposal?.policy, path))
+                  return (
+                    <div key={path} className="border rounded-lg p-3">
+                      <h4 className="font-medium text-sm text-gray-900 mb-2 capitalize">{formatPath(path)}</h4>
+                      <div className="space-y-1 text-sm">
+                        {before && <p className="bg-red-50 text-red-800 line-through rounded px-2 py-1">{before}</p>}
+                        {after && <p className="bg-green-50 text-green-800 rounded px-2 py-1">{after}</p>}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+          {(detailChanges.length === 0 || changedPaths.length > detailChanges.length) && (
+            <PolicySectionDiffList sections={sections} />
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onReject}>
+            <X className="w-4 h-4 mr-2" />
+            Reject
+          </Button>
+          <Button
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+            disabled={!hasChanges}
+            onClick={() => proposal && onAccept(proposal.policy)}
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Accept Change
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RemediationProposalDialog
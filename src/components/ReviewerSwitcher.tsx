@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
+import { Check, Plus, Trash2, UserCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+
+// Component: Pick which named reviewer agent requests are sent as
+export function ReviewerSwitcher({ disabled = false }: { disabled?: boolean }) {
+  const { currentUser, users, switchUser, addUser, removeUser } = useCurrentUser()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+
+  const handleAdd = () => {
+    if (!name.trim()) return
+    const user = addUser(name, email)
+    switchUser(user.id)
+    setName('')
+    setEmail('')
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-xs text-gray-600"
+          disabled={disabled}
+          title="Switch reviewer"
+        >
+          <UserCircle className="w-3 h-3 mr-1" />
+          {currentUser.name}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-3">
+        <p className="text-xs font-medium text-gray-500 mb-2">Reviewer</p>
+        <div className="space-y-1 mb-3">
+          {users.map(user => (
+            <div
+              key={user.id}
+              className={cn(
+                "flex items-center gap-2 rounded-md px-2 py-1.5",
+                user.id === currentUser.id ? "bg-blue-50" : "hover:bg-gray-50"
+              )}
+            >
+              <button
+                className="flex-1 min-w-0 text-left"
+                onClick={() => {
+                  switchUser(user.id)
+                  setOpen(false)
+                }}
+              >
+                <span className="block text-sm text-gray-900 truncate">{user.name}</span>
+                {user.email && <span className="block text-xs text-gray-500 truncate">{user.email}</span>}
+              </button>
+              {user.id === currentUser.id ? (
+                <Check className="w-4 h-4 text-blue-600 shrink-0" />
+              ) : (
+                <button
+                  className="text-gray-400 hover:text-red-600"
+                  onClick={() => removeUser(user.id)}
+                  title="Remove reviewer"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2 border-t border-gray-200 pt-3">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Reviewer name"
+            className="h-8 text-sm"
+          />
+          <Input
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email (optional)"
+            type="email"
+            className="h-8 text-sm"
+          />
+          <Button size="sm" variant="outline" className="w-full" disabled={!name.trim()} onClick={handleAdd}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add reviewer
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default ReviewerSwitcher
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
+import { RefreshCw, Loader2 } from 'lucide-react'
+
+// Component: "Regenerate this section" action with optional reviewer instructions
+export function SectionRegenerateButton({
+  sectionTitle,
+  regenerating,
+  disabled,
+  onRegenerate
+}: {
+  sectionTitle: string
+  regenerating: boolean
+  disabled?: boolean
+  onRegenerate: (instructions: string) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [instructions, setInstructions] = useState('')
+
+  const handleSubmit = () => {
+    onRegenerate(instructions)
+    setInstructions('')
+    setOpen(false)
+  }
+
+  if (regenerating) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-blue-600">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Regenerating...
+      </span>
+    )
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-gray-500 hover:text-blue-600"
+          disabled={disabled}
+          title={`Regenerate ${sectionTitle}`}
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Regenerate
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <p className="text-sm font-medium text-gray-900 mb-2">Regenerate {sectionTitle}</p>
+        <Textarea
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder={'Optional: what should change? e.g. "Mention contractors explicitly"'}
+          className="min-h-[80px] text-sm"
+        />
+        <div className="flex justify-end mt-2">
+          <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white" onClick={handleSubmit}>
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Regenerate
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default SectionRegenerateButton
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+import { CheckCircle, Circle, Loader2, XCircle, Wrench } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { StageStatus, ToolCallStatus, WorkflowTimeline as Timeline } from '@/lib/workflow-timeline'
+import type { RetryState } from '@/lib/retry-policy'
+
+const STALL_AFTER_SECONDS = 20
+
+const formatSeconds = (ms: number) => `${Math.max(0, Math.round(ms / 1000))}s`
+
+function StageIcon({ status }: { status: StageStatus }) {
+  switch (status) {
+    case 'active':
+      return <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />
+    case 'completed':
+      return <CheckCircle className="w-4 h-4 text-green-600" />
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-600" />
+    default:
+      return <Circle className="w-4 h-4 text-gray-300" />
+  }
+}
+
+const toolStatusClass: Record<ToolCallStatus, string> = {
+  running: 'text-blue-600',
+  completed: 'text-gray-500',
+  failed: 'text-red-600'
+}
+
+// Component: Live progress of the orchestrator's sub-agents and tool calls
+export function WorkflowTimeline({
+  timeline,
+  retry
+}: {
+  timeline: Timeline
+  retry?: RetryState | null
+}) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick while the run is in progress so durations stay current
+  useEffect(() => {
+    if (timeline.finished) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [timeline.finished])
+
+  const idleSeconds = Math.round((now - timeline.last_event.getTime()) / 1000)
+  const stalled = !timeline.finished && idleSeconds >= STALL_AFTER_SECONDS
+
+  return (
+    <div className="bg-gray-100 rounded-lg px-4 py-3 w-72">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">Generating policy</span>
+        <span className="text-xs text-gray-500">
+          {formatSeconds((timeline.finished?.getTime() || now) - timeline.started.getTime())}
+        </span>
+      </div>
+
+      <ol className="space-y-2">
+        {timeline.stages.map(stage => (
+          <li key={stage.key}>
+            <div className="flex items-center gap-2">
+              <StageIcon status={stage.status} />
+              <span className={cn(
+                "text-sm flex-1",
+                stage.status === 'pending' ? 'text-gray-400' : 'text-gray-800',
+                stage.status === 'active' && 'font-medium'
+              )}>
+                {stage.label}
+              </span>
+              {stage.started && (
+                <span className="text-xs text-gray-500">
+                  {formatSeconds((stage.finished?.getTime() || now) - stage.started.getTime())}
+                </span>
+              )}
+            </div>
+            {stage.tool_calls.length > 0 && (
+              <ul className="ml-6 mt-1 space-y-0.5">
+                {stage.tool_calls.map(call => (
+                  <li key={call.id} className={cn("flex items-center gap-1 text-xs", toolStatusClass[call.status])}>
+                    {call.status === 'running'
+                      ? <Loader2 className="w-3 h-3 animate-spin" />
+                      : <Wrench className="w-3 h-3" />}
+                    {call.tool_name}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {retry && (
+        <p className="text-xs text-amber-700 mt-2" title={retry.reason}>
+          Retrying ({retry.attempt}/{retry.max_attempts})...
+        </p>
+      )}
+
+      {stalled && !retry && (
+        <p className="text-xs text-amber-700 mt-2">No updates for {idleSeconds}s</p>
+      )}
+    </div>
+  )
+}
+
+export default WorkflowTimeline
@@ -10,19 +10,26 @@
  *
  * // response is NormalizedAgentResponse:
  * // { status: 'success', result: {...}, message?: string }
+ *
+ * // retry is set while a failed attempt is retried:
+ * // { attempt: 2, max_attempts: 3, delay_ms: 1200, reason: 'API returned status 502' }
  * ```
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
 import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/utils/aiAgent'
+import { getCurrentUserId } from '@/lib/user-identity'
+import { getAppConfig, getAgentEndpoint } from '@/lib/app-config'
+import type { RetryPolicy, RetryState } from '@/lib/retry-policy'
+import type { CacheOptions } from '@/lib/response-cache'
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface ErrorDetails {
-  type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
+  type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'cancelled' | 'timeout' | 'unknown'
   message: string
   stack?: string
   componentStack?: string
@@ -35,6 +42,8 @@ interface ErrorDetails {
 
 interface UseAgentOptions {
   agentId?: string
+  /** Default user for every call (falls back to the current user) */
+  userId?: string
   onError?: (error: ErrorDetails) => void
   showErrorModal?: boolean
 }
@@ -44,6 +53,16 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  /** Abort the call from outside the hook (cancel() also works) */
+  signal?: AbortSignal
+  /** Override the default request timeout */
+  timeoutMs?: number
+  /** Override the default retry policy, or `false` for a single attempt */
+  retry?: Partial<RetryPolicy> | false
+  /** Answer identical calls from the response cache (see @/lib/response-cache) */
+  cache?: boolean | CacheOptions
+  /** Skip the cache lookup; the fresh response is still stored */
+  bypassCache?: boolean
 }
 
 interface UseAgentResult {
@@ -81,7 +100,7 @@ const createErrorDetails = (
   type,
   message,
   raw_response,
-  endpoint: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat',
+  endpoint: getAgentEndpoint('chat'),
   timestamp: new Date().toISOString(),
   userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
   url: typeof window !== 'undefined' ? window.location.href : 'unknown',
@@ -122,10 +141,14 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  /** Set while waiting to retry a failed attempt, e.g. to show "retrying (2/3)" */
+  const [retry, setRetry] = useState<RetryState | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
-    const finalAgentId = agentId || options.agentId || import.meta.env.VITE_AGENT_ID
+    const { message, agentId, userId, sessionId, signal, timeoutMs, retry: retryPolicy, cache, bypassCache } = callOptions
+    const finalAgentId = agentId || options.agentId || getAppConfig().defaultAgentId
+    const finalUserId = userId || options.userId || getCurrentUserId()
 
     if (!finalAgentId) {
       const err = createErrorDetails('api_error', 'No agent_id provided')
@@ -139,12 +162,28 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
     setLoading(true)
     setError(null)
+    setRetry(null)
+
+    // Only one call in flight per hook; cancel() aborts it
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    // Forward the caller's signal; one that is already aborted cancels right away
+    const forwardAbort = () => controller.abort()
+    if (signal?.aborted) controller.abort()
+    else signal?.addEventListener('abort', forwardAbort, { once: true })
 
     try {
       // Use the centralized callAIAgent which handles normalization
       const result = await callAIAgent(message, finalAgentId, {
-        user_id: userId,
+        user_id: finalUserId,
         session_id: sessionId,
+        signal: controller.signal,
+        timeout_ms: timeoutMs,
+        retry: retryPolicy,
+        onRetry: setRetry,
+        cache,
+        bypass_cache: bypassCache,
       })
 
       setLastResult(result)
@@ -152,14 +191,14 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
       if (!result.success) {
         const errorDetails = createErrorDetails(
-          'api_error',
+          result.abort_reason || 'api_error',
           result.error || 'Agent call failed',
           result.raw_response
         )
         setError(errorDetails)
 
-        // Notify parent if in iframe
-        if (isInIframe()) {
+        // Notify parent if in iframe (a user cancelling is not an error worth fixing)
+        if (isInIframe() && errorDetails.type !== 'cancelled') {
           sendErrorToParent(errorDetails)
           if (globalErrorCallback && options.showErrorModal !== false) {
             globalErrorCallback(errorDetails)
@@ -231,10 +270,17 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       }
 
     } finally {
+      signal?.removeEventListener('abort', forwardAbort)
+      if (controllerRef.current === controller) controllerRef.current = null
+      setRetry(null)
       setLoading(false)
     }
   }, [options])
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
   const requestFix = useCallback(() => {
     if (error) {
       requestFixFromParent(error)
@@ -251,8 +297,10 @@ export const useAgent = (options: UseAgentOptions = {}) => {
     error,
     response,
     lastResult,
+    retry,
     requestFix,
     clearError,
+    cancel,
   }
 }
 
@@ -266,22 +314,24 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 export const callAgentAPI = async (
   message: string,
   agentId: string,
-  options?: { userId?: string; sessionId?: string }
+  options?: { userId?: string; sessionId?: string; signal?: AbortSignal; timeoutMs?: number }
 ): Promise<UseAgentResult> => {
   try {
     const result = await callAIAgent(message, agentId, {
-      user_id: options?.userId,
+      user_id: options?.userId || getCurrentUserId(),
       session_id: options?.sessionId,
+      signal: options?.signal,
+      timeout_ms: options?.timeoutMs,
     })
 
     if (!result.success || result.response.status === 'error') {
       const errorDetails = createErrorDetails(
-        'api_error',
+        result.abort_reason || 'api_error',
         result.error || result.response.message || 'Agent call failed',
         result.raw_response
       )
 
-      if (isInIframe()) {
+      if (isInIframe() && errorDetails.type !== 'cancelled') {
         sendErrorToParent(errorDetails)
         if (globalErrorCallback) {
           globalErrorCallback(errorDetails)
@@ -0,0 +1,45 @@
+/**
+ * useAgentTelemetry Hook
+ *
+ * The rolling agent call log from agent-telemetry, kept current as calls
+ * finish (in this tab or another), with its latency stats.
+ *
+ * @example
+ * ```tsx
+ * const { records, agentStats, subAgentStats, totals, clear } = useAgentTelemetry()
+ * ```
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import {
+  getTelemetryRecords,
+  getLatencyStats,
+  getSubAgentLatencyStats,
+  getTelemetryTotals,
+  clearTelemetry,
+  TELEMETRY_UPDATED_EVENT
+} from '@/lib/agent-telemetry'
+
+export const useAgentTelemetry = () => {
+  const [records, setRecords] = useState(() => getTelemetryRecords())
+
+  useEffect(() => {
+    const sync = () => setRecords(getTelemetryRecords())
+    window.addEventListener(TELEMETRY_UPDATED_EVENT, sync)
+    return () => window.removeEventListener(TELEMETRY_UPDATED_EVENT, sync)
+  }, [])
+
+  const agentStats = useMemo(() => getLatencyStats(records), [records])
+  const subAgentStats = useMemo(() => getSubAgentLatencyStats(records), [records])
+  const totals = useMemo(() => getTelemetryTotals(records), [records])
+
+  return {
+    records,
+    agentStats,
+    subAgentStats,
+    totals,
+    clear: clearTelemetry
+  }
+}
+
+export default useAgentTelemetry
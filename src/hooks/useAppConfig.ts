@@ -0,0 +1,32 @@
+/**
+ * useAppConfig Hook
+ *
+ * The current app config (endpoints, API key, agent IDs). Re-renders when
+ * configureApp() or AppConfigProvider changes it.
+ *
+ * @example
+ * ```tsx
+ * const config = useAppConfig()
+ * const agentId = getAgentId(AGENTS.POLICY_CREATION_MANAGER, config)
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import { getAppConfig, APP_CONFIG_CHANGED_EVENT } from '@/lib/app-config'
+import type { AppConfig } from '@/types'
+
+export const useAppConfig = () => {
+  const [config, setConfig] = useState<AppConfig>(() => getAppConfig())
+
+  useEffect(() => {
+    const sync = () => setConfig(getAppConfig())
+    // Catch a change made between the first render and this effect
+    sync()
+    window.addEventListener(APP_CONFIG_CHANGED_EVENT, sync)
+    return () => window.removeEventListener(APP_CONFIG_CHANGED_EVENT, sync)
+  }, [])
+
+  return config
+}
+
+export default useAppConfig
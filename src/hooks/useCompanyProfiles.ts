@@ -0,0 +1,88 @@
+/**
+ * useCompanyProfiles Hook
+ *
+ * Manages saved company profiles and the one currently attached to agent
+ * requests. Changes are persisted to localStorage and shared between every
+ * mounted instance of the hook.
+ *
+ * @example
+ * ```tsx
+ * const { activeProfile, profiles, setActiveProfile } = useCompanyProfiles()
+ * const message = withCompanyContext(input, activeProfile)
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  loadProfiles,
+  saveProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId
+} from '@/lib/company-profile'
+import type { CompanyProfile } from '@/types/policy'
+
+const PROFILES_CHANGED_EVENT = 'company-profiles-changed'
+
+const notifyChange = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(PROFILES_CHANGED_EVENT))
+  }
+}
+
+export const useCompanyProfiles = () => {
+  const [profiles, setProfiles] = useState<CompanyProfile[]>(() => loadProfiles())
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(() => loadActiveProfileId())
+
+  // Keep every instance (and other tabs) in sync with storage
+  useEffect(() => {
+    const sync = () => {
+      setProfiles(loadProfiles())
+      setActiveProfileId(loadActiveProfileId())
+    }
+    window.addEventListener(PROFILES_CHANGED_EVENT, sync)
+    window.addEventListener('storage', sync)
+    return () => {
+      window.removeEventListener(PROFILES_CHANGED_EVENT, sync)
+      window.removeEventListener('storage', sync)
+    }
+  }, [])
+
+  const activeProfile = useMemo(
+    () => profiles.find(p => p.id === activeProfileId) || null,
+    [profiles, activeProfileId]
+  )
+
+  const setActiveProfile = useCallback((id: string | null) => {
+    saveActiveProfileId(id)
+    notifyChange()
+  }, [])
+
+  const saveProfile = useCallback((profile: CompanyProfile) => {
+    const current = loadProfiles()
+    const saved = { ...profile, updated: new Date().toISOString() }
+    const exists = current.some(p => p.id === profile.id)
+    saveProfiles(exists ? current.map(p => (p.id === profile.id ? saved : p)) : [...current, saved])
+
+    // The first profile becomes active automatically
+    if (!loadActiveProfileId()) saveActiveProfileId(profile.id)
+
+    notifyChange()
+    return saved
+  }, [])
+
+  const removeProfile = useCallback((id: string) => {
+    saveProfiles(loadProfiles().filter(p => p.id !== id))
+    if (loadActiveProfileId() === id) saveActiveProfileId(null)
+    notifyChange()
+  }, [])
+
+  return {
+    profiles,
+    activeProfile,
+    setActiveProfile,
+    saveProfile,
+    removeProfile
+  }
+}
+
+export default useCompanyProfiles
@@ -0,0 +1,45 @@
+/**
+ * useConversationSession Hook
+ *
+ * Holds the agent session ID for the current conversation so follow-up
+ * turns ("make the probation period 60 days") reach the agent with the
+ * context of earlier ones. Each policy keeps its own session.
+ *
+ * @example
+ * ```tsx
+ * const { sessionId, startNewSession, restoreSession } = useConversationSession(AGENT_ID)
+ * await callAIAgent(message, AGENT_ID, { session_id: sessionId })
+ *
+ * // Switching to a saved policy picks up its conversation
+ * restoreSession(record.session_id)
+ * ```
+ */
+
+import { useState, useCallback } from 'react'
+import { createSessionId } from '@/utils/aiAgent'
+
+export const useConversationSession = (agentId: string) => {
+  const [sessionId, setSessionId] = useState(() => createSessionId(agentId))
+
+  // Forget the agent's context and start over
+  const startNewSession = useCallback(() => {
+    const id = createSessionId(agentId)
+    setSessionId(id)
+    return id
+  }, [agentId])
+
+  // Resume a saved session, or start a new one if there is none
+  const restoreSession = useCallback((id?: string | null) => {
+    const next = id || createSessionId(agentId)
+    setSessionId(next)
+    return next
+  }, [agentId])
+
+  return {
+    sessionId,
+    startNewSession,
+    restoreSession
+  }
+}
+
+export default useConversationSession
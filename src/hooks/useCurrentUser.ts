@@ -0,0 +1,53 @@
+/**
+ * useCurrentUser Hook
+ *
+ * The reviewer agent requests are sent as, plus the other named reviewers
+ * saved in this browser. Every mounted instance (and other tabs) stays in
+ * sync with storage.
+ *
+ * @example
+ * ```tsx
+ * const { currentUser, users, switchUser, addUser } = useCurrentUser()
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  getCurrentUser,
+  listUsers,
+  addUser,
+  updateUser,
+  switchUser,
+  removeUser,
+  USER_CHANGED_EVENT
+} from '@/lib/user-identity'
+import type { User } from '@/types'
+
+export const useCurrentUser = () => {
+  const [currentUser, setCurrentUser] = useState<User>(() => getCurrentUser())
+  const [users, setUsers] = useState<User[]>(() => listUsers())
+
+  useEffect(() => {
+    const sync = () => {
+      setCurrentUser(getCurrentUser())
+      setUsers(listUsers())
+    }
+    window.addEventListener(USER_CHANGED_EVENT, sync)
+    window.addEventListener('storage', sync)
+    return () => {
+      window.removeEventListener(USER_CHANGED_EVENT, sync)
+      window.removeEventListener('storage', sync)
+    }
+  }, [])
+
+  return {
+    currentUser,
+    users,
+    switchUser,
+    addUser,
+    updateUser,
+    removeUser
+  }
+}
+
+export default useCurrentUser
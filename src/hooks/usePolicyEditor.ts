@@ -0,0 +1,104 @@
+/**
+ * usePolicyEditor Hook
+ *
+ * Holds an editable copy of a PolicyResult with undo/redo history.
+ * Consecutive keystrokes in the same field are coalesced into a single
+ * history entry so undo steps back a whole edit rather than one character.
+ *
+ * @example
+ * ```tsx
+ * const editor = usePolicyEditor(policyData)
+ * editor.update(draft => ({ ...draft, policy_title: 'New title' }), 'policy_title')
+ * editor.undo()
+ * ```
+ */
+
+import { useReducer, useCallback } from 'react'
+import type { PolicyResult } from '@/types/policy'
+
+const MAX_HISTORY = 100
+const COALESCE_WINDOW_MS = 1000
+
+interface EditorState {
+  past: PolicyResult[]
+  present: PolicyResult | null
+  future: PolicyResult[]
+  lastKey: string | null
+  lastAt: number
+}
+
+type EditorAction =
+  | { type: 'update'; next: PolicyResult; key?: string; at: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; policy: PolicyResult | null }
+
+function editorReducer(state: EditorState, action: EditorAction): EditorState {
+  switch (action.type) {
+    case 'update': {
+      if (!state.present) return state
+      const coalesce = action.key && action.key === state.lastKey && action.at - state.lastAt < COALESCE_WINDOW_MS
+      return {
+        past: coalesce ? state.past : [...state.past, state.present].slice(-MAX_HISTORY),
+        present: action.next,
+        future: [],
+        lastKey: action.key || null,
+        lastAt: action.at,
+      }
+    }
+    case 'undo': {
+      if (state.past.length === 0 || !state.present) return state
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastKey: null,
+        lastAt: 0,
+      }
+    }
+    case 'redo': {
+      if (state.future.length === 0 || !state.present) return state
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastKey: null,
+        lastAt: 0,
+      }
+    }
+    case 'reset':
+      return { past: [], present: action.policy, future: [], lastKey: null, lastAt: 0 }
+  }
+}
+
+export const usePolicyEditor = (initial: PolicyResult | null) => {
+  const [state, dispatch] = useReducer(editorReducer, {
+    past: [],
+    present: initial,
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+  })
+
+  const update = useCallback((mutate: (draft: PolicyResult) => PolicyResult, key?: string) => {
+    if (!state.present) return
+    dispatch({ type: 'update', next: mutate(state.present), key, at: Date.now() })
+  }, [state.present])
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), [])
+  const redo = useCallback(() => dispatch({ type: 'redo' }), [])
+  const reset = useCallback((policy: PolicyResult | null) => dispatch({ type: 'reset', policy }), [])
+
+  return {
+    draft: state.present,
+    update,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    isDirty: state.past.length > 0,
+  }
+}
+
+export default usePolicyEditor
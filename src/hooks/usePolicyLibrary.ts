@@ -0,0 +1,73 @@
+/**
+ * usePolicyLibrary Hook
+ *
+ * Loads saved policies on mount and keeps the list in sync as policies
+ * are saved or removed.
+ *
+ * @example
+ * ```tsx
+ * const { policies, savePolicy, getPolicy } = usePolicyLibrary()
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { createPolicyRepository, type PolicyRepository } from '@/lib/policy-store'
+import type { PolicyRecord } from '@/types/policy'
+
+const defaultRepository = createPolicyRepository()
+
+export const usePolicyLibrary = (repository: PolicyRepository = defaultRepository) => {
+  const [policies, setPolicies] = useState<PolicyRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setPolicies(await repository.list())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load policies')
+    } finally {
+      setLoading(false)
+    }
+  }, [repository])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  /** Resolves false when the policy could not be stored (see `error`) */
+  const savePolicy = useCallback(async (record: PolicyRecord): Promise<boolean> => {
+    try {
+      await repository.save(record)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save policy')
+      return false
+    }
+    await refresh()
+    return true
+  }, [repository, refresh])
+
+  const getPolicy = useCallback((id: string) => repository.get(id), [repository])
+
+  const removePolicy = useCallback(async (id: string) => {
+    try {
+      await repository.remove(id)
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete policy')
+    }
+  }, [repository, refresh])
+
+  return {
+    policies,
+    loading,
+    error,
+    savePolicy,
+    getPolicy,
+    removePolicy,
+    refresh,
+  }
+}
+
+export default usePolicyLibrary
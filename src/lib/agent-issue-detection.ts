@@ -1,17 +1,23 @@
 /**
- * Global Fetch Interceptor for Lyzr Agent API calls
+ * Agent Issue Detection
  *
- * Detects parse failures and shows modal for user to click "Fix with AI"
- * Works even when AI-generated code uses raw fetch() instead of useAgent hook
+ * Agent middleware that detects API and parse failures and shows a modal for
+ * the user to click "Fix with AI". Registered by AgentInterceptorProvider.
+ *
+ * @example
+ * ```typescript
+ * const unregister = registerAgentMiddleware(agentIssueMiddleware)
+ * onAgentIssue((issue) => setPendingError(issue))
+ * ```
  */
 
-// Lyzr Agent API endpoint to intercept
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
 import { isInIframe } from '@/components/ErrorBoundary'
+import { getAgentEndpoint } from '@/lib/app-config'
+import type { AgentMiddleware } from '@/lib/agent-middleware'
+import type { AIAgentResponse } from '@/utils/aiAgent'
 
 interface ErrorDetails {
-  type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
+  type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'cancelled' | 'timeout' | 'unknown'
   message: string
   stack?: string
   raw_response?: string
@@ -26,12 +32,6 @@ interface PendingError {
   fullResponse: any
 }
 
-// Store original fetch
-const originalFetch = typeof window !== 'undefined' ? window.fetch.bind(window) : null
-
-// Track if interceptor is installed
-let interceptorInstalled = false
-
 // Global state for pending error (to show in modal)
 let pendingError: PendingError | null = null
 let modalCallback: ((error: PendingError | null) => void) | null = null
@@ -40,7 +40,7 @@ let modalCallback: ((error: PendingError | null) => void) | null = null
  * Register a callback to be notified when an error is detected
  * The callback receives the error details, or null when cleared
  */
-export function onInterceptorError(callback: (error: PendingError | null) => void): void {
+export function onAgentIssue(callback: (error: PendingError | null) => void): void {
   modalCallback = callback
 }
 
@@ -84,17 +84,17 @@ export function sendFixRequestToParent(): void {
       },
       '*'
     )
-    console.log('[AgentInterceptor] Fix request sent to parent (user clicked)')
+    console.log('[AgentIssueDetection] Fix request sent to parent (user clicked)')
     clearPendingError()
   } catch (e) {
-    console.error('[AgentInterceptor] Failed to send fix request:', e)
+    console.error('[AgentIssueDetection] Failed to send fix request:', e)
   }
 }
 
 /**
  * Detect if a response has issues that need fixing
  */
-function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetails | null } {
+function detectResponseIssue(data: any, endpoint: string): { hasIssue: boolean; error: ErrorDetails | null } {
   // Case 1: API-level failure
   if (data.success === false && data.error) {
     return {
@@ -103,7 +103,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'api_error',
         message: data.error,
         raw_response: data.details || data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint,
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -119,7 +119,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'parse_error',
         message: 'JSON parsing failed but valid data exists in raw_response',
         raw_response: data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint,
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -139,7 +139,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
             type: 'parse_error',
             message: data.response.error,
             raw_response: data.raw_response,
-            endpoint: LYZR_API_URL,
+            endpoint,
             timestamp: new Date().toISOString(),
             userAgent: navigator.userAgent,
             url: window.location.href,
@@ -176,103 +176,79 @@ function setPendingError(error: ErrorDetails, fullResponse: any): void {
   }
 }
 
-/**
- * Intercepted fetch function
- */
-async function interceptedFetch(
-  input: RequestInfo | URL,
-  init?: RequestInit
-): Promise<Response> {
-  if (!originalFetch) {
-    throw new Error('Fetch not available')
+const parseBody = (text: string | undefined): any => {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
   }
+}
 
-  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
-
-  // Only intercept Lyzr Agent API calls
-  if (!url.includes('agent-prod.studio.lyzr.ai')) {
-    return originalFetch(input, init)
+/**
+ * Issues in a finished call: flags the backend sets in the response body, or
+ * a body the client could not parse even though it has content
+ */
+function detectCallIssue(response: AIAgentResponse, endpoint: string): ErrorDetails | null {
+  const data = parseBody(response.raw_response)
+  if (data && typeof data === 'object') {
+    const { hasIssue, error } = detectResponseIssue(data, endpoint)
+    if (hasIssue) return error
   }
 
-  console.log('[AgentInterceptor] Intercepting Lyzr Agent API call')
-
-  try {
-    const response = await originalFetch(input, init)
-
-    // Clone response so we can read it without consuming
-    const clonedResponse = response.clone()
-
-    // Try to detect issues in the response
-    try {
-      const data = await clonedResponse.json()
-
-      const { hasIssue, error } = detectResponseIssue(data)
-
-      if (hasIssue && error) {
-        console.warn('[AgentInterceptor] Detected response issue:', error.type)
-
-        // Store error and notify modal (don't auto-send to parent)
-        setPendingError(error, data)
-
-        // Still return the original response so UI can try to use it
-      }
-    } catch (jsonError) {
-      // Response isn't JSON - that's fine, just continue
-    }
-
-    return response
-
-  } catch (networkError) {
-    console.error('[AgentInterceptor] Network error:', networkError)
-
-    // Store network error for modal
-    const error: ErrorDetails = {
-      type: 'network_error',
-      message: networkError instanceof Error ? networkError.message : 'Network request failed',
-      endpoint: '/api/agent',
+  if (response.parse_strategy === 'failed' && (response.raw_response?.length || 0) > 20) {
+    return {
+      type: 'parse_error',
+      message: response.error || 'JSON parsing failed but the response has content',
+      raw_response: response.raw_response,
+      endpoint,
       timestamp: new Date().toISOString(),
       userAgent: navigator.userAgent,
       url: window.location.href,
     }
-
-    if (isInIframe()) {
-      setPendingError(error, null)
-    }
-
-    throw networkError
   }
-}
 
-/**
- * Install the global fetch interceptor
- * Call this once in your app (e.g., in layout.tsx or _app.tsx)
- */
-export function installAgentInterceptor(): void {
-  if (typeof window === 'undefined') return
-  if (interceptorInstalled) return
-  if (!originalFetch) return
-
-  window.fetch = interceptedFetch as typeof fetch
-  interceptorInstalled = true
-  console.log('[AgentInterceptor] Installed global fetch interceptor for Lyzr Agent API')
+  return null
 }
 
 /**
- * Uninstall the interceptor (restore original fetch)
+ * Raises the "Fix with AI" modal for agent calls with a problem in the response
  */
-export function uninstallAgentInterceptor(): void {
-  if (typeof window === 'undefined') return
-  if (!interceptorInstalled) return
-  if (!originalFetch) return
-
-  window.fetch = originalFetch
-  interceptorInstalled = false
-  console.log('[AgentInterceptor] Uninstalled fetch interceptor')
-}
+export const agentIssueMiddleware: AgentMiddleware = {
+  name: 'issue-detection',
+
+  afterResponse(response, ctx) {
+    const error = detectCallIssue(response, getAgentEndpoint(ctx.kind))
+    if (error) {
+      console.warn('[AgentIssueDetection] Detected response issue:', error.type)
+      setPendingError(error, parseBody(response.raw_response) ?? response)
+    }
+  },
+
+  onError(response, ctx) {
+    // Cancelled and timed-out requests are reported by the caller
+    if (response.abort_reason) return
+
+    const endpoint = getAgentEndpoint(ctx.kind)
+    if (response.raw_response) {
+      const error = detectCallIssue(response, endpoint)
+      if (error) {
+        console.warn('[AgentIssueDetection] Detected response issue:', error.type)
+        setPendingError(error, parseBody(response.raw_response) ?? response)
+      }
+      return
+    }
 
-/**
- * Check if interceptor is installed
- */
-export function isInterceptorInstalled(): boolean {
-  return interceptorInstalled
+    // No response at all: the request never reached the agent
+    if (isInIframe()) {
+      setPendingError({
+        type: 'network_error',
+        message: response.error || 'Network request failed',
+        endpoint,
+        timestamp: new Date().toISOString(),
+        userAgent: navigator.userAgent,
+        url: window.location.href,
+      }, null)
+    }
+  },
 }
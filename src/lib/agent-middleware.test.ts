@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { z } from 'zod'
+import {
+  runAgentPipeline,
+  registerAgentMiddleware,
+  unregisterAgentMiddleware,
+  getAgentMiddleware,
+  resetAgentMiddleware,
+  createHeadersMiddleware,
+  createRedactionMiddleware,
+  createValidationMiddleware,
+  type AgentCallContext,
+  type AgentMiddleware
+} from '@/lib/agent-middleware'
+import type { AIAgentResponse, CallAIAgentOptions } from '@/utils/aiAgent'
+
+const call = (options: CallAIAgentOptions = {}): AgentCallContext => ({
+  kind: 'chat',
+  agent_id: 'agent-1',
+  message: 'Draft a leave policy',
+  user_id: 'user-1',
+  session_id: 'session-1',
+  request_id: 'request-1',
+  headers: {},
+  options,
+  state: {},
+})
+
+const success = (result: Record<string, any> = {}): AIAgentResponse => ({
+  success: true,
+  response: { status: 'success', result },
+})
+
+const failure: AIAgentResponse = {
+  success: false,
+  response: { status: 'error', result: {}, message: 'Server error' },
+  error: 'Server error',
+}
+
+/** Middleware that records when each of its hooks runs */
+const recording = (name: string, log: string[]): AgentMiddleware => ({
+  name,
+  beforeRequest: () => { log.push(`${name}:before`) },
+  afterResponse: () => { log.push(`${name}:after`) },
+  onError: () => { log.push(`${name}:error`) },
+})
+
+afterEach(() => {
+  resetAgentMiddleware()
+  vi.restoreAllMocks()
+})
+
+describe('runAgentPipeline', () => {
+  it('runs beforeRequest in order and afterResponse in reverse, then per-call middleware innermost', async () => {
+    const log: string[] = []
+    registerAgentMiddleware(recording('a', log))
+    registerAgentMiddleware(recording('b', log))
+    await runAgentPipeline(call({ middleware: [recording('call', log)] }), async () => {
+      log.push('send')
+      return success()
+    })
+
+    expect(log).toEqual(['a:before', 'b:before', 'call:before', 'send', 'call:after', 'b:after', 'a:after'])
+  })
+
+  it('runs onError instead of afterResponse for failed calls', async () => {
+    const log: string[] = []
+    registerAgentMiddleware(recording('a', log))
+    await runAgentPipeline(call(), async () => failure)
+
+    expect(log).toEqual(['a:before', 'a:error'])
+  })
+
+  it('answers without sending when beforeRequest returns a response, unwinding only what ran', async () => {
+    const log: string[] = []
+    const send = vi.fn(async () => success())
+    registerAgentMiddleware(recording('outer', log))
+    registerAgentMiddleware({ name: 'answer', beforeRequest: () => success({ from: 'middleware' }) })
+    registerAgentMiddleware(recording('inner', log))
+    const response = await runAgentPipeline(call(), send)
+
+    expect(send).not.toHaveBeenCalled()
+    expect(response.response.result).toEqual({ from: 'middleware' })
+    expect(log).toEqual(['outer:before', 'outer:after'])
+  })
+
+  it('fails the call with the error of a hook that throws', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const send = vi.fn(async () => success())
+    registerAgentMiddleware({ name: 'broken', beforeRequest: () => { throw new Error('no token') } })
+    const response = await runAgentPipeline(call(), send)
+
+    expect(send).not.toHaveBeenCalled()
+    expect(response).toMatchObject({
+      success: false,
+      error: 'Middleware "broken" failed: no token',
+      agent_id: 'agent-1',
+      request_id: 'request-1',
+    })
+  })
+
+  it('replaces the response with a throwing afterResponse hook\'s error and keeps unwinding', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const log: string[] = []
+    registerAgentMiddleware(recording('outer', log))
+    registerAgentMiddleware({ name: 'broken', afterResponse: () => { throw new Error('bad result') } })
+    const response = await runAgentPipeline(call(), async () => success())
+
+    expect(response.error).toBe('Middleware "broken" failed: bad result')
+    expect(log).toEqual(['outer:before', 'outer:error'])
+  })
+})
+
+describe('middleware registry', () => {
+  it('starts with the response cache and unregisters by reference or name', () => {
+    const unregister = registerAgentMiddleware({ name: 'extra' })
+    registerAgentMiddleware({ name: 'named' })
+    expect(getAgentMiddleware().map(middleware => middleware.name)).toEqual(['response-cache', 'extra', 'named'])
+
+    unregister()
+    unregisterAgentMiddleware('named')
+    expect(getAgentMiddleware().map(middleware => middleware.name)).toEqual(['response-cache'])
+  })
+})
+
+describe('built-in middleware', () => {
+  it('adds headers and redacts the outgoing message', async () => {
+    const send = vi.fn(async (_ctx: AgentCallContext) => success())
+    await runAgentPipeline(call({
+      middleware: [
+        createHeadersMiddleware(ctx => ({ 'X-Agent': ctx.agent_id })),
+        createRedactionMiddleware(),
+      ],
+    }), send)
+    const sent = send.mock.calls[0][0]
+
+    expect(sent.headers).toEqual({ 'X-Agent': 'agent-1' })
+    expect(sent.message).toBe('Draft a leave policy')
+
+    await runAgentPipeline({ ...call({ middleware: [createRedactionMiddleware()] }), message: 'SSN 123-45-6789, mail jo@example.com' }, send)
+    expect(send.mock.calls[1][0].message).toBe('SSN [REDACTED SSN], mail [REDACTED EMAIL]')
+  })
+
+  it('attaches validation errors, and fails the call with reject', async () => {
+    const schemas = { 'agent-1': z.object({ overall_score: z.number() }) }
+    const send = async () => success({ overall_score: 'high' })
+
+    const flagged = await runAgentPipeline(call({ middleware: [createValidationMiddleware({ schemas })] }), send)
+    expect(flagged.success).toBe(true)
+    expect(flagged.validation_error.issues[0].path).toBe('overall_score')
+
+    const rejected = await runAgentPipeline(call({ middleware: [createValidationMiddleware({ schemas, reject: true })] }), send)
+    expect(rejected).toMatchObject({ success: false, error: expect.stringContaining('overall_score') })
+  })
+})
@@ -0,0 +1,265 @@
+/**
+ * Agent Middleware
+ *
+ * The request/response pipeline every callAIAgent and streamAIAgent call runs
+ * through. A middleware can change the outgoing call (message, headers) in
+ * `beforeRequest` or answer it without a request by returning a response,
+ * and can inspect or replace the result in `afterResponse` (successful calls)
+ * or `onError` (failed, cancelled or timed-out calls).
+ *
+ * `beforeRequest` hooks run in registration order; `afterResponse`/`onError`
+ * run in reverse, and only for middleware whose `beforeRequest` ran, so each
+ * one wraps everything registered after it. A hook that throws fails the call
+ * with its error instead of crashing it.
+ *
+ * Registered by default: response caching (response-cache.ts). The "Fix with
+ * AI" detection (agent-issue-detection.ts) is registered by
+ * AgentInterceptorProvider. Logging, extra headers, redaction and schema
+ * validation are available below.
+ *
+ * @example
+ * ```typescript
+ * const unregister = registerAgentMiddleware(createLoggingMiddleware())
+ * registerAgentMiddleware(createRedactionMiddleware())
+ *
+ * // Only for one call
+ * await callAIAgent(message, agentId, {
+ *   middleware: [createHeadersMiddleware({ Authorization: `Bearer ${token}` })]
+ * })
+ * ```
+ */
+
+import { findAgentById } from '@/lib/agent-registry'
+import { validateAgentResult, type ValidationError } from '@/lib/agent-schemas'
+import { responseCacheMiddleware } from '@/lib/response-cache'
+import type { ZodType } from 'zod'
+import type { AIAgentResponse, CallAIAgentOptions } from '@/utils/aiAgent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One agent call as it moves through the pipeline. `message` and `headers`
+ * are what will be sent; middleware may change them.
+ */
+export interface AgentCallContext {
+  kind: 'chat' | 'stream'
+  agent_id: string
+  message: string
+  user_id: string
+  session_id: string
+  request_id: string
+  headers: Record<string, string>
+  /** The options the caller passed */
+  options: Readonly<CallAIAgentOptions>
+  /** Scratch space shared by the hooks of one call, keyed by middleware name */
+  state: Record<string, unknown>
+}
+
+type HookResult = AIAgentResponse | void | undefined
+
+export interface AgentMiddleware {
+  /** Shown in warnings and used to unregister by name */
+  name: string
+  /** Return a response to answer the call without sending it */
+  beforeRequest?: (ctx: AgentCallContext) => HookResult | Promise<HookResult>
+  /** Successful calls; return a response to replace it */
+  afterResponse?: (response: AIAgentResponse, ctx: AgentCallContext) => HookResult | Promise<HookResult>
+  /** Failed calls; return a response to replace it (e.g. a fallback) */
+  onError?: (response: AIAgentResponse, ctx: AgentCallContext) => HookResult | Promise<HookResult>
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const DEFAULT_MIDDLEWARE: AgentMiddleware[] = [responseCacheMiddleware]
+
+let registered: AgentMiddleware[] = [...DEFAULT_MIDDLEWARE]
+
+/**
+ * Add a middleware for every later call (after those already registered).
+ * Returns a function that removes it again.
+ */
+export function registerAgentMiddleware(middleware: AgentMiddleware): () => void {
+  registered = [...registered, middleware]
+  return () => unregisterAgentMiddleware(middleware)
+}
+
+export function unregisterAgentMiddleware(middleware: AgentMiddleware | string): void {
+  registered = registered.filter(item =>
+    typeof middleware === 'string' ? item.name !== middleware : item !== middleware
+  )
+}
+
+export function getAgentMiddleware(): AgentMiddleware[] {
+  return [...registered]
+}
+
+/**
+ * Back to the default pipeline
+ */
+export function resetAgentMiddleware(): void {
+  registered = [...DEFAULT_MIDDLEWARE]
+}
+
+// =============================================================================
+// Pipeline
+// =============================================================================
+
+function failedResponse(middleware: AgentMiddleware, error: unknown, ctx: AgentCallContext): AIAgentResponse {
+  const errorMsg = `Middleware "${middleware.name}" failed: ${error instanceof Error ? error.message : String(error)}`
+  console.warn('[AgentMiddleware]', errorMsg)
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    details: error instanceof Error ? error.stack : undefined,
+    agent_id: ctx.agent_id,
+    request_id: ctx.request_id,
+  }
+}
+
+/**
+ * Run a call through the registered middleware plus `ctx.options.middleware`;
+ * `send` performs the request with the final context
+ */
+export async function runAgentPipeline(
+  ctx: AgentCallContext,
+  send: (ctx: AgentCallContext) => Promise<AIAgentResponse>
+): Promise<AIAgentResponse> {
+  const pipeline = [...registered, ...(ctx.options.middleware || [])]
+  const entered: AgentMiddleware[] = []
+  let response: AIAgentResponse | null = null
+
+  for (const middleware of pipeline) {
+    entered.push(middleware)
+    try {
+      const answer = await middleware.beforeRequest?.(ctx)
+      if (answer) {
+        response = answer
+        break
+      }
+    } catch (error) {
+      response = failedResponse(middleware, error, ctx)
+      break
+    }
+  }
+
+  response ??= await send(ctx)
+
+  for (const middleware of entered.reverse()) {
+    const hook = response.success ? middleware.afterResponse : middleware.onError
+    if (!hook) continue
+    try {
+      response = (await hook(response, ctx)) || response
+    } catch (error) {
+      response = failedResponse(middleware, error, ctx)
+    }
+  }
+
+  return response
+}
+
+// =============================================================================
+// Built-in Middleware
+// =============================================================================
+
+/**
+ * Log each call and its outcome with timing
+ */
+export function createLoggingMiddleware(logger: Pick<Console, 'info' | 'warn'> = console): AgentMiddleware {
+  const name = 'logging'
+  return {
+    name,
+    beforeRequest(ctx) {
+      ctx.state[name] = Date.now()
+      logger.info(`[Agent] ${ctx.kind} ${ctx.agent_id} (${ctx.request_id}) started`)
+    },
+    afterResponse(response, ctx) {
+      const ms = Date.now() - (ctx.state[name] as number)
+      logger.info(`[Agent] ${ctx.kind} ${ctx.agent_id} (${ctx.request_id}) succeeded in ${ms}ms`, response.cache_status || '')
+    },
+    onError(response, ctx) {
+      const ms = Date.now() - (ctx.state[name] as number)
+      logger.warn(`[Agent] ${ctx.kind} ${ctx.agent_id} (${ctx.request_id}) failed in ${ms}ms: ${response.error}`)
+    },
+  }
+}
+
+/**
+ * Add headers (e.g. an Authorization header for a proxy behind auth). A
+ * function is called for every call, so tokens can be refreshed.
+ */
+export function createHeadersMiddleware(
+  headers: Record<string, string> | ((ctx: AgentCallContext) => Record<string, string> | Promise<Record<string, string>>)
+): AgentMiddleware {
+  return {
+    name: 'headers',
+    async beforeRequest(ctx) {
+      const extra = typeof headers === 'function' ? await headers(ctx) : headers
+      ctx.headers = { ...ctx.headers, ...extra }
+    },
+  }
+}
+
+export interface RedactionRule {
+  pattern: RegExp
+  replacement: string
+}
+
+/** Personal data that should not leave the browser in an HR prompt */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[REDACTED SSN]' },
+  { pattern: /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g, replacement: '[REDACTED EMAIL]' },
+  { pattern: /\b(?:\+?1[-. ]?)?\(?\d{3}\)?[-. ]\d{3}[-. ]\d{4}\b/g, replacement: '[REDACTED PHONE]' },
+]
+
+/**
+ * Replace matches in the outgoing message before it is sent. Register it
+ * after the cache so cache keys still tell different messages apart.
+ */
+export function createRedactionMiddleware(rules: RedactionRule[] = DEFAULT_REDACTION_RULES): AgentMiddleware {
+  return {
+    name: 'redaction',
+    beforeRequest(ctx) {
+      ctx.message = rules.reduce((text, rule) => text.replace(rule.pattern, rule.replacement), ctx.message)
+    },
+  }
+}
+
+/**
+ * Check every successful result against its agent's schema (from the agent
+ * registry, or `schemas` keyed by agent ID) and attach `validation_error`
+ * on a mismatch. With `reject`, a mismatch also fails the call.
+ */
+export function createValidationMiddleware(options: {
+  schemas?: Record<string, ZodType>
+  reject?: boolean
+} = {}): AgentMiddleware {
+  return {
+    name: 'validation',
+    afterResponse(response, ctx) {
+      if (response.response.status === 'error') return
+      const schema = options.schemas?.[ctx.agent_id] || findAgentById(ctx.agent_id)?.schema
+      if (!schema) return
+
+      const validated = validateAgentResult(schema, response.response.result)
+      if (validated.success) return
+
+      const validation_error: ValidationError = validated.validation_error
+      if (!options.reject) return { ...response, validation_error }
+      return {
+        ...response,
+        success: false,
+        error: validation_error.message,
+        validation_error,
+      }
+    },
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Agent Registry
+ *
+ * Every agent the app talks to, from the metadata in response_schemas/ (name,
+ * ID, purpose, description and result validator, generated into
+ * agent-validators.ts). Code refers to agents by key (the schema file name
+ * without `_response.json`); the ID comes from the app config when it
+ * overrides one, so staging agents can be swapped in without code edits.
+ *
+ * @example
+ * ```typescript
+ * await callAIAgent(message, getAgentId(AGENTS.POLICY_DRAFTING))
+ *
+ * const agent = findAgentById(response.agent_id)
+ * agent?.name // 'Policy Drafting Agent'
+ * ```
+ */
+
+import type { ZodTypeAny } from 'zod'
+import { AGENT_MANIFEST } from '@/lib/agent-validators'
+import { getAppConfig } from '@/lib/app-config'
+import type { AppConfig } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentDefinition {
+  /** Registry key, e.g. 'policy_drafting_agent' */
+  key: string
+  name: string
+  /** ID in use (the configured override, else the one in response_schemas/) */
+  id: string
+  /** ID from response_schemas/ */
+  default_id: string
+  /** 'manager', 'analyzer', 'custom', ... */
+  purpose: string
+  description: string
+  /** File in response_schemas/ */
+  schema_file: string
+  /** Validator for the agent's `result` */
+  schema: ZodTypeAny
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Keys of the agents this app calls directly */
+export const AGENTS = {
+  POLICY_CREATION_MANAGER: 'policy_creation_manager',
+  REQUIREMENTS_ANALYST: 'requirements_analyst_agent',
+  POLICY_DRAFTING: 'policy_drafting_agent',
+  COMPLIANCE_CHECKER: 'compliance_checker_agent',
+} as const
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+export function listAgents(config: AppConfig = getAppConfig()): AgentDefinition[] {
+  return Object.entries(AGENT_MANIFEST).map(([key, entry]) => ({
+    key,
+    name: entry.agent_name,
+    id: config.agentIds[key] || entry.agent_id,
+    default_id: entry.agent_id,
+    purpose: entry.agent_purpose,
+    description: entry.description,
+    schema_file: entry.schema_file,
+    schema: entry.schema,
+  }))
+}
+
+export function getAgent(key: string, config: AppConfig = getAppConfig()): AgentDefinition | null {
+  return listAgents(config).find(agent => agent.key === key) || null
+}
+
+/**
+ * ID to call the agent with. Throws for a key that is not in
+ * response_schemas/, since that is a programming error.
+ */
+export function getAgentId(key: string, config: AppConfig = getAppConfig()): string {
+  const agent = getAgent(key, config)
+  if (!agent) throw new Error(`Unknown agent "${key}". Known agents: ${Object.keys(AGENT_MANIFEST).join(', ')}`)
+  return agent.id
+}
+
+/**
+ * The agent behind an ID, whether it is the configured or the default one
+ */
+export function findAgentById(id: string, config: AppConfig = getAppConfig()): AgentDefinition | null {
+  return listAgents(config).find(agent => agent.id === id || agent.default_id === id) || null
+}
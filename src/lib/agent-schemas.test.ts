@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import {
+  validateAgentResult,
+  formatIssuePath,
+  getSchemaPaths,
+  findSchemaDrift,
+  ComplianceResultSchema,
+  PolicyResultSchema,
+  AgentResultSchema
+} from '@/lib/agent-schemas'
+import { list, text } from '@/lib/schema-coercion'
+
+describe('validateAgentResult', () => {
+  it('fills compliance defaults and reads bare-string gaps and recommendations', () => {
+    const result = validateAgentResult(ComplianceResultSchema, {
+      overall_score: '64%',
+      identified_gaps: 'No overtime rules',
+      remediation_recommendations: ['Add an overtime section'],
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      compliance_status: 'needs_review',
+      overall_score: 64,
+      compliance_checks: [],
+      identified_gaps: [{ gap_description: 'No overtime rules', severity: 'high', affected_section: '', legal_risk: '' }],
+      remediation_recommendations: [
+        { issue: 'Add an overtime section', recommendation: 'Add an overtime section', priority: 'high', implementation_steps: [] },
+      ],
+      final_assessment: '',
+    })
+  })
+
+  it('fills a policy with missing sections and single-item lists', () => {
+    const result = validateAgentResult(PolicyResultSchema, {
+      policy_title: 'Remote Work Policy',
+      policy_document: { purpose: 'Guidance.', procedures: { section_title: 'Requests', steps: 'Submit a form' } },
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data.policy_document.procedures).toEqual([{ section_title: 'Requests', content: '', steps: ['Submit a form'] }])
+    expect(result.data.policy_document.enforcement).toEqual({ violation_reporting: '', investigation_process: '', disciplinary_actions: [] })
+    expect(result.data.formatting_notes).toEqual([])
+  })
+
+  it('reports the path of every value that cannot be coerced', () => {
+    const result = validateAgentResult(AgentResultSchema, { workflow_completed: 'maybe', sub_agent_results: [{ agent_name: {} }] })
+
+    expect(result.success).toBe(false)
+    expect(result.validation_error.issues.map(issue => issue.path)).toEqual(['sub_agent_results[0].agent_name', 'workflow_completed'])
+    expect(result.validation_error.message).toContain('workflow_completed')
+  })
+})
+
+describe('formatIssuePath', () => {
+  it('joins keys with dots and indexes with brackets', () => {
+    expect(formatIssuePath(['policy_document', 'procedures', 0, 'steps'])).toBe('policy_document.procedures[0].steps')
+    expect(formatIssuePath([])).toBe('(root)')
+  })
+})
+
+describe('getSchemaPaths', () => {
+  it('looks through coercions and arrays, and inherits optionality', () => {
+    const schema = z.object({
+      title: text,
+      steps: list(z.object({ label: text })),
+      notes: z.object({ author: text }).optional(),
+    })
+
+    expect(getSchemaPaths(schema)).toEqual([
+      { path: 'title', optional: false },
+      { path: 'steps', optional: false },
+      { path: 'steps[].label', optional: false },
+      { path: 'notes', optional: true },
+      { path: 'notes.author', optional: true },
+    ])
+  })
+})
+
+describe('findSchemaDrift', () => {
+  it('finds the app schemas in sync with the generated validators', () => {
+    expect(findSchemaDrift()).toEqual([])
+  })
+})
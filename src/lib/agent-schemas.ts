@@ -0,0 +1,248 @@
+/**
+ * Agent Response Schemas
+ *
+ * zod schemas for the `result` of each agent, matching the definitions in
+ * response_schemas/. On top of the generic coercions in schema-coercion.ts
+ * they fill in the app's defaults (plain strings where an object is expected,
+ * missing statuses and priorities) and report anything else as a structured
+ * validation error listing the failing paths.
+ *
+ * They are written by hand for those defaults, so `npm run codegen:agents
+ * -- --check` (run before every build) compares their fields with the
+ * validators generated from response_schemas/ (findSchemaDrift).
+ *
+ * @example
+ * ```typescript
+ * const validated = validateAgentResult(ComplianceResultSchema, response.response.result)
+ * if (validated.success) {
+ *   setComplianceData(validated.data)
+ * } else {
+ *   console.warn(validated.validation_error.issues) // [{ path: 'overall_score', message: '...' }]
+ * }
+ * ```
+ */
+
+import { z } from 'zod'
+import { requiredText, text, textItem, numeric, flag, list, section } from '@/lib/schema-coercion'
+import { AGENT_MANIFEST } from '@/lib/agent-validators'
+import type {
+  PolicyDocument,
+  PolicyResult,
+  ComplianceResult,
+  PolicyRequirements,
+  AgentResult
+} from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ValidationIssue {
+  /** Dotted path into the result, e.g. `policy_document.procedures[0].steps` */
+  path: string
+  message: string
+}
+
+export interface ValidationError {
+  message: string
+  issues: ValidationIssue[]
+}
+
+export interface ValidationResult<T> {
+  success: boolean
+  data?: T
+  validation_error?: ValidationError
+}
+
+export interface SchemaPath {
+  /** Dotted path with `[]` for array elements, e.g. `procedures[].steps` */
+  path: string
+  optional: boolean
+}
+
+// =============================================================================
+// Policy Drafting Agent
+// =============================================================================
+
+// Schemas are asserted to the shared domain types: without strictNullChecks zod
+// infers every key as optional, although the coercions above always fill them
+
+export const PolicyDocumentSchema = z.object({
+  purpose: text,
+  scope: text,
+  definitions: list(z.object({ term: text, definition: text })),
+  policy_statement: text,
+  procedures: list(z.object({ section_title: text, content: text, steps: list(textItem) })),
+  responsibilities: list(z.object({ role: text, responsibilities: list(textItem) })),
+  enforcement: section({
+    violation_reporting: text,
+    investigation_process: text,
+    disciplinary_actions: list(textItem)
+  }),
+  effective_date: text,
+  review_cycle: text
+}) as z.ZodType<PolicyDocument>
+
+export const PolicyResultSchema = z.object({
+  policy_title: text,
+  policy_document: PolicyDocumentSchema,
+  formatting_notes: list(textItem)
+}) as z.ZodType<PolicyResult>
+
+// =============================================================================
+// Compliance Checker Agent
+// =============================================================================
+
+/** A bare string is treated as the gap description */
+const IdentifiedGapSchema = z.preprocess(
+  value => (typeof value === 'string' ? { gap_description: value, severity: 'high' } : value),
+  z.object({ gap_description: text, severity: text, affected_section: text, legal_risk: text })
+)
+
+/** A bare string is treated as both the issue and the recommendation */
+const RemediationRecommendationSchema = z.preprocess(
+  value => (typeof value === 'string' ? { issue: value, recommendation: value } : value),
+  z.object({
+    issue: text,
+    recommendation: text,
+    priority: z.preprocess(value => value || 'high', requiredText),
+    implementation_steps: list(textItem)
+  })
+)
+
+export const ComplianceResultSchema = z.object({
+  compliance_status: z.preprocess(value => value || 'needs_review', requiredText),
+  overall_score: numeric,
+  compliance_checks: list(z.object({
+    category: text,
+    status: text,
+    findings: text,
+    relevant_regulations: list(textItem)
+  })),
+  identified_gaps: list(IdentifiedGapSchema),
+  remediation_recommendations: list(RemediationRecommendationSchema),
+  best_practices_suggestions: list(textItem),
+  final_assessment: text
+}) as z.ZodType<ComplianceResult>
+
+// =============================================================================
+// Requirements Analyst Agent
+// =============================================================================
+
+export const PolicyRequirementsSchema = z.object({
+  scope: text,
+  target_audience: list(textItem),
+  key_provisions: list(textItem),
+  exceptions: list(textItem),
+  enforcement_mechanisms: section({
+    monitoring: text,
+    violations_process: text,
+    consequences: list(textItem)
+  }),
+  additional_requirements: list(textItem)
+}) as z.ZodType<PolicyRequirements>
+
+// =============================================================================
+// Policy Creation Manager (orchestrator)
+// =============================================================================
+
+export const AgentResultSchema = z.object({
+  final_output: z.any(),
+  sub_agent_results: list(z.object({ agent_name: text, status: text, output: z.any() })),
+  summary: text,
+  workflow_completed: flag
+}) as z.ZodType<AgentResult>
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export function formatIssuePath(path: PropertyKey[]): string {
+  if (path.length === 0) return '(root)'
+  return path.reduce<string>((acc, key) => {
+    if (typeof key === 'number') return `${acc}[${key}]`
+    return acc ? `${acc}.${String(key)}` : String(key)
+  }, '')
+}
+
+/**
+ * Validate (and coerce) an agent's result against a schema
+ */
+export function validateAgentResult<T>(schema: z.ZodType<T>, result: unknown): ValidationResult<T> {
+  const parsed = schema.safeParse(result)
+  if (parsed.success) return { success: true, data: parsed.data }
+
+  const issues = parsed.error.issues.map(issue => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message
+  }))
+
+  return {
+    success: false,
+    validation_error: {
+      message: `Agent response did not match the expected schema (${issues.map(i => i.path).join(', ')})`,
+      issues
+    }
+  }
+}
+
+// =============================================================================
+// Drift Check
+// =============================================================================
+
+/** The app's schema for each agent, keyed like AGENT_MANIFEST */
+export const APP_RESULT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  compliance_checker_agent: ComplianceResultSchema,
+  policy_creation_manager: AgentResultSchema,
+  policy_drafting_agent: PolicyResultSchema,
+  requirements_analyst_agent: PolicyRequirementsSchema,
+}
+
+/** The schema under any coercions (preprocess pipes) */
+const unwrapDef = (schema: z.ZodTypeAny) => {
+  let def = (schema as any)._zod.def
+  while (def.type === 'pipe') def = def.out._zod.def
+  return def
+}
+
+/**
+ * Every object field of a schema, looking through coercions, optional
+ * wrappers and arrays. Fields under an optional field count as optional.
+ */
+export function getSchemaPaths(schema: z.ZodTypeAny, prefix = '', optional = false): SchemaPath[] {
+  const def = unwrapDef(schema)
+  switch (def.type) {
+    case 'optional':
+    case 'default':
+      return getSchemaPaths(def.innerType, prefix, true)
+    case 'nullable':
+      return getSchemaPaths(def.innerType, prefix, optional)
+    case 'array':
+      return getSchemaPaths(def.element, `${prefix}[]`, optional)
+    case 'object':
+      return Object.entries(def.shape as Record<string, z.ZodTypeAny>).flatMap(([key, field]) => {
+        const path = prefix ? `${prefix}.${key}` : key
+        const fieldOptional = optional || ['optional', 'default'].includes(unwrapDef(field).type)
+        return [{ path, optional: fieldOptional }, ...getSchemaPaths(field, path, fieldOptional)]
+      })
+    default:
+      return []
+  }
+}
+
+/**
+ * Fields of APP_RESULT_SCHEMAS that the generated validators do not have, and
+ * required generated fields the app schemas leave out. Empty when in sync.
+ */
+export function findSchemaDrift(): string[] {
+  return Object.entries(APP_RESULT_SCHEMAS).flatMap(([key, schema]) => {
+    const generated = AGENT_MANIFEST[key] ? getSchemaPaths(AGENT_MANIFEST[key].schema) : []
+    const app = getSchemaPaths(schema)
+    const has = (paths: SchemaPath[], path: string) => paths.some(p => p.path === path)
+
+    return [
+      ...app.filter(p => !has(generated, p.path)).map(p => `${key}: ${p.path} is not in response_schemas/`),
+      ...generated.filter(p => !p.optional && !has(app, p.path)).map(p => `${key}: ${p.path} is missing from agent-schemas.ts`),
+    ]
+  })
+}
@@ -0,0 +1,419 @@
+/**
+ * Agent Telemetry
+ *
+ * Records latency, payload sizes, retries, parse strategy, cache status and
+ * any token usage the backend reports for every agent call, in a rolling log
+ * kept in localStorage. The developer panel (/telemetry) charts per-agent and
+ * per-sub-agent p50/p95 latency from it.
+ *
+ * callAIAgent and streamAIAgent record their calls automatically; nothing
+ * here leaves the browser.
+ *
+ * @example
+ * ```typescript
+ * const call = startAgentCall({ kind: 'chat', agent_id, message })
+ * const response = await requestAgent(message, agent_id, { onRetry: call.retry })
+ * call.finish(response)
+ *
+ * getLatencyStats(getTelemetryRecords()) // [{ name, count, p50_ms, p95_ms, ... }]
+ * ```
+ */
+
+import { findAgentById } from '@/lib/agent-registry'
+import type { CacheStatus } from '@/lib/response-cache'
+import type { ParseStrategy } from '@/utils/jsonParser'
+import type { SSEEvent } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentUsage {
+  input_tokens?: number
+  output_tokens?: number
+  total_tokens?: number
+  /** Reported by the backend, or estimated from the configured pricing */
+  cost?: number
+  cost_estimated?: boolean
+}
+
+export interface SubAgentTiming {
+  name: string
+  duration_ms: number
+}
+
+export interface AgentCallRecord {
+  id: string
+  request_id?: string
+  agent_id: string
+  /** From the agent registry; falls back to the ID */
+  agent_name: string
+  kind: 'chat' | 'stream'
+  started_at: string
+  ended_at: string
+  duration_ms: number
+  success: boolean
+  error?: string
+  aborted?: boolean
+  /** UTF-8 bytes of the message sent */
+  request_bytes: number
+  /** UTF-8 bytes of the raw response text */
+  response_bytes: number
+  /** 1 unless the retry policy re-sent the request */
+  attempts: number
+  parse_strategy?: ParseStrategy
+  cache_status?: CacheStatus
+  usage?: AgentUsage
+  /** Streaming manager runs: time spent in each sub-agent, in order */
+  sub_agents?: SubAgentTiming[]
+}
+
+/** What finish() reads from a call's result (an AIAgentResponse) */
+export interface FinishedAgentCall {
+  success: boolean
+  error?: string
+  abort_reason?: string
+  raw_response?: string
+  request_id?: string
+  parse_strategy?: ParseStrategy
+  cache_status?: CacheStatus
+}
+
+export interface AgentCallTracker {
+  /** Pass as (or call from) the retry policy's onRetry */
+  retry: () => void
+  /** Pass every SSE event of a streaming call */
+  event: (event: SSEEvent) => void
+  /** Record the call; returns the stored record */
+  finish: (result: FinishedAgentCall) => AgentCallRecord
+}
+
+export interface LatencyStats {
+  name: string
+  count: number
+  p50_ms: number
+  p95_ms: number
+  errors: number
+  avg_attempts: number
+}
+
+export interface TokenPricing {
+  /** Cost per 1,000 input tokens */
+  input_per_1k: number
+  /** Cost per 1,000 output tokens */
+  output_per_1k: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'hr-policy-manager:agent-telemetry'
+const DEFAULT_MAX_RECORDS = 500
+
+/** Fired on window whenever the log changes */
+export const TELEMETRY_UPDATED_EVENT = 'agent-telemetry-updated'
+
+let maxRecords = DEFAULT_MAX_RECORDS
+let pricing: TokenPricing | null = null
+let enabled = import.meta.env.VITE_AGENT_TELEMETRY !== 'false'
+
+export function getTelemetryConfig(): { enabled: boolean; max_records: number; pricing: TokenPricing | null } {
+  return { enabled, max_records: maxRecords, pricing }
+}
+
+/**
+ * Turn recording on or off, resize the log, or set pricing used to estimate
+ * cost when the backend does not report one
+ */
+export function configureTelemetry(options: {
+  enabled?: boolean
+  max_records?: number
+  pricing?: TokenPricing | null
+}): void {
+  if (options.enabled !== undefined) enabled = options.enabled
+  if (options.max_records !== undefined) maxRecords = Math.max(1, options.max_records)
+  if (options.pricing !== undefined) pricing = options.pricing
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+let records: AgentCallRecord[] | null = null
+
+function load(): AgentCallRecord[] {
+  if (records) return records
+  records = []
+  if (typeof localStorage === 'undefined') return records
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw) records = JSON.parse(raw) as AgentCallRecord[]
+  } catch {
+    // A corrupt log starts over
+  }
+  return records
+}
+
+function save(next: AgentCallRecord[]): void {
+  records = next
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch (error) {
+      console.warn('[AgentTelemetry] Could not persist the log:', error)
+    }
+  }
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(TELEMETRY_UPDATED_EVENT))
+}
+
+/**
+ * Oldest first
+ */
+export function getTelemetryRecords(): AgentCallRecord[] {
+  return [...load()]
+}
+
+export function clearTelemetry(): void {
+  save([])
+}
+
+// Another tab wrote the log; read it again next time
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY) return
+    records = null
+    window.dispatchEvent(new Event(TELEMETRY_UPDATED_EVENT))
+  })
+}
+
+// =============================================================================
+// Usage
+// =============================================================================
+
+const byteLength = (text: string | undefined) => (text ? new TextEncoder().encode(text).length : 0)
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+
+const firstNumber = (source: Record<string, any>, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const value = Number(source?.[key])
+    if (source?.[key] !== undefined && source?.[key] !== null && Number.isFinite(value)) return value
+  }
+  return undefined
+}
+
+/**
+ * Token counts and cost from a usage object in any of the common shapes
+ * (OpenAI-style prompt/completion, Anthropic-style input/output)
+ */
+function readUsage(source: unknown): AgentUsage | null {
+  if (!source || typeof source !== 'object') return null
+  const data = source as Record<string, any>
+
+  const usage: AgentUsage = {
+    input_tokens: firstNumber(data, ['input_tokens', 'prompt_tokens']),
+    output_tokens: firstNumber(data, ['output_tokens', 'completion_tokens']),
+    total_tokens: firstNumber(data, ['total_tokens', 'tokens']),
+    cost: firstNumber(data, ['cost', 'total_cost', 'cost_usd']),
+  }
+  if (Object.values(usage).every(value => value === undefined)) return null
+
+  if (usage.total_tokens === undefined && (usage.input_tokens !== undefined || usage.output_tokens !== undefined)) {
+    usage.total_tokens = (usage.input_tokens || 0) + (usage.output_tokens || 0)
+  }
+  return usage
+}
+
+/**
+ * Usage metadata from an agent response or completion event: `usage` at the
+ * top level, in `metadata` or in `response`
+ */
+export function extractUsage(payload: unknown): AgentUsage | null {
+  let data = payload
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data)
+    } catch {
+      return null
+    }
+  }
+  if (!data || typeof data !== 'object') return null
+
+  const root = data as Record<string, any>
+  const candidates = [root.usage, root.metadata?.usage, root.response?.usage, root.response?.metadata?.usage]
+  for (const candidate of candidates) {
+    const usage = readUsage(candidate)
+    if (usage) return usage
+  }
+  return readUsage(root.metadata)
+}
+
+function withEstimatedCost(usage: AgentUsage | null): AgentUsage | undefined {
+  if (!usage) return undefined
+  if (usage.cost !== undefined || !pricing) return usage
+  if (usage.input_tokens === undefined && usage.output_tokens === undefined) return usage
+
+  const cost = ((usage.input_tokens || 0) * pricing.input_per_1k + (usage.output_tokens || 0) * pricing.output_per_1k) / 1000
+  return { ...usage, cost, cost_estimated: true }
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Start timing one agent call. Cache hits are recorded too (with their
+ * lookup time) but left out of latency stats.
+ */
+export function startAgentCall(info: {
+  kind: 'chat' | 'stream'
+  agent_id: string
+  message: string
+  request_id?: string
+}): AgentCallTracker {
+  const startedAt = new Date()
+  const start = now()
+  let attempts = 1
+  let streamUsage: AgentUsage | null = null
+  const subAgents: SubAgentTiming[] = []
+  let activeSubAgent: { name: string; start: number } | null = null
+
+  const closeSubAgent = (at: number) => {
+    if (!activeSubAgent) return
+    subAgents.push({ name: activeSubAgent.name, duration_ms: Math.round(at - activeSubAgent.start) })
+    activeSubAgent = null
+  }
+
+  return {
+    retry: () => {
+      attempts += 1
+    },
+
+    event: (event) => {
+      const data = event as Record<string, any>
+      if (data.type === 'subagent_switch') {
+        const at = now()
+        closeSubAgent(at)
+        activeSubAgent = { name: data.active_subagent, start: at }
+      } else if (data.type === 'chat_completed' || data.type === 'workflow_completed') {
+        streamUsage = extractUsage(data) || streamUsage
+      }
+    },
+
+    finish: (result) => {
+      const end = now()
+      closeSubAgent(end)
+
+      const agent = findAgentById(info.agent_id)
+      // A cached answer spent no tokens on this call
+      const fromCache = result.cache_status === 'hit' || result.cache_status === 'shared'
+      const record: AgentCallRecord = {
+        id: `${startedAt.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        request_id: result.request_id || info.request_id,
+        agent_id: info.agent_id,
+        agent_name: agent?.name || info.agent_id,
+        kind: info.kind,
+        started_at: startedAt.toISOString(),
+        ended_at: new Date().toISOString(),
+        duration_ms: Math.round(end - start),
+        success: result.success,
+        error: result.error,
+        aborted: result.abort_reason ? true : undefined,
+        request_bytes: byteLength(info.message),
+        response_bytes: byteLength(result.raw_response),
+        attempts,
+        parse_strategy: result.parse_strategy,
+        cache_status: result.cache_status,
+        usage: fromCache ? undefined : withEstimatedCost(streamUsage || extractUsage(result.raw_response)),
+        sub_agents: subAgents.length > 0 ? subAgents : undefined,
+      }
+
+      if (enabled) save([...load(), record].slice(-maxRecords))
+      return record
+    },
+  }
+}
+
+// =============================================================================
+// Stats
+// =============================================================================
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]
+}
+
+/** Calls that actually went to the backend */
+const isTimed = (record: AgentCallRecord) =>
+  !record.aborted && record.cache_status !== 'hit' && record.cache_status !== 'shared'
+
+function summarize(groups: Map<string, { durations: number[]; errors: number; attempts: number }>): LatencyStats[] {
+  return [...groups.entries()]
+    .map(([name, group]) => {
+      const sorted = [...group.durations].sort((a, b) => a - b)
+      return {
+        name,
+        count: sorted.length,
+        p50_ms: percentile(sorted, 50),
+        p95_ms: percentile(sorted, 95),
+        errors: group.errors,
+        avg_attempts: sorted.length > 0 ? group.attempts / sorted.length : 0,
+      }
+    })
+    .sort((a, b) => b.p95_ms - a.p95_ms)
+}
+
+/**
+ * p50/p95 latency per agent, slowest p95 first
+ */
+export function getLatencyStats(list: AgentCallRecord[] = getTelemetryRecords()): LatencyStats[] {
+  const groups = new Map<string, { durations: number[]; errors: number; attempts: number }>()
+  for (const record of list.filter(isTimed)) {
+    const group = groups.get(record.agent_name) || { durations: [], errors: 0, attempts: 0 }
+    group.durations.push(record.duration_ms)
+    group.attempts += record.attempts
+    if (!record.success) group.errors += 1
+    groups.set(record.agent_name, group)
+  }
+  return summarize(groups)
+}
+
+/**
+ * p50/p95 time spent in each sub-agent of streamed manager runs
+ */
+export function getSubAgentLatencyStats(list: AgentCallRecord[] = getTelemetryRecords()): LatencyStats[] {
+  const groups = new Map<string, { durations: number[]; errors: number; attempts: number }>()
+  for (const record of list.filter(isTimed)) {
+    for (const sub of record.sub_agents || []) {
+      const group = groups.get(sub.name) || { durations: [], errors: 0, attempts: 0 }
+      group.durations.push(sub.duration_ms)
+      group.attempts += 1
+      groups.set(sub.name, group)
+    }
+  }
+  return summarize(groups)
+}
+
+/**
+ * Totals across the log for the panel's summary row
+ */
+export function getTelemetryTotals(list: AgentCallRecord[] = getTelemetryRecords()) {
+  return list.reduce(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      errors: totals.errors + (record.success ? 0 : 1),
+      retries: totals.retries + (record.attempts - 1),
+      cache_hits: totals.cache_hits + (record.cache_status === 'hit' || record.cache_status === 'shared' ? 1 : 0),
+      total_tokens: totals.total_tokens + (record.usage?.total_tokens || 0),
+      cost: totals.cost + (record.usage?.cost || 0),
+      request_bytes: totals.request_bytes + record.request_bytes,
+      response_bytes: totals.response_bytes + record.response_bytes,
+    }),
+    { calls: 0, errors: 0, retries: 0, cache_hits: 0, total_tokens: 0, cost: 0, request_bytes: 0, response_bytes: 0 }
+  )
+}
@@ -0,0 +1,83 @@
+/**
+ * Agent Transport
+ *
+ * The single seam every agent, upload and agent-test request goes through.
+ * By default it is the browser's fetch (in direct and proxy mode alike); set
+ * `VITE_AGENT_TRANSPORT=mock` to serve the fixtures in response_schemas/
+ * without network access (see mock-agent-transport.ts), or install any
+ * fetch-compatible function.
+ *
+ * @example
+ * ```typescript
+ * const response = await agentFetch(url, { method: 'POST', body })
+ *
+ * // Tests: route every request through a scripted mock
+ * const mock = createMockTransport({ script: [{ type: 'error', status: 503 }] })
+ * setAgentTransport(mock.fetch)
+ * ```
+ */
+
+import { getAppConfig } from '@/lib/app-config'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** fetch-compatible function that performs agent requests */
+export type AgentTransport = (url: string, init?: RequestInit) => Promise<Response>
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Looked up at call time so a replaced global fetch (e.g. in tests) still applies
+const httpTransport: AgentTransport = (url, init) => fetch(url, init)
+
+let transport: AgentTransport | null = null
+let pendingTransport: Promise<AgentTransport> | null = null
+
+/**
+ * Transport for the configured mode. The mock (and its fixtures) is only
+ * loaded when enabled.
+ */
+async function createDefaultTransport(): Promise<AgentTransport> {
+  if (getAppConfig().transport !== 'mock') return httpTransport
+
+  const { createMockTransport, getMockOptionsFromEnv } = await import('@/lib/mock-agent-transport')
+  console.info('[AgentTransport] Using the offline mock agent backend')
+  return createMockTransport(getMockOptionsFromEnv()).fetch
+}
+
+export async function getAgentTransport(): Promise<AgentTransport> {
+  if (transport) return transport
+  pendingTransport ??= createDefaultTransport()
+  transport = await pendingTransport
+  return transport
+}
+
+/**
+ * Replace the transport for all later requests
+ */
+export function setAgentTransport(next: AgentTransport): void {
+  transport = next
+}
+
+/**
+ * Go back to the transport chosen by the environment
+ */
+export function resetAgentTransport(): void {
+  transport = null
+  pendingTransport = null
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * fetch() through the current transport
+ */
+export async function agentFetch(url: string, init?: RequestInit): Promise<Response> {
+  const current = await getAgentTransport()
+  return current(url, init)
+}
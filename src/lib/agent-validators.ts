@@ -0,0 +1,228 @@
+/**
+ * Agent Response Validators
+ *
+ * Generated by scripts/generate-agent-types.mjs from response_schemas/ - do not edit.
+ * Run `npm run codegen:agents` after changing a schema file or scripts/agent-schema-overrides.json.
+ */
+
+import { z } from 'zod'
+import { requiredText, numeric, flag, list } from '@/lib/schema-coercion'
+import type {
+  ComplianceCheckerAgentResult,
+  PolicyCreationManagerResult,
+  PolicyDraftingAgentResult,
+  RequirementsAnalystAgentResult
+} from '@/types/agent-responses'
+
+// =============================================================================
+// Compliance Checker Agent
+// =============================================================================
+
+export const ComplianceCheckerAgentResultSchema = z.object({
+  compliance_status: requiredText,
+  overall_score: numeric,
+  compliance_checks: list(z.object({
+    category: requiredText,
+    status: requiredText,
+    findings: requiredText,
+    relevant_regulations: list(requiredText)
+  })),
+  identified_gaps: list(z.object({
+    gap_description: requiredText,
+    severity: requiredText,
+    affected_section: requiredText,
+    legal_risk: requiredText
+  })),
+  remediation_recommendations: list(z.object({
+    issue: requiredText,
+    recommendation: requiredText,
+    priority: requiredText,
+    implementation_steps: list(requiredText)
+  })),
+  best_practices_suggestions: list(requiredText),
+  final_assessment: requiredText
+}) as z.ZodType<ComplianceCheckerAgentResult>
+
+// =============================================================================
+// Policy Creation Manager
+// =============================================================================
+
+export const PolicyCreationManagerResultSchema = z.object({
+  final_output: z.record(z.string(), z.any()),
+  sub_agent_results: list(z.object({
+    agent_name: requiredText,
+    status: requiredText,
+    output: z.record(z.string(), z.any())
+  })),
+  summary: requiredText,
+  workflow_completed: flag,
+  policy_document: z.object({
+    policy_title: requiredText.optional(),
+    purpose: requiredText,
+    scope: requiredText,
+    definitions: list(z.object({
+      term: requiredText,
+      definition: requiredText
+    })).optional(),
+    policy_statement: requiredText,
+    procedures: list(z.object({
+      section_title: requiredText,
+      content: requiredText,
+      steps: list(requiredText)
+    })).optional(),
+    responsibilities: list(z.object({
+      role: requiredText,
+      responsibilities: list(requiredText)
+    })).optional(),
+    enforcement: z.object({
+      violation_reporting: requiredText,
+      investigation_process: requiredText,
+      disciplinary_actions: list(requiredText)
+    }).optional(),
+    effective_date: requiredText.optional(),
+    review_cycle: requiredText.optional(),
+    formatting_notes: list(requiredText).optional()
+  }).optional(),
+  compliance_review: z.object({
+    compliance_status: requiredText,
+    overall_score: numeric,
+    compliance_checks: list(z.object({
+      category: requiredText,
+      status: requiredText,
+      findings: requiredText,
+      relevant_regulations: list(requiredText)
+    })).optional(),
+    identified_gaps: list(z.object({
+      gap_description: requiredText,
+      severity: requiredText,
+      affected_section: requiredText,
+      legal_risk: requiredText
+    })).optional(),
+    remediation_recommendations: list(z.any()).optional(),
+    best_practices_suggestions: list(requiredText).optional(),
+    final_assessment: requiredText.optional(),
+    critical_issues: list(requiredText).optional(),
+    recommendations: list(requiredText).optional()
+  }).optional(),
+  requirements_analysis: z.object({
+    scope: requiredText,
+    target_audience: list(z.any()),
+    key_provisions: list(z.any()),
+    exceptions: list(z.any()),
+    enforcement_mechanisms: z.object({
+      monitoring: requiredText,
+      violations_process: requiredText,
+      consequences: list(z.any())
+    }),
+    additional_requirements: list(z.any())
+  }).optional()
+}) as z.ZodType<PolicyCreationManagerResult>
+
+// =============================================================================
+// Policy Drafting Agent
+// =============================================================================
+
+export const PolicyDraftingAgentResultSchema = z.object({
+  policy_title: requiredText,
+  policy_document: z.object({
+    purpose: requiredText,
+    scope: requiredText,
+    definitions: list(z.object({
+      term: requiredText,
+      definition: requiredText
+    })),
+    policy_statement: requiredText,
+    procedures: list(z.object({
+      section_title: requiredText,
+      content: requiredText,
+      steps: list(requiredText)
+    })),
+    responsibilities: list(z.object({
+      role: requiredText,
+      responsibilities: list(requiredText)
+    })),
+    enforcement: z.object({
+      violation_reporting: requiredText,
+      investigation_process: requiredText,
+      disciplinary_actions: list(requiredText)
+    }),
+    effective_date: requiredText,
+    review_cycle: requiredText
+  }),
+  formatting_notes: list(requiredText)
+}) as z.ZodType<PolicyDraftingAgentResult>
+
+// =============================================================================
+// Requirements Analyst Agent
+// =============================================================================
+
+export const RequirementsAnalystAgentResultSchema = z.object({
+  scope: requiredText,
+  target_audience: list(z.any()),
+  key_provisions: list(z.any()),
+  exceptions: list(z.any()),
+  enforcement_mechanisms: z.object({
+    monitoring: requiredText,
+    violations_process: requiredText,
+    consequences: list(z.any())
+  }),
+  additional_requirements: list(z.any())
+}) as z.ZodType<RequirementsAnalystAgentResult>
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/** Result validator for each agent, keyed by agent ID */
+export const AGENT_RESULT_SCHEMAS: Record<string, { agent_name: string; schema: z.ZodTypeAny }> = {
+  '6960bd88566bcffb7aebb1f6': { agent_name: 'Compliance Checker Agent', schema: ComplianceCheckerAgentResultSchema },
+  '6960bdadc57d451439d49e3f': { agent_name: 'Policy Creation Manager', schema: PolicyCreationManagerResultSchema },
+  '6960bd64566bcffb7aebb1f5': { agent_name: 'Policy Drafting Agent', schema: PolicyDraftingAgentResultSchema },
+  '6960bd51566bcffb7aebb1f1': { agent_name: 'Requirements Analyst Agent', schema: RequirementsAnalystAgentResultSchema }
+}
+
+export interface AgentManifestEntry {
+  agent_name: string
+  agent_id: string
+  agent_purpose: string
+  description: string
+  /** File in response_schemas/ */
+  schema_file: string
+  schema: z.ZodTypeAny
+}
+
+/** Agent metadata from response_schemas/, keyed by agent key (the file name without _response.json) */
+export const AGENT_MANIFEST: Record<string, AgentManifestEntry> = {
+  compliance_checker_agent: {
+    agent_name: 'Compliance Checker Agent',
+    agent_id: '6960bd88566bcffb7aebb1f6',
+    agent_purpose: 'custom',
+    description: 'Reviews drafted policies for compliance with labor laws, employment regulations, and industry standards, identifying gaps and providing remediation recommendations',
+    schema_file: 'compliance_checker_agent_response.json',
+    schema: ComplianceCheckerAgentResultSchema,
+  },
+  policy_creation_manager: {
+    agent_name: 'Policy Creation Manager',
+    agent_id: '6960bdadc57d451439d49e3f',
+    agent_purpose: 'manager',
+    description: 'Orchestrates policy creation workflow by coordinating requirements extraction, policy drafting, and compliance checking, aggregating final compliant policy output',
+    schema_file: 'policy_creation_manager_response.json',
+    schema: PolicyCreationManagerResultSchema,
+  },
+  policy_drafting_agent: {
+    agent_name: 'Policy Drafting Agent',
+    agent_id: '6960bd64566bcffb7aebb1f5',
+    agent_purpose: 'custom',
+    description: 'Creates comprehensive, professionally formatted HR policy documents with structured sections including purpose, scope, procedures, and enforcement',
+    schema_file: 'policy_drafting_agent_response.json',
+    schema: PolicyDraftingAgentResultSchema,
+  },
+  requirements_analyst_agent: {
+    agent_name: 'Requirements Analyst Agent',
+    agent_id: '6960bd51566bcffb7aebb1f1',
+    agent_purpose: 'analyzer',
+    description: 'Extracts and structures policy requirements including scope, target audience, key provisions, exceptions, and enforcement mechanisms',
+    schema_file: 'requirements_analyst_agent_response.json',
+    schema: RequirementsAnalystAgentResultSchema,
+  }
+}
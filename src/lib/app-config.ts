@@ -0,0 +1,186 @@
+/**
+ * App Configuration
+ *
+ * Endpoints, the API key and agent IDs for the current environment, read from
+ * one place instead of constants scattered across the request modules. Values
+ * are layered:
+ *
+ *   1. Built-in defaults (the production Lyzr endpoints, agent IDs from response_schemas/)
+ *   2. VITE_* variables, so `vite --mode staging` with a .env.staging swaps them
+ *   3. configureApp() overrides, optionally per environment (AppConfigProvider passes its props here)
+ *
+ * The config is read at request time, so overrides apply to every later call.
+ *
+ * @example
+ * ```typescript
+ * configureApp({
+ *   environments: {
+ *     staging: { agentIds: { policy_creation_manager: '6960...' } }
+ *   }
+ * })
+ * getAppConfig().chatUrl
+ * ```
+ *
+ * In proxy mode chat and stream requests go to the backend proxy
+ * (server/agent-proxy.mjs), which holds the API key; the client never sends
+ * one.
+ *
+ * Environment:
+ *   VITE_APP_ENV          development | staging | production (default: from the Vite mode)
+ *   VITE_AGENT_TRANSPORT  direct | proxy | mock (default direct)
+ *   VITE_AGENT_PROXY_URL  Base path of the backend proxy (default /api/agent)
+ *   VITE_LYZR_API_URL     Agent chat endpoint
+ *   VITE_LYZR_STREAM_URL  Agent streaming endpoint
+ *   VITE_UPLOAD_URL       File upload endpoint
+ *   VITE_API_URL          Agent test server
+ *   VITE_AGENT_IDS        Agent ID overrides, e.g. "policy_creation_manager=abc,compliance_checker_agent=def"
+ */
+
+import type { AppConfig, AppEnvironment, AgentTransportMode } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AppConfigOverrides extends Partial<AppConfig> {
+  /** Applied on top of the other overrides when their environment is active */
+  environments?: Partial<Record<AppEnvironment, Partial<AppConfig>>>
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULTS: Omit<AppConfig, 'environment'> = {
+  transport: 'direct',
+  proxyUrl: '/api/agent',
+  chatUrl: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/',
+  streamUrl: 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/',
+  uploadUrl: '/api/upload',
+  apiUrl: 'http://localhost:8889',
+  apiKey: '',
+  agentIds: {},
+  defaultAgentId: '',
+  theme: 'light',
+}
+
+const ENVIRONMENTS: AppEnvironment[] = ['development', 'staging', 'production']
+
+const TRANSPORTS: AgentTransportMode[] = ['direct', 'proxy', 'mock']
+
+/** Fired on window whenever configureApp() or resetAppConfig() changes the config */
+export const APP_CONFIG_CHANGED_EVENT = 'app-config-changed'
+
+let config: AppConfig | null = null
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function resolveEnvironment(env: ImportMetaEnv): AppEnvironment {
+  const name = (env.VITE_APP_ENV || env.MODE || '').toLowerCase()
+  return ENVIRONMENTS.find(environment => environment === name) || 'development'
+}
+
+function resolveTransport(env: ImportMetaEnv): AgentTransportMode | undefined {
+  const name = (env.VITE_AGENT_TRANSPORT || '').toLowerCase()
+  return TRANSPORTS.find(transport => transport === name)
+}
+
+/**
+ * Parse "policy_creation_manager=abc,compliance_checker_agent=def"
+ */
+export function parseAgentIds(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text.split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([key, id]) => key && id)
+  )
+}
+
+function merge(base: AppConfig, overrides: Partial<AppConfig>): AppConfig {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<AppConfig>
+  return { ...base, ...defined, agentIds: { ...base.agentIds, ...defined.agentIds } }
+}
+
+function notify(): void {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(APP_CONFIG_CHANGED_EVENT))
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Config from the defaults and VITE_* variables alone
+ */
+export function loadAppConfig(env: ImportMetaEnv = import.meta.env): AppConfig {
+  return merge({ ...DEFAULTS, environment: resolveEnvironment(env) }, {
+    transport: resolveTransport(env),
+    proxyUrl: env.VITE_AGENT_PROXY_URL || undefined,
+    chatUrl: env.VITE_LYZR_API_URL || undefined,
+    streamUrl: env.VITE_LYZR_STREAM_URL || undefined,
+    uploadUrl: env.VITE_UPLOAD_URL || undefined,
+    apiUrl: env.VITE_API_URL || undefined,
+    apiKey: env.VITE_LYZR_API_KEY || undefined,
+    agentIds: parseAgentIds(env.VITE_AGENT_IDS || ''),
+    defaultAgentId: env.VITE_AGENT_ID || undefined,
+  })
+}
+
+export function getAppConfig(): AppConfig {
+  config ??= loadAppConfig()
+  return config
+}
+
+/**
+ * Override parts of the config for all later requests. Overrides for the
+ * active environment (after any `environment` override) are applied last.
+ */
+export function configureApp(overrides: AppConfigOverrides): AppConfig {
+  const { environments, ...rest } = overrides
+  let next = merge(getAppConfig(), rest)
+  const forEnvironment = environments?.[next.environment]
+  if (forEnvironment) next = merge(next, forEnvironment)
+
+  config = next
+  notify()
+  return config
+}
+
+/**
+ * Where chat or stream requests go: the backend proxy in proxy mode,
+ * otherwise the Lyzr endpoint
+ */
+export function getAgentEndpoint(kind: 'chat' | 'stream', config: AppConfig = getAppConfig()): string {
+  if (config.transport === 'proxy') return `${config.proxyUrl.replace(/\/+$/, '')}/${kind}`
+  return kind === 'chat' ? config.chatUrl : config.streamUrl
+}
+
+/**
+ * Headers for agent and upload requests: the API key when calling Lyzr
+ * directly; in proxy mode only the user ID, which the proxy rate-limits on
+ */
+export function getAgentHeaders(user_id: string, config: AppConfig = getAppConfig()): Record<string, string> {
+  if (config.transport === 'proxy') return { 'x-user-id': user_id }
+  return config.apiKey ? { 'x-api-key': config.apiKey } : {}
+}
+
+/**
+ * Whether the client request ID can travel as a header. Calls to Lyzr
+ * directly are cross-origin, where a custom header needs the API's CORS
+ * preflight to allow it, so those carry the ID in the body instead.
+ */
+export function canSendRequestIdHeader(config: AppConfig = getAppConfig()): boolean {
+  return config.transport !== 'direct'
+}
+
+/**
+ * Drop all configureApp() overrides
+ */
+export function resetAppConfig(): void {
+  config = null
+  notify()
+}
@@ -0,0 +1,108 @@
+/**
+ * Company Profile Store
+ *
+ * Saves company profiles (jurisdictions, headcount, industry, union status,
+ * handbook terms) in localStorage and formats the active profile as context
+ * for agent requests.
+ *
+ * @example
+ * ```typescript
+ * const message = withCompanyContext('Create a remote work policy', getActiveProfile())
+ * await callAIAgent(message, agentId)
+ * ```
+ */
+
+import type { CompanyProfile, UnionStatus } from '@/types/policy'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const PROFILES_KEY = 'hr-policy-manager:company-profiles'
+const ACTIVE_PROFILE_KEY = 'hr-policy-manager:active-profile'
+
+export const UNION_STATUS_LABELS: Record<UnionStatus, string> = {
+  non_union: 'Non-union',
+  partially_unionized: 'Partially unionized',
+  unionized: 'Unionized',
+  unknown: 'Unknown',
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function readJSON<T>(key: string, fallback: T): T {
+  if (typeof localStorage === 'undefined') return fallback
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+function writeJSON(key: string, value: unknown): void {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(key, JSON.stringify(value))
+}
+
+export function loadProfiles(): CompanyProfile[] {
+  return readJSON<CompanyProfile[]>(PROFILES_KEY, [])
+}
+
+export function saveProfiles(profiles: CompanyProfile[]): void {
+  writeJSON(PROFILES_KEY, profiles)
+}
+
+export function loadActiveProfileId(): string | null {
+  return readJSON<string | null>(ACTIVE_PROFILE_KEY, null)
+}
+
+export function saveActiveProfileId(id: string | null): void {
+  writeJSON(ACTIVE_PROFILE_KEY, id)
+}
+
+/**
+ * The profile currently attached to agent requests, if any
+ */
+export function getActiveProfile(): CompanyProfile | null {
+  const id = loadActiveProfileId()
+  return loadProfiles().find(p => p.id === id) || null
+}
+
+// =============================================================================
+// Agent Context
+// =============================================================================
+
+/**
+ * Render a profile as a plain-text block agents can read
+ */
+export function formatProfileContext(profile: CompanyProfile): string {
+  const lines = ['[Company Profile]', `Company: ${profile.name}`]
+
+  if (profile.jurisdictions.length > 0) {
+    lines.push(`Jurisdictions: ${profile.jurisdictions.join('; ')}`)
+  }
+  if (profile.headcount !== null && profile.headcount !== undefined) {
+    lines.push(`Headcount: ${profile.headcount}`)
+  }
+  if (profile.industry) {
+    lines.push(`Industry: ${profile.industry}`)
+  }
+  lines.push(`Union status: ${UNION_STATUS_LABELS[profile.union_status] || profile.union_status}`)
+  if (profile.handbook_terms.trim()) {
+    lines.push(`Existing handbook terms:\n${profile.handbook_terms.trim()}`)
+  }
+  lines.push('[End Company Profile]')
+
+  return lines.join('\n')
+}
+
+/**
+ * Prefix a message with the company profile so the agent applies the right regulations
+ */
+export function withCompanyContext(message: string, profile: CompanyProfile | null | undefined): string {
+  if (!profile) return message
+  return `${formatProfileContext(profile)}\n\n${message}`
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { createSSEStreamParser, parseSSEStream } from '@/lib/event-parser'
+
+const types = (events: ReturnType<typeof parseSSEStream>) => events.map(parsed => parsed.eventType)
+
+describe('createSSEStreamParser', () => {
+  it('emits an event split across chunks exactly once', () => {
+    const parser = createSSEStreamParser('req-1')
+    const chunks = ['event: chat_st', 'arted\ndata: {"mess', 'age":"hi"}\n', '\n']
+    const events = chunks.flatMap(chunk => parser.push(chunk))
+
+    expect(events).toHaveLength(1)
+    expect(events[0].eventType).toBe('chat_started')
+    expect(events[0].event).toMatchObject({ type: 'chat_started', message: 'hi', request_id: 'req-1' })
+    expect(parser.flush()).toEqual([])
+  })
+
+  it('treats a \\r\\n split between chunks as one line break', () => {
+    const parser = createSSEStreamParser()
+    const events = [
+      ...parser.push('event: first\r'),
+      ...parser.push('\ndata: {}\r\n\r'),
+      ...parser.push('\nevent: second\r\ndata: {}\r\n\r\n'),
+    ]
+    expect(types(events)).toEqual(['first', 'second'])
+  })
+
+  it('joins multi-line data and accepts fields without a space after the colon', () => {
+    const [parsed] = parseSSEStream('event:update\ndata:{"a":\ndata: 1}\n\n')
+    expect(parsed.eventType).toBe('update')
+    expect(parsed.event).toMatchObject({ a: 1 })
+  })
+
+  it('ignores comment lines and unknown fields', () => {
+    expect(types(parseSSEStream(': keep-alive\nid: 7\nevent: ping\ndata: {}\n\n'))).toEqual(['ping'])
+  })
+
+  it('keeps the event type from the payload over the event line', () => {
+    const [parsed] = parseSSEStream('event: message\ndata: {"type":"tool_error","error":"boom"}\n\n')
+    expect(parsed.eventType).toBe('tool_error')
+  })
+
+  it('maps [DONE] to chat_completed', () => {
+    const [parsed] = parseSSEStream('data: [DONE]\n\n', 'req-2')
+    expect(parsed).toMatchObject({ success: true, eventType: 'chat_completed', event: { request_id: 'req-2' } })
+  })
+
+  it('flushes a final event that has no trailing blank line', () => {
+    const parser = createSSEStreamParser()
+    expect(parser.push('event: chat_completed\ndata: {"ok":true}')).toEqual([])
+    const events = parser.flush()
+
+    expect(types(events)).toEqual(['chat_completed'])
+    expect(events[0].event).toMatchObject({ ok: true })
+  })
+
+  it('reports plain-text data as a parse_error carrying the raw text', () => {
+    const [parsed] = parseSSEStream('event: chunk\ndata: Drafting the policy now\n\n')
+    expect(parsed).toMatchObject({ success: false, eventType: 'parse_error', raw: 'Drafting the policy now' })
+  })
+})
@@ -16,14 +16,24 @@ export interface ParsedSSEEvent {
 }
 
 /**
- * Parse a single SSE line into event type and data
+ * Parse a single SSE line into event type and data.
+ * Per the SSE spec, one space after the colon is optional and lines starting
+ * with a colon are comments.
  */
 function parseSSELine(line: string): { type: 'event' | 'data' | 'other'; value: string } {
-  if (line.startsWith('event: ')) {
-    return { type: 'event', value: line.substring(7).trim() }
+  if (line.startsWith(':')) {
+    return { type: 'other', value: line }
   }
-  if (line.startsWith('data: ')) {
-    return { type: 'data', value: line.substring(6) }
+  const colon = line.indexOf(':')
+  const field = colon === -1 ? line : line.substring(0, colon)
+  let value = colon === -1 ? '' : line.substring(colon + 1)
+  if (value.startsWith(' ')) value = value.substring(1)
+
+  if (field === 'event') {
+    return { type: 'event', value: value.trim() }
+  }
+  if (field === 'data') {
+    return { type: 'data', value }
   }
   return { type: 'other', value: line }
 }
@@ -86,30 +96,43 @@ export function parseSSEEvent(
   }
 }
 
+export interface SSEStreamParser {
+  /** Feed the next chunk; returns the events it completed */
+  push(chunk: string): ParsedSSEEvent[]
+  /** Parse whatever is left once the stream has ended */
+  flush(): ParsedSSEEvent[]
+}
+
 /**
- * Parse raw SSE text into events
- * Handles multi-line SSE format:
- * event: event_name
- * data: {...}
+ * Create an incremental SSE parser for a response body read in chunks.
+ * Lines and events split across chunk boundaries are held back until they
+ * are complete, so each event is emitted exactly once.
+ *
+ * @example
+ * ```typescript
+ * const parser = createSSEStreamParser(requestId)
+ * for await (const chunk of body) events.push(...parser.push(decoder.decode(chunk, { stream: true })))
+ * events.push(...parser.flush())
+ * ```
  */
-export function parseSSEStream(rawSSE: string, requestId?: string): ParsedSSEEvent[] {
-  const events: ParsedSSEEvent[] = []
-  const lines = rawSSE.split('\n')
-
+export function createSSEStreamParser(requestId?: string): SSEStreamParser {
+  let pending = ''
   let currentEventType: string | null = null
   let currentData: string[] = []
 
-  for (const line of lines) {
+  const dispatch = (events: ParsedSSEEvent[]) => {
+    if (currentData.length > 0) {
+      events.push(parseSSEEvent(currentEventType || 'message', currentData.join('\n'), requestId))
+    }
+    currentEventType = null
+    currentData = []
+  }
+
+  const processLine = (line: string, events: ParsedSSEEvent[]) => {
     if (line.trim() === '') {
       // Empty line = end of event
-      if (currentData.length > 0) {
-        const data = currentData.join('\n')
-        const eventType = currentEventType || 'message'
-        events.push(parseSSEEvent(eventType, data, requestId))
-      }
-      currentEventType = null
-      currentData = []
-      continue
+      dispatch(events)
+      return
     }
 
     const parsed = parseSSELine(line)
@@ -121,14 +144,43 @@ export function parseSSEStream(rawSSE: string, requestId?: string): ParsedSSEEve
     }
   }
 
-  // Handle remaining data
-  if (currentData.length > 0) {
-    const data = currentData.join('\n')
-    const eventType = currentEventType || 'message'
-    events.push(parseSSEEvent(eventType, data, requestId))
+  return {
+    push(chunk: string): ParsedSSEEvent[] {
+      const events: ParsedSSEEvent[] = []
+      pending += chunk
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      const lines = pending.split(/\r\n|\r(?!$)|\n/)
+      pending = lines.pop() ?? ''
+
+      for (const line of lines) {
+        processLine(line, events)
+      }
+      return events
+    },
+
+    flush(): ParsedSSEEvent[] {
+      const events: ParsedSSEEvent[] = []
+      if (pending) {
+        processLine(pending.replace(/\r$/, ''), events)
+        pending = ''
+      }
+      // Handle remaining data
+      dispatch(events)
+      return events
+    },
   }
+}
 
-  return events
+/**
+ * Parse raw SSE text into events
+ * Handles multi-line SSE format:
+ * event: event_name
+ * data: {...}
+ */
+export function parseSSEStream(rawSSE: string, requestId?: string): ParsedSSEEvent[] {
+  const parser = createSSEStreamParser(requestId)
+  return [...parser.push(rawSSE), ...parser.flush()]
 }
 
 /**
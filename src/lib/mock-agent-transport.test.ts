@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { createMockTransport, parseMockScript } from '@/lib/mock-agent-transport'
+import managerFixture from '../../response_schemas/policy_creation_manager_response.json'
+import complianceFixture from '../../response_schemas/compliance_checker_agent_response.json'
+
+const CHAT_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+
+const post = (body: Record<string, unknown>) => ({ method: 'POST', body: JSON.stringify(body) })
+
+describe('parseMockScript', () => {
+  it('reads each step type and its argument', () => {
+    expect(parseMockScript('error:503, malformed,network_error,latency:5000,success')).toEqual([
+      { type: 'error', status: 503 },
+      { type: 'malformed' },
+      { type: 'network_error' },
+      { type: 'success', latency_ms: 5000 },
+      { type: 'success' },
+    ])
+  })
+
+  it('defaults a bare error to 500 and ignores empty steps', () => {
+    expect(parseMockScript('error,,')).toEqual([{ type: 'error', status: 500 }])
+  })
+})
+
+describe('createMockTransport', () => {
+  it('consumes script steps in order, then serves fixtures', async () => {
+    const mock = createMockTransport({ latency_ms: 0, script: [{ type: 'error', status: 503 }, { type: 'malformed' }] })
+    const body = post({ agent_id: complianceFixture.agent_id, message: 'Check this' })
+
+    expect((await mock.fetch(CHAT_URL, body)).status).toBe(503)
+    expect(await (await mock.fetch(CHAT_URL, body)).text()).toContain('Unterminated')
+    const served = await (await mock.fetch(CHAT_URL, body)).json()
+
+    expect(served.response.status).toBe('success')
+    expect(mock.requests.map(request => request.step.type)).toEqual(['error', 'malformed', 'success'])
+  })
+
+  it('rejects like a failed connection for network_error', async () => {
+    const mock = createMockTransport({ latency_ms: 0, script: [{ type: 'network_error' }] })
+    await expect(mock.fetch(CHAT_URL, post({ agent_id: 'any', message: '' }))).rejects.toThrow('Failed to fetch')
+  })
+
+  it('streams a manager run as sub-agent events ending in chat_completed', async () => {
+    const mock = createMockTransport({ latency_ms: 0 })
+    const response = await mock.fetch(STREAM_URL, post({ agent_id: managerFixture.agent_id, message: 'Draft a policy' }))
+    const events = (await response.text())
+      .split('\n')
+      .filter(line => line.startsWith('event: '))
+      .map(line => line.slice('event: '.length))
+
+    expect(events[0]).toBe('chat_started')
+    expect(events).toContain('subagent_switch')
+    expect(events[events.length - 1]).toBe('chat_completed')
+  })
+
+  it('stops a response when the request is aborted', async () => {
+    const mock = createMockTransport({ latency_ms: 1000 })
+    const controller = new AbortController()
+    const request = mock.fetch(CHAT_URL, { ...post({ agent_id: 'any', message: '' }), signal: controller.signal })
+    controller.abort()
+
+    await expect(request).rejects.toThrow()
+  })
+})
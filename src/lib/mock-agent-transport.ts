@@ -0,0 +1,382 @@
+/**
+ * Mock Agent Transport
+ *
+ * An offline stand-in for the Lyzr agent API, the upload endpoint and the
+ * agent test server. Agent calls are answered with the `actual_test_response`
+ * (or `example_response`) fixtures from response_schemas/; the Policy
+ * Creation Manager returns a full run built from its sub-agents' fixtures,
+ * over JSON or as an SSE stream.
+ *
+ * A script of steps, consumed one per request, simulates latency, HTTP
+ * errors, network failures and malformed JSON. Requests made after the script
+ * runs out succeed.
+ *
+ * @example
+ * ```typescript
+ * const mock = createMockTransport({
+ *   latency_ms: 50,
+ *   script: [{ type: 'error', status: 503 }, { type: 'malformed' }]
+ * })
+ * setAgentTransport(mock.fetch)
+ * // 1st request: 503, 2nd: unparseable body, then fixtures
+ * mock.requests // every request made, with the step that answered it
+ * ```
+ *
+ * Environment (with VITE_AGENT_TRANSPORT=mock):
+ *   VITE_MOCK_LATENCY_MS  Delay before each response and between stream events (default 300)
+ *   VITE_MOCK_SCRIPT      Comma-separated steps, e.g. "error:503,malformed,network_error,latency:5000"
+ */
+
+import complianceCheckerFixture from '../../response_schemas/compliance_checker_agent_response.json'
+import policyCreationManagerFixture from '../../response_schemas/policy_creation_manager_response.json'
+import policyDraftingFixture from '../../response_schemas/policy_drafting_agent_response.json'
+import requirementsAnalystFixture from '../../response_schemas/requirements_analyst_agent_response.json'
+import type { AgentTransport } from '@/lib/agent-transport'
+import { findAgentById } from '@/lib/agent-registry'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MockStep =
+  /** Serve the fixture (after an optional extra delay) */
+  | { type: 'success'; latency_ms?: number }
+  /** HTTP error with a JSON `{ error }` body */
+  | { type: 'error'; status?: number; message?: string; latency_ms?: number }
+  /** 200 whose body is truncated JSON wrapped in prose */
+  | { type: 'malformed'; latency_ms?: number }
+  /** fetch() rejects as if the connection failed */
+  | { type: 'network_error'; message?: string; latency_ms?: number }
+  /** Any JSON body */
+  | { type: 'response'; status?: number; body: unknown; latency_ms?: number }
+
+export interface MockTransportOptions {
+  /** Delay before each response and between stream events (default 300) */
+  latency_ms?: number
+  /** Steps consumed one per request, in order */
+  script?: MockStep[]
+  /** Prefer `example_response` over `actual_test_response` */
+  fixture?: 'actual' | 'example'
+}
+
+export interface MockRequest {
+  url: string
+  method: string
+  body: Record<string, any> | null
+  step: MockStep
+}
+
+export interface MockTransport {
+  fetch: AgentTransport
+  /** Append steps to the script */
+  script: (steps: MockStep[]) => void
+  /** Clear the script and the request log */
+  reset: () => void
+  requests: MockRequest[]
+}
+
+interface AgentFixture {
+  agent_name: string
+  agent_id: string
+  example_response?: Record<string, any>
+  actual_test_response?: Record<string, any>
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_LATENCY_MS = 300
+
+const MANAGER = policyCreationManagerFixture as AgentFixture
+
+/** Sub-agents in the order the manager runs them */
+const SUB_AGENTS = [requirementsAnalystFixture, policyDraftingFixture, complianceCheckerFixture] as AgentFixture[]
+
+const FIXTURES: Record<string, AgentFixture> = Object.fromEntries(
+  [MANAGER, ...SUB_AGENTS].map(fixture => [fixture.agent_id, fixture])
+)
+
+/**
+ * Options from VITE_MOCK_LATENCY_MS and VITE_MOCK_SCRIPT
+ */
+export function getMockOptionsFromEnv(): MockTransportOptions {
+  const latency = Number(import.meta.env.VITE_MOCK_LATENCY_MS)
+  return {
+    latency_ms: isNaN(latency) ? undefined : latency,
+    script: parseMockScript(import.meta.env.VITE_MOCK_SCRIPT || ''),
+  }
+}
+
+/**
+ * Parse "error:503,malformed,network_error,latency:5000,success"
+ */
+export function parseMockScript(text: string): MockStep[] {
+  return text.split(',').map(step => step.trim()).filter(Boolean).map((step): MockStep => {
+    const [type, arg] = step.split(':')
+    switch (type) {
+      case 'error':
+        return { type: 'error', status: Number(arg) || 500 }
+      case 'malformed':
+        return { type: 'malformed' }
+      case 'network_error':
+        return { type: 'network_error' }
+      case 'latency':
+        return { type: 'success', latency_ms: Number(arg) || 0 }
+      default:
+        return { type: 'success' }
+    }
+  })
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const abortError = (signal?: AbortSignal | null) =>
+  signal?.reason ?? new DOMException('The request was aborted', 'AbortError')
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError(signal))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+function parseBody(init?: RequestInit): Record<string, any> | null {
+  if (typeof init?.body !== 'string') return null
+  try {
+    return JSON.parse(init.body)
+  } catch {
+    return null
+  }
+}
+
+const formatEvent = (type: string, data: Record<string, unknown>) =>
+  `event: ${type}\ndata: ${JSON.stringify({ type, timestamp: new Date().toISOString(), ...data })}\n\n`
+
+/** Fixtures are keyed by the IDs in response_schemas/; map configured overrides back to them */
+const toFixtureId = (agentId: string) => findAgentById(agentId)?.default_id || agentId
+
+const toolName = (agentName: string) => `call_${agentName.toLowerCase().replace(/\s+/g, '_')}`
+
+/** Token counts in the usual usage shape, estimated at four characters per token */
+const mockUsage = (message: string, output: unknown) => {
+  const prompt_tokens = Math.ceil(message.length / 4)
+  const completion_tokens = Math.ceil(JSON.stringify(output).length / 4)
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens }
+}
+
+// =============================================================================
+// Mock Transport
+// =============================================================================
+
+export function createMockTransport(options: MockTransportOptions = {}): MockTransport {
+  const latency = options.latency_ms ?? DEFAULT_LATENCY_MS
+  const queue: MockStep[] = [...(options.script || [])]
+  const requests: MockRequest[] = []
+
+  const agentOutput = (fixture: AgentFixture) =>
+    (options.fixture === 'example'
+      ? fixture.example_response || fixture.actual_test_response
+      : fixture.actual_test_response || fixture.example_response) || { status: 'success', result: {} }
+
+  /** A manager run assembled from its sub-agents' fixtures */
+  const managerRun = () => ({
+    status: 'success',
+    result: {
+      final_output: {},
+      sub_agent_results: SUB_AGENTS.map(agent => ({
+        agent_name: agent.agent_name,
+        status: 'success',
+        output: agentOutput(agent),
+      })),
+      summary: 'Mock run completed: requirements analyzed, policy drafted and compliance checked.',
+      workflow_completed: true,
+    },
+    metadata: {
+      agent_name: MANAGER.agent_name,
+      timestamp: new Date().toISOString(),
+      sub_agents_used: SUB_AGENTS.map(agent => agent.agent_name),
+    },
+  })
+
+  const responseFor = (agentId: string) => {
+    if (agentId === MANAGER.agent_id) return managerRun()
+    const fixture = FIXTURES[agentId]
+    if (fixture) return agentOutput(fixture)
+    return { status: 'error', result: {}, message: `No mock fixture for agent ${agentId}` }
+  }
+
+  function streamResponse(agentId: string, message: string, requestId: string, signal?: AbortSignal | null): Response {
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (text: string) => controller.enqueue(encoder.encode(text))
+        try {
+          send(formatEvent('chat_started', { request_id: requestId }))
+
+          if (agentId === MANAGER.agent_id) {
+            let previous: string | null = null
+            for (const [index, agent] of SUB_AGENTS.entries()) {
+              const tool_use_id = `tool-${index + 1}`
+              send(formatEvent('subagent_switch', {
+                request_id: requestId,
+                active_subagent: agent.agent_name,
+                previous_subagent: previous,
+              }))
+              await sleep(latency, signal)
+              send(formatEvent('tool_use', {
+                request_id: requestId,
+                tool_name: toolName(agent.agent_name),
+                tool_input: {},
+                tool_use_id,
+                active_subagent: agent.agent_name,
+              }))
+              await sleep(latency, signal)
+              send(formatEvent('tool_result', {
+                request_id: requestId,
+                tool_name: toolName(agent.agent_name),
+                tool_use_id,
+                content: agentOutput(agent),
+                is_error: false,
+                active_subagent: agent.agent_name,
+              }))
+              previous = agent.agent_name
+            }
+          }
+
+          const response = responseFor(agentId)
+          send(formatEvent('chat_completed', { request_id: requestId, response, usage: mockUsage(message, response) }))
+          controller.close()
+        } catch (error) {
+          controller.error(error)
+        }
+      },
+    })
+
+    return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+  }
+
+  /** Upload endpoint (fileUpload.ts); every file gets an asset ID */
+  function uploadResponse(init?: RequestInit): Response {
+    const files = init?.body instanceof FormData ? init.body.getAll('files') : []
+    const now = new Date().toISOString()
+    const assets = files.map((file, index) => {
+      const asset_id = `mock-asset-${requests.length}-${index + 1}`
+      const blob = typeof file === 'string' ? null : file
+      return {
+        success: true,
+        asset_id,
+        file_name: blob?.name || `file-${index + 1}`,
+        type: 'file',
+        url: `mock://assets/${asset_id}`,
+        file_size: blob?.size || 0,
+        mime_type: blob?.type || 'application/octet-stream',
+        created_at: now,
+        error: null,
+      }
+    })
+
+    return json({
+      success: true,
+      asset_ids: assets.map(asset => asset.asset_id),
+      assets,
+      total_files: assets.length,
+      successful_uploads: assets.length,
+      failed_uploads: 0,
+      message: 'Uploaded (mock)',
+      timestamp: now,
+    })
+  }
+
+  /** Agent test server (agent_response_tester.ts) */
+  function testServerResponse(url: string, body: Record<string, any> | null): Response {
+    const ping = url.match(/\/api\/test-agent\/ping\/([^/?]+)/)
+    if (ping) return json({ success: true, reachable: !!FIXTURES[toFixtureId(ping[1])] })
+
+    const agentId = toFixtureId(body?.agent_id || '')
+    const data = {
+      success: !!FIXTURES[agentId],
+      response: responseFor(agentId),
+      agent_id: agentId,
+      responseTimeMs: latency,
+      error: FIXTURES[agentId] ? undefined : `No mock fixture for agent ${agentId}`,
+    }
+
+    if (url.includes('/api/test-agent/quick')) return json(data)
+
+    const events = [
+      { event_type: 'test_started', data: { agent_id: agentId } },
+      { event_type: 'test_completed', data },
+    ]
+    return new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join(''), {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    })
+  }
+
+  const mockFetch: AgentTransport = async (url, init) => {
+    const step = queue.shift() || { type: 'success' }
+    const body = parseBody(init)
+    requests.push({ url, method: init?.method || 'GET', body, step })
+
+    await sleep(latency + (step.latency_ms || 0), init?.signal)
+
+    switch (step.type) {
+      case 'network_error':
+        throw new TypeError(step.message || 'Failed to fetch')
+      case 'error':
+        return json({ error: step.message || `Mock error ${step.status || 500}` }, step.status || 500)
+      case 'malformed':
+        return new Response('Here is the result: {"status": "success", "result": {"policy_title": "Unterminated', {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      case 'response':
+        return json(step.body, step.status || 200)
+    }
+
+    if (url.includes('/api/upload')) return uploadResponse(init)
+
+    if (url.includes('/api/test-agent')) return testServerResponse(url, body)
+
+    const agentId = toFixtureId(body?.agent_id || '')
+    if (url.includes('/inference/stream')) {
+      return streamResponse(agentId, body?.message || '', body?.session_id || 'mock-session', init?.signal)
+    }
+    if (url.includes('/inference/chat')) {
+      const response = responseFor(agentId)
+      return json({ session_id: body?.session_id, response, usage: mockUsage(body?.message || '', response) })
+    }
+
+    return json({ error: `Mock transport has no route for ${url}` }, 404)
+  }
+
+  return {
+    fetch: mockFetch,
+    script: (steps) => {
+      queue.push(...steps)
+    },
+    reset: () => {
+      queue.length = 0
+      requests.length = 0
+    },
+    requests,
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Policy Sub-Agent Calls
+ *
+ * Direct calls to the Policy Drafting and Compliance Checker agents for
+ * targeted changes to an existing draft, without rerunning the whole
+ * Policy Creation Manager orchestration. Each call takes the active company
+ * profile so the agents apply the right jurisdictions.
+ *
+ * @example
+ * ```typescript
+ * const result = await regeneratePolicySection(policyData, 'scope', 'Include contractors')
+ * if (result.success) setPolicyData(result.policy)
+ *
+ * // Proposed draft for a compliance recommendation (review before accepting)
+ * const proposal = await applyRemediation(policyData, recommendation, gap)
+ *
+ * // Fresh compliance report for an edited draft
+ * const review = await recheckCompliance(policyData)
+ *
+ * // Cancellable, in the policy's conversation session
+ * await recheckCompliance(policyData, profile, { signal: controller.signal, session_id: sessionId })
+ * ```
+ */
+
+import { callAIAgent, type AgentRequestOptions } from '@/utils/aiAgent'
+import { withCompanyContext } from '@/lib/company-profile'
+import { validateAgentResult, ComplianceResultSchema } from '@/lib/agent-schemas'
+import { AGENTS, getAgentId } from '@/lib/agent-registry'
+import {
+  POLICY_SECTIONS,
+  type PolicyDocument,
+  type PolicyResult,
+  type PolicySectionKey,
+  type IdentifiedGap,
+  type RemediationRecommendation,
+  type ComplianceResult,
+  type CompanyProfile
+} from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PolicyAgentResult {
+  success: boolean
+  /** Current draft with the agent's changes merged in */
+  policy?: PolicyResult
+  error?: string
+}
+
+export interface ComplianceAgentResult {
+  success: boolean
+  compliance?: ComplianceResult
+  error?: string
+}
+
+/** Passed through to callAIAgent */
+export type PolicyAgentCallOptions = Pick<AgentRequestOptions, 'signal' | 'timeout_ms' | 'session_id'>
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function getSectionTitle(key: PolicySectionKey): string {
+  return POLICY_SECTIONS.find(s => s.key === key)?.title || key
+}
+
+/**
+ * Find the policy document in a drafting agent result. The agent normally
+ * returns a full PolicyResult, but may also return a bare document or only
+ * the requested section.
+ */
+function extractDocument(result: Record<string, any>): Partial<PolicyDocument> | null {
+  if (!result || typeof result !== 'object') return null
+  if (result.policy_document && typeof result.policy_document === 'object') return result.policy_document
+  if (result.result && typeof result.result === 'object') return extractDocument(result.result)
+  if (POLICY_SECTIONS.some(s => s.key in result)) return result as Partial<PolicyDocument>
+  return null
+}
+
+/**
+ * Replace one section of the current draft with the agent's version,
+ * leaving every other section untouched.
+ */
+export function mergePolicySection(
+  current: PolicyResult,
+  incoming: Partial<PolicyDocument>,
+  key: PolicySectionKey
+): PolicyResult | null {
+  const section = incoming[key]
+  if (section === undefined || section === null) return null
+
+  return {
+    ...current,
+    policy_document: {
+      ...current.policy_document,
+      [key]: section
+    }
+  }
+}
+
+// =============================================================================
+// Section Regeneration
+// =============================================================================
+
+/**
+ * Ask the drafting agent to rewrite a single section of the current draft
+ */
+export async function regeneratePolicySection(
+  policy: PolicyResult,
+  key: PolicySectionKey,
+  instructions?: string,
+  profile?: CompanyProfile | null,
+  options: PolicyAgentCallOptions = {}
+): Promise<PolicyAgentResult> {
+  const title = getSectionTitle(key)
+
+  let message = `Regenerate only the "${title}" section (policy_document.${key}) of the HR policy below.\n`
+  if (instructions?.trim()) {
+    message += `Reviewer instructions: ${instructions.trim()}\n`
+  }
+  message += `Keep every other section exactly as it is and return the complete policy in your standard JSON response format.\n\n`
+  message += `Current policy:\n\`\`\`json\n${JSON.stringify(policy, null, 2)}\n\`\`\``
+
+  const response = await callAIAgent(withCompanyContext(message, profile), getAgentId(AGENTS.POLICY_DRAFTING), options)
+
+  if (!response.success || response.response.status === 'error') {
+    return {
+      success: false,
+      error: response.error || response.response.message || `Failed to regenerate ${title}`
+    }
+  }
+
+  const document = extractDocument(response.response.result)
+  const merged = document ? mergePolicySection(policy, document, key) : null
+
+  if (!merged) {
+    return {
+      success: false,
+      error: `The drafting agent did not return a ${title} section`
+    }
+  }
+
+  return { success: true, policy: merged }
+}
+
+// =============================================================================
+// Compliance Remediation
+// =============================================================================
+
+const tokenize = (text: string): Set<string> =>
+  new Set((text || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3))
+
+/**
+ * Find the identified gap a recommendation addresses. Recommendations do not
+ * reference gaps directly, so match on shared words and fall back to the gap
+ * at the same position.
+ */
+export function findRelatedGap(
+  recommendation: RemediationRecommendation,
+  gaps: IdentifiedGap[] = [],
+  index = -1
+): IdentifiedGap | null {
+  const words = tokenize(`${recommendation.issue} ${recommendation.recommendation}`)
+  let best: IdentifiedGap | null = null
+  let bestScore = 0
+
+  for (const gap of gaps) {
+    const gapWords = tokenize(`${gap.gap_description} ${gap.affected_section}`)
+    const score = Array.from(gapWords).filter(word => words.has(word)).length
+    if (score > bestScore) {
+      best = gap
+      bestScore = score
+    }
+  }
+
+  return best || gaps[index] || null
+}
+
+/**
+ * Ask the drafting agent for a revised draft that implements a compliance
+ * recommendation. The result is a proposal; nothing is applied until the
+ * caller accepts it.
+ */
+export async function applyRemediation(
+  policy: PolicyResult,
+  recommendation: RemediationRecommendation,
+  gap: IdentifiedGap | null,
+  profile?: CompanyProfile | null,
+  options: PolicyAgentCallOptions = {}
+): Promise<PolicyAgentResult> {
+  let message = `Revise the HR policy below to resolve this compliance finding.\n\n`
+  message += `Issue: ${recommendation.issue}\n`
+  message += `Recommendation: ${recommendation.recommendation}\n`
+  if (recommendation.implementation_steps?.length) {
+    message += `Implementation steps:\n${recommendation.implementation_steps.map((step, idx) => `${idx + 1}. ${step}`).join('\n')}\n`
+  }
+  if (gap) {
+    message += `Affected section: ${gap.affected_section}\n`
+    message += `Gap: ${gap.gap_description}\n`
+  }
+  message += `\nChange only what is needed to address this finding and return the complete policy in your standard JSON response format.\n\n`
+  message += `Current policy:\n\`\`\`json\n${JSON.stringify(policy, null, 2)}\n\`\`\``
+
+  const response = await callAIAgent(withCompanyContext(message, profile), getAgentId(AGENTS.POLICY_DRAFTING), options)
+
+  if (!response.success || response.response.status === 'error') {
+    return {
+      success: false,
+      error: response.error || response.response.message || 'Failed to apply recommendation'
+    }
+  }
+
+  const result = response.response.result
+  const document = extractDocument(result)
+  if (!document) {
+    return { success: false, error: 'The drafting agent did not return a revised policy' }
+  }
+
+  // Sections the agent left out stay as they are in the current draft
+  const revised = Object.fromEntries(
+    Object.entries(document).filter(([, value]) => value !== undefined && value !== null)
+  ) as Partial<PolicyDocument>
+
+  return {
+    success: true,
+    policy: {
+      ...policy,
+      policy_title: result.policy_title || result.result?.policy_title || policy.policy_title,
+      policy_document: { ...policy.policy_document, ...revised }
+    }
+  }
+}
+
+// =============================================================================
+// Compliance Re-check
+// =============================================================================
+
+/**
+ * Find the compliance report in a checker result, which may be nested under
+ * `compliance_review` or `result`
+ */
+function findComplianceReport(result: Record<string, any>): Record<string, any> | null {
+  if (!result || typeof result !== 'object') return null
+  if (result.compliance_review) return findComplianceReport(result.compliance_review)
+  if (result.result && typeof result.result === 'object' && !('overall_score' in result)) {
+    return findComplianceReport(result.result)
+  }
+  if (!('overall_score' in result) && !('compliance_status' in result)) return null
+  return result
+}
+
+/**
+ * Send the current draft straight to the compliance checker for a new report
+ */
+export async function recheckCompliance(
+  policy: PolicyResult,
+  profile?: CompanyProfile | null,
+  options: PolicyAgentCallOptions = {}
+): Promise<ComplianceAgentResult> {
+  let message = `Review this HR policy for compliance with applicable labor laws, employment regulations and industry standards.\n\n`
+  message += `Policy:\n\`\`\`json\n${JSON.stringify(policy, null, 2)}\n\`\`\``
+
+  const response = await callAIAgent(withCompanyContext(message, profile), getAgentId(AGENTS.COMPLIANCE_CHECKER), options)
+
+  if (!response.success || response.response.status === 'error') {
+    return {
+      success: false,
+      error: response.error || response.response.message || 'Compliance check failed'
+    }
+  }
+
+  const report = findComplianceReport(response.response.result)
+  if (!report) {
+    return { success: false, error: 'The compliance checker did not return a compliance report' }
+  }
+
+  const validated = validateAgentResult(ComplianceResultSchema, report)
+  if (!validated.success) {
+    return { success: false, error: validated.validation_error.message }
+  }
+
+  return { success: true, compliance: validated.data }
+}
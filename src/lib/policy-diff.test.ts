@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import { diffLists, diffPolicyDocuments, collectChangedPaths, compareCompliance } from '@/lib/policy-diff'
+import type { PolicyDocument, ComplianceResult } from '@/types/policy'
+
+const doc = (overrides: Partial<PolicyDocument> = {}): PolicyDocument => ({
+  purpose: 'Set expectations for remote work.',
+  scope: 'All employees.',
+  definitions: [{ term: 'Remote Work', definition: 'Work done away from the office.' }],
+  policy_statement: 'Remote work is allowed with approval.',
+  procedures: [],
+  responsibilities: [],
+  enforcement: { violation_reporting: 'Report to HR.', investigation_process: 'HR investigates.', disciplinary_actions: ['Warning'] },
+  effective_date: '2026-01-01',
+  review_cycle: 'Annual',
+  ...overrides,
+})
+
+const section = (diffs: ReturnType<typeof diffPolicyDocuments>, key: string) => diffs.find(diff => diff.key === key)
+
+describe('diffLists', () => {
+  it('marks inserted and removed lines around the common ones', () => {
+    expect(diffLists(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'unchanged', text: 'c' },
+    ])
+  })
+
+  it('ignores surrounding whitespace', () => {
+    expect(diffLists(['  a '], ['a']).map(change => change.type)).toEqual(['unchanged'])
+  })
+})
+
+describe('diffPolicyDocuments', () => {
+  it('reports every section unchanged for identical documents', () => {
+    const diffs = diffPolicyDocuments(doc(), doc())
+    expect(diffs.map(diff => diff.key)).toEqual([
+      'purpose', 'scope', 'definitions', 'policy_statement', 'procedures', 'responsibilities', 'enforcement',
+    ])
+    expect(diffs.every(diff => diff.type === 'unchanged')).toBe(true)
+  })
+
+  it('classifies free-text sections as added, removed or changed', () => {
+    const diffs = diffPolicyDocuments(doc({ scope: '' }), doc({ scope: 'Contractors too.', purpose: '' }))
+    expect(section(diffs, 'scope').type).toBe('added')
+    expect(section(diffs, 'purpose').type).toBe('removed')
+    expect(section(diffs, 'policy_statement').type).toBe('unchanged')
+  })
+
+  it('matches definitions by term regardless of case and order', () => {
+    const before = doc({ definitions: [{ term: 'Hybrid', definition: 'Mixed.' }, { term: 'Remote Work', definition: 'Away.' }] })
+    const after = doc({ definitions: [{ term: 'remote work', definition: 'Away.' }, { term: 'Hybrid', definition: 'Split week.' }] })
+    const blocks = section(diffPolicyDocuments(before, after), 'definitions').blocks
+
+    expect(blocks.map(block => [block.label, block.type])).toEqual([['remote work', 'unchanged'], ['Hybrid', 'changed']])
+  })
+
+  it('pairs procedures with the same title by occurrence instead of dropping duplicates', () => {
+    const before = doc({
+      procedures: [
+        { section_title: 'Step', content: '', steps: ['Apply'] },
+        { section_title: 'Step', content: '', steps: ['Approve'] },
+      ],
+    })
+    const after = doc({
+      procedures: [
+        { section_title: 'Step', content: '', steps: ['Apply'] },
+        { section_title: 'Step', content: '', steps: ['Approve', 'Record'] },
+      ],
+    })
+    const blocks = section(diffPolicyDocuments(before, after), 'procedures').blocks
+
+    expect(blocks.map(block => block.type)).toEqual(['unchanged', 'changed'])
+    expect(blocks[1].items.map(item => item.type)).toEqual(['unchanged', 'added'])
+  })
+
+  it('appends dropped list entries after the newer ones', () => {
+    const before = doc({ responsibilities: [{ role: 'Manager', responsibilities: ['Approve'] }, { role: 'IT', responsibilities: ['Secure'] }] })
+    const after = doc({ responsibilities: [{ role: 'IT', responsibilities: ['Secure'] }, { role: 'HR', responsibilities: ['Audit'] }] })
+    const blocks = section(diffPolicyDocuments(before, after), 'responsibilities').blocks
+
+    expect(blocks.map(block => [block.label, block.type])).toEqual([['IT', 'unchanged'], ['HR', 'added'], ['Manager', 'removed']])
+  })
+
+  it('reports a procedure as changed when only its content differs', () => {
+    const before = doc({ procedures: [{ section_title: 'Requests', content: 'Email HR.', steps: ['Submit'] }] })
+    const after = doc({ procedures: [{ section_title: 'Requests', content: 'Use the portal.', steps: ['Submit'] }] })
+    expect(section(diffPolicyDocuments(before, after), 'procedures').type).toBe('changed')
+  })
+})
+
+describe('collectChangedPaths', () => {
+  it('returns the dotted path of each differing leaf', () => {
+    const before = doc({ procedures: [{ section_title: 'Requests', content: '', steps: ['Submit', 'Wait'] }] })
+    const after = doc({ purpose: 'New purpose.', procedures: [{ section_title: 'Requests', content: '', steps: ['Submit', 'Follow up'] }] })
+    expect(collectChangedPaths(before, after)).toEqual(['purpose', 'procedures.0.steps.1'])
+  })
+
+  it('treats a leaf replaced by a container as a change at that path', () => {
+    expect(collectChangedPaths({ a: 'text' }, { a: ['text'] })).toEqual(['a'])
+    expect(collectChangedPaths({ a: 1 }, { a: 1 })).toEqual([])
+  })
+})
+
+describe('compareCompliance', () => {
+  const review = (score: number, checks: Array<[string, string]>): ComplianceResult => ({
+    compliance_status: score >= 80 ? 'compliant' : 'needs_review',
+    overall_score: score,
+    compliance_checks: checks.map(([category, status]) => ({ category, status, findings: '', relevant_regulations: [] })),
+    identified_gaps: [],
+    remediation_recommendations: [],
+    best_practices_suggestions: [],
+    final_assessment: '',
+  })
+
+  it('reports the score delta and only the checks whose status changed', () => {
+    const delta = compareCompliance(
+      review(72, [['Labor Laws', 'warning'], ['Privacy', 'pass']]),
+      review(85, [['Labor Laws', 'Pass'], ['Privacy', 'pass']])
+    )
+    expect(delta).toMatchObject({ scoreBefore: 72, scoreAfter: 85, scoreDelta: 13, statusBefore: 'needs_review', statusAfter: 'compliant' })
+    expect(delta.changedChecks).toEqual([{ category: 'Labor Laws', before: 'warning', after: 'pass' }])
+  })
+
+  it('matches checks that share a category by occurrence', () => {
+    const delta = compareCompliance(
+      review(70, [['Labor Laws', 'pass'], ['Labor Laws', 'fail']]),
+      review(75, [['Labor Laws', 'pass'], ['Labor Laws', 'pass']])
+    )
+    expect(delta.changedChecks).toEqual([{ category: 'Labor Laws', before: 'fail', after: 'pass' }])
+  })
+
+  it('reports new and dropped checks with a null status on the missing side', () => {
+    const delta = compareCompliance(review(70, [['Privacy', 'pass']]), review(70, [['Safety', 'warning']]))
+    expect(delta.changedChecks).toEqual([
+      { category: 'Safety', before: null, after: 'warning' },
+      { category: 'Privacy', before: 'pass', after: null },
+    ])
+  })
+})
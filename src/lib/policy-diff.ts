@@ -0,0 +1,266 @@
+/**
+ * Policy Diff
+ *
+ * Compares two PolicyDocuments section by section. Free-text sections are
+ * compared as a whole; list sections (definitions, procedures,
+ * responsibilities, disciplinary actions) are matched by their title and
+ * their steps/bullets are diffed line by line.
+ */
+
+import {
+  POLICY_SECTIONS,
+  type PolicyDocument,
+  type PolicySectionKey,
+  type ComplianceResult
+} from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ChangeType = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface LineChange {
+  type: 'added' | 'removed' | 'unchanged'
+  text: string
+}
+
+export interface BlockDiff {
+  /** Block heading (term, procedure title, role, ...) */
+  label: string
+  type: ChangeType
+  before: string
+  after: string
+  /** Step/bullet-level changes for list blocks */
+  items?: LineChange[]
+}
+
+export interface SectionDiff {
+  key: PolicySectionKey
+  title: string
+  type: ChangeType
+  blocks: BlockDiff[]
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const normalize = (value: string | undefined | null): string => (value || '').trim()
+
+/**
+ * Line-level diff of two string lists using longest common subsequence
+ */
+export function diffLists(before: string[] = [], after: string[] = []): LineChange[] {
+  const a = before.map(normalize)
+  const b = after.map(normalize)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const changes: LineChange[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: 'unchanged', text: after[j] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: 'removed', text: before[i++] })
+    } else {
+      changes.push({ type: 'added', text: after[j++] })
+    }
+  }
+  while (i < a.length) changes.push({ type: 'removed', text: before[i++] })
+  while (j < b.length) changes.push({ type: 'added', text: after[j++] })
+
+  return changes
+}
+
+function diffText(label: string, before: string, after: string): BlockDiff {
+  const a = normalize(before)
+  const b = normalize(after)
+  let type: ChangeType = 'unchanged'
+  if (a !== b) {
+    type = !a ? 'added' : !b ? 'removed' : 'changed'
+  }
+  return { label, type, before: a, after: b }
+}
+
+function diffListBlock(label: string, before: string[] | null, after: string[] | null, beforeText = '', afterText = ''): BlockDiff {
+  const items = diffLists(before || [], after || [])
+  const text = diffText(label, beforeText, afterText)
+  let type: ChangeType = 'unchanged'
+  if (before === null) type = 'added'
+  else if (after === null) type = 'removed'
+  else if (text.type !== 'unchanged' || items.some(item => item.type !== 'unchanged')) type = 'changed'
+  return { label, type, before: text.before, after: text.after, items }
+}
+
+/**
+ * Match list entries by a title key, keeping the order of the newer list
+ * and appending removed entries at the end. Repeated titles are matched by
+ * occurrence (the second "Reporting" with the second "Reporting"), so
+ * duplicates are never dropped.
+ */
+function matchByKey<T>(before: T[] = [], after: T[] = [], key: (item: T) => string): Array<[T | null, T | null]> {
+  const occurrenceKeys = (items: T[]) => {
+    const seen = new Map<string, number>()
+    return items.map(item => {
+      const k = normalize(key(item)).toLowerCase()
+      const n = (seen.get(k) || 0) + 1
+      seen.set(k, n)
+      return `${k}#${n}`
+    })
+  }
+
+  const remaining = new Map<string, T>()
+  occurrenceKeys(before).forEach((k, i) => remaining.set(k, before[i]))
+
+  const pairs: Array<[T | null, T | null]> = []
+  occurrenceKeys(after).forEach((k, i) => {
+    const match = remaining.get(k) || null
+    remaining.delete(k)
+    pairs.push([match, after[i]])
+  })
+  for (const item of remaining.values()) pairs.push([item, null])
+
+  return pairs
+}
+
+function summarize(blocks: BlockDiff[]): ChangeType {
+  if (blocks.length === 0 || blocks.every(b => b.type === 'unchanged')) return 'unchanged'
+  if (blocks.every(b => b.type === 'added')) return 'added'
+  if (blocks.every(b => b.type === 'removed')) return 'removed'
+  return 'changed'
+}
+
+// =============================================================================
+// Section Diffs
+// =============================================================================
+
+function diffSection(key: PolicySectionKey, before: PolicyDocument, after: PolicyDocument): BlockDiff[] {
+  switch (key) {
+    case 'purpose':
+    case 'scope':
+    case 'policy_statement':
+      return [diffText('', before[key], after[key])]
+
+    case 'definitions':
+      return matchByKey(before.definitions, after.definitions, d => d.term).map(([a, b]) =>
+        diffText((b || a).term, a?.definition ?? '', b?.definition ?? '')
+      )
+
+    case 'procedures':
+      return matchByKey(before.procedures, after.procedures, p => p.section_title).map(([a, b]) =>
+        diffListBlock((b || a).section_title, a ? a.steps : null, b ? b.steps : null, a?.content, b?.content)
+      )
+
+    case 'responsibilities':
+      return matchByKey(before.responsibilities, after.responsibilities, r => r.role).map(([a, b]) =>
+        diffListBlock((b || a).role, a ? a.responsibilities : null, b ? b.responsibilities : null)
+      )
+
+    case 'enforcement': {
+      const a = before.enforcement
+      const b = after.enforcement
+      return [
+        diffText('Violation Reporting', a?.violation_reporting, b?.violation_reporting),
+        diffText('Investigation Process', a?.investigation_process, b?.investigation_process),
+        diffListBlock('Disciplinary Actions', a?.disciplinary_actions || [], b?.disciplinary_actions || []),
+      ]
+    }
+  }
+}
+
+/**
+ * Compare two policy documents section by section, in preview order
+ */
+export function diffPolicyDocuments(before: PolicyDocument, after: PolicyDocument): SectionDiff[] {
+  return POLICY_SECTIONS.map(({ key, title }) => {
+    const blocks = diffSection(key, before, after)
+    return { key, title, type: summarize(blocks), blocks }
+  })
+}
+
+// =============================================================================
+// Field Paths
+// =============================================================================
+
+/**
+ * Dotted paths of every leaf value that differs between two values,
+ * e.g. ["purpose", "procedures.1.steps.0"]. Arrays are compared by index.
+ */
+export function collectChangedPaths(before: unknown, after: unknown, prefix = ''): string[] {
+  if (before === after) return []
+
+  const isContainer = (v: unknown) => v !== null && typeof v === 'object'
+  if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) {
+    return [prefix]
+  }
+
+  const a = before as Record<string, unknown>
+  const b = after as Record<string, unknown>
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  const paths: string[] = []
+  for (const key of keys) {
+    paths.push(...collectChangedPaths(a[key], b[key], prefix ? `${prefix}.${key}` : key))
+  }
+  return paths
+}
+
+// =============================================================================
+// Compliance Diff
+// =============================================================================
+
+export interface ComplianceCheckChange {
+  category: string
+  /** Status in the earlier review, or null if the check is new */
+  before: string | null
+  /** Status in the later review, or null if the check was dropped */
+  after: string | null
+}
+
+export interface ComplianceDelta {
+  scoreBefore: number
+  scoreAfter: number
+  scoreDelta: number
+  statusBefore: string
+  statusAfter: string
+  changedChecks: ComplianceCheckChange[]
+}
+
+/**
+ * Score delta and the compliance checks whose status changed between two reviews
+ */
+export function compareCompliance(before: ComplianceResult, after: ComplianceResult): ComplianceDelta {
+  const status = (value: string) => normalize(value).toLowerCase()
+  const changedChecks: ComplianceCheckChange[] = []
+
+  // Checks that share a category are matched by occurrence, like section titles
+  const pairs = matchByKey(before.compliance_checks || [], after.compliance_checks || [], c => c.category)
+  for (const [previous, check] of pairs) {
+    const statusBefore = previous ? status(previous.status) : null
+    const statusAfter = check ? status(check.status) : null
+    if (statusBefore !== statusAfter) {
+      changedChecks.push({ category: (check || previous).category, before: statusBefore, after: statusAfter })
+    }
+  }
+
+  const scoreBefore = Number(before.overall_score) || 0
+  const scoreAfter = Number(after.overall_score) || 0
+
+  return {
+    scoreBefore,
+    scoreAfter,
+    scoreDelta: scoreAfter - scoreBefore,
+    statusBefore: before.compliance_status,
+    statusAfter: after.compliance_status,
+    changedChecks,
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Policy Export
+ *
+ * Serializes a PolicyResult (and optionally its ComplianceResult as an
+ * appendix) to Markdown, standalone HTML, DOCX or a print-ready PDF.
+ *
+ * All formats are rendered from the same block outline so headings are
+ * numbered identically and follow the preview panel's section order.
+ *
+ * @example
+ * ```typescript
+ * await exportPolicy('docx', policyData, { compliance: complianceData })
+ * ```
+ */
+
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  AlignmentType
+} from 'docx'
+import type { PolicyResult, ComplianceResult } from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExportFormat = 'markdown' | 'html' | 'docx' | 'pdf'
+
+export interface ExportOptions {
+  /** Append the compliance report after the policy */
+  compliance?: ComplianceResult | null
+}
+
+export type ExportBlock =
+  | { kind: 'title'; text: string }
+  | { kind: 'heading'; level: 1 | 2; number: string; text: string }
+  | { kind: 'paragraph'; text: string; label?: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string }> = [
+  { format: 'markdown', label: 'Markdown (.md)', extension: 'md' },
+  { format: 'html', label: 'HTML (.html)', extension: 'html' },
+  { format: 'docx', label: 'Word (.docx)', extension: 'docx' },
+  { format: 'pdf', label: 'PDF (print)', extension: 'pdf' },
+]
+
+// =============================================================================
+// Outline
+// =============================================================================
+
+const hasItems = (list: unknown[] | undefined | null): boolean => Array.isArray(list) && list.length > 0
+
+/**
+ * Build the numbered outline shared by every export format.
+ * Sections are skipped under the same conditions the preview panel hides them.
+ */
+export function buildExportBlocks(policy: PolicyResult, options: ExportOptions = {}): ExportBlock[] {
+  const doc = policy.policy_document
+  const blocks: ExportBlock[] = [{ kind: 'title', text: policy.policy_title || 'Untitled Policy' }]
+  let section = 0
+
+  const heading = (text: string) => {
+    section++
+    blocks.push({ kind: 'heading', level: 1, number: `${section}.`, text })
+  }
+  const subheading = (index: number, text: string) => {
+    blocks.push({ kind: 'heading', level: 2, number: `${section}.${index + 1}`, text })
+  }
+
+  heading('Purpose')
+  blocks.push({ kind: 'paragraph', text: doc.purpose || '' })
+
+  heading('Scope')
+  blocks.push({ kind: 'paragraph', text: doc.scope || '' })
+
+  if (hasItems(doc.definitions)) {
+    heading('Definitions')
+    doc.definitions.forEach(def => {
+      blocks.push({ kind: 'paragraph', label: def.term, text: def.definition })
+    })
+  }
+
+  heading('Policy Statement')
+  blocks.push({ kind: 'paragraph', text: doc.policy_statement || '' })
+
+  if (hasItems(doc.procedures)) {
+    heading('Procedures')
+    doc.procedures.forEach((proc, idx) => {
+      subheading(idx, proc.section_title)
+      if (proc.content) blocks.push({ kind: 'paragraph', text: proc.content })
+      if (hasItems(proc.steps)) blocks.push({ kind: 'list', ordered: true, items: proc.steps })
+    })
+  }
+
+  if (hasItems(doc.responsibilities)) {
+    heading('Responsibilities')
+    doc.responsibilities.forEach((resp, idx) => {
+      subheading(idx, resp.role)
+      blocks.push({ kind: 'list', ordered: false, items: resp.responsibilities || [] })
+    })
+  }
+
+  if (doc.enforcement) {
+    heading('Enforcement')
+    subheading(0, 'Violation Reporting')
+    blocks.push({ kind: 'paragraph', text: doc.enforcement.violation_reporting || '' })
+    subheading(1, 'Investigation Process')
+    blocks.push({ kind: 'paragraph', text: doc.enforcement.investigation_process || '' })
+    subheading(2, 'Disciplinary Actions')
+    blocks.push({ kind: 'list', ordered: false, items: doc.enforcement.disciplinary_actions || [] })
+  }
+
+  blocks.push({ kind: 'paragraph', label: 'Effective Date', text: doc.effective_date || '' })
+  blocks.push({ kind: 'paragraph', label: 'Review Cycle', text: doc.review_cycle || '' })
+
+  if (options.compliance) {
+    blocks.push(...buildComplianceAppendix(options.compliance))
+  }
+
+  return blocks
+}
+
+function buildComplianceAppendix(compliance: ComplianceResult): ExportBlock[] {
+  const blocks: ExportBlock[] = [
+    { kind: 'heading', level: 1, number: 'Appendix A.', text: 'Compliance Report' },
+    { kind: 'paragraph', label: 'Overall Compliance Score', text: `${compliance.overall_score}%` },
+    { kind: 'paragraph', label: 'Status', text: (compliance.compliance_status || '').replace(/_/g, ' ').toUpperCase() },
+  ]
+  let sub = 0
+  const subheading = (text: string) => {
+    sub++
+    blocks.push({ kind: 'heading', level: 2, number: `A.${sub}`, text })
+  }
+
+  if (hasItems(compliance.compliance_checks)) {
+    subheading('Compliance Checks')
+    compliance.compliance_checks.forEach(check => {
+      const regulations = hasItems(check.relevant_regulations) ? ` (${check.relevant_regulations.join(', ')})` : ''
+      blocks.push({
+        kind: 'paragraph',
+        label: `${check.category} [${(check.status || '').toUpperCase()}]`,
+        text: `${check.findings}${regulations}`
+      })
+    })
+  }
+
+  if (hasItems(compliance.identified_gaps)) {
+    subheading('Identified Gaps')
+    compliance.identified_gaps.forEach(gap => {
+      blocks.push({
+        kind: 'paragraph',
+        label: `${gap.affected_section} [${(gap.severity || '').toUpperCase()}]`,
+        text: `${gap.gap_description} Legal risk: ${gap.legal_risk}`
+      })
+    })
+  }
+
+  if (hasItems(compliance.remediation_recommendations)) {
+    subheading('Remediation Recommendations')
+    compliance.remediation_recommendations.forEach(rec => {
+      blocks.push({
+        kind: 'paragraph',
+        label: `${rec.issue} [${(rec.priority || '').toUpperCase()}]`,
+        text: rec.recommendation
+      })
+      if (hasItems(rec.implementation_steps)) {
+        blocks.push({ kind: 'list', ordered: true, items: rec.implementation_steps })
+      }
+    })
+  }
+
+  if (hasItems(compliance.best_practices_suggestions)) {
+    subheading('Best Practices')
+    blocks.push({ kind: 'list', ordered: false, items: compliance.best_practices_suggestions })
+  }
+
+  if (compliance.final_assessment) {
+    subheading('Final Assessment')
+    blocks.push({ kind: 'paragraph', text: compliance.final_assessment })
+  }
+
+  return blocks
+}
+
+// =============================================================================
+// Renderers
+// =============================================================================
+
+/**
+ * Render the outline as GitHub-flavored Markdown
+ */
+export function toMarkdown(policy: PolicyResult, options: ExportOptions = {}): string {
+  const lines: string[] = []
+
+  for (const block of buildExportBlocks(policy, options)) {
+    switch (block.kind) {
+      case 'title':
+        lines.push(`# ${block.text}`, '')
+        break
+      case 'heading':
+        lines.push(`${block.level === 1 ? '##' : '###'} ${block.number} ${block.text}`, '')
+        break
+      case 'paragraph':
+        lines.push(block.label ? `**${block.label}:** ${block.text}` : block.text, '')
+        break
+      case 'list':
+        block.items.forEach((item, idx) => lines.push(block.ordered ? `${idx + 1}. ${item}` : `- ${item}`))
+        lines.push('')
+        break
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const HTML_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 800px; margin: 40px auto; padding: 0 24px; color: #111827; line-height: 1.6; }
+  h1 { font-size: 28px; margin-bottom: 24px; }
+  h2 { font-size: 20px; margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  h3 { font-size: 16px; margin-top: 20px; }
+  p { margin: 8px 0; }
+  ol, ul { margin: 8px 0 8px 24px; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2, h3 { page-break-after: avoid; }
+  }
+`
+
+/**
+ * Render the outline as a standalone HTML document
+ */
+export function toHTML(policy: PolicyResult, options: ExportOptions = {}): string {
+  const body: string[] = []
+
+  for (const block of buildExportBlocks(policy, options)) {
+    switch (block.kind) {
+      case 'title':
+        body.push(`<h1>${escapeHTML(block.text)}</h1>`)
+        break
+      case 'heading': {
+        const tag = block.level === 1 ? 'h2' : 'h3'
+        body.push(`<${tag}>${escapeHTML(block.number)} ${escapeHTML(block.text)}</${tag}>`)
+        break
+      }
+      case 'paragraph':
+        body.push(block.label
+          ? `<p><strong>${escapeHTML(block.label)}:</strong> ${escapeHTML(block.text)}</p>`
+          : `<p>${escapeHTML(block.text)}</p>`)
+        break
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul'
+        body.push(`<${tag}>${block.items.map(item => `<li>${escapeHTML(item)}</li>`).join('')}</${tag}>`)
+        break
+      }
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHTML(policy.policy_title || 'Policy')}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * Render the outline as a Word document
+ */
+export async function toDocx(policy: PolicyResult, options: ExportOptions = {}): Promise<Blob> {
+  const children: Paragraph[] = []
+
+  for (const block of buildExportBlocks(policy, options)) {
+    switch (block.kind) {
+      case 'title':
+        children.push(new Paragraph({ text: block.text, heading: HeadingLevel.TITLE, alignment: AlignmentType.LEFT }))
+        break
+      case 'heading':
+        children.push(new Paragraph({
+          text: `${block.number} ${block.text}`,
+          heading: block.level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2
+        }))
+        break
+      case 'paragraph':
+        children.push(new Paragraph({
+          children: block.label
+            ? [new TextRun({ text: `${block.label}: `, bold: true }), new TextRun(block.text)]
+            : [new TextRun(block.text)]
+        }))
+        break
+      case 'list':
+        block.items.forEach((item, idx) => {
+          children.push(block.ordered
+            ? new Paragraph({ text: `${idx + 1}. ${item}`, indent: { left: 360 } })
+            : new Paragraph({ text: item, bullet: { level: 0 } }))
+        })
+        break
+    }
+  }
+
+  const document = new Document({
+    title: policy.policy_title,
+    sections: [{ children }]
+  })
+
+  return Packer.toBlob(document)
+}
+
+// =============================================================================
+// Download Helpers
+// =============================================================================
+
+/**
+ * File name for an exported policy, e.g. "remote-work-policy.md"
+ */
+export function getExportFileName(policy: PolicyResult, format: ExportFormat): string {
+  const slug = (policy.policy_title || 'policy')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'policy'
+  const extension = EXPORT_FORMATS.find(f => f.format === format)?.extension || format
+  return `${slug}.${extension}`
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Open the browser print dialog for the HTML rendering (Save as PDF)
+ */
+function printHTML(html: string): void {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  document.body.appendChild(frame)
+
+  const frameWindow = frame.contentWindow
+  if (!frameWindow) {
+    frame.remove()
+    return
+  }
+
+  frameWindow.document.open()
+  frameWindow.document.write(html)
+  frameWindow.document.close()
+  frameWindow.focus()
+  frameWindow.print()
+  setTimeout(() => frame.remove(), 1000)
+}
+
+/**
+ * Export a policy in the given format and hand it to the browser
+ */
+export async function exportPolicy(
+  format: ExportFormat,
+  policy: PolicyResult,
+  options: ExportOptions = {}
+): Promise<void> {
+  const fileName = getExportFileName(policy, format)
+
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([toMarkdown(policy, options)], { type: 'text/markdown;charset=utf-8' }), fileName)
+      break
+    case 'html':
+      downloadBlob(new Blob([toHTML(policy, options)], { type: 'text/html;charset=utf-8' }), fileName)
+      break
+    case 'docx':
+      downloadBlob(await toDocx(policy, options), fileName)
+      break
+    case 'pdf':
+      printHTML(toHTML(policy, options))
+      break
+  }
+}
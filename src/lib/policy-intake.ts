@@ -0,0 +1,85 @@
+/**
+ * Policy Intake
+ *
+ * Turns the answers from the guided intake wizard into a structured
+ * orchestration request whose fields line up with the Requirements Analyst
+ * schema (response_schemas/requirements_analyst_agent_response.json), so the
+ * analyst does not have to guess and fall back to "Not specified".
+ *
+ * @example
+ * ```typescript
+ * const message = formatIntakeRequest({
+ *   policy_topic: 'Remote work',
+ *   requirements: { scope: 'All US employees', target_audience: ['Employees', 'Managers'], ... }
+ * })
+ * await callAIAgent(message, AGENT_ID)
+ * ```
+ */
+
+import type { PolicyRequirements } from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PolicyIntake {
+  policy_topic: string
+  requirements: PolicyRequirements
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Split a multi-line text field into list entries, one per line
+ */
+export function parseListInput(value: string): string[] {
+  return (value || '')
+    .split('\n')
+    .map(line => line.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean)
+}
+
+const formatList = (label: string, items: string[]): string =>
+  items.length > 0
+    ? `${label}:\n${items.map(item => `- ${item}`).join('\n')}`
+    : `${label}: none`
+
+// =============================================================================
+// Request Formatting
+// =============================================================================
+
+/**
+ * Readable summary of an intake, shown as the user's message in the chat
+ */
+export function formatIntakeSummary(intake: PolicyIntake): string {
+  const { policy_topic, requirements } = intake
+  const enforcement = requirements.enforcement_mechanisms
+
+  return [
+    `Create a ${policy_topic.trim()} policy using the requirements below, gathered from a structured intake form.`,
+    `Scope: ${requirements.scope || 'none'}`,
+    formatList('Target audience', requirements.target_audience),
+    formatList('Key provisions', requirements.key_provisions),
+    formatList('Exceptions', requirements.exceptions),
+    [
+      'Enforcement mechanisms:',
+      `- Monitoring: ${enforcement.monitoring || 'none'}`,
+      `- Violations process: ${enforcement.violations_process || 'none'}`,
+      `- Consequences: ${enforcement.consequences.length > 0 ? enforcement.consequences.join('; ') : 'none'}`
+    ].join('\n'),
+    formatList('Additional requirements', requirements.additional_requirements)
+  ].join('\n\n')
+}
+
+/**
+ * Build the orchestration request for a completed intake: the readable
+ * summary followed by the same data as JSON in the Requirements Analyst shape
+ */
+export function formatIntakeRequest(intake: PolicyIntake): string {
+  let message = formatIntakeSummary(intake)
+  message += `\n\nUse these as the requirements analysis instead of inferring your own, and do not mark any provided field as "Not specified".`
+  message += `\n\nRequirements (JSON):\n\`\`\`json\n${JSON.stringify(intake.requirements, null, 2)}\n\`\`\``
+  return message
+}
@@ -0,0 +1,189 @@
+/**
+ * Policy Requirements
+ *
+ * Reads the Requirements Analyst output (response_schemas/requirements_analyst_agent_response.json)
+ * out of an orchestration result and traces each key provision to the part of
+ * the final draft that covers it.
+ *
+ * @example
+ * ```typescript
+ * const requirements = extractRequirements(agentResult)
+ * const trace = traceProvisions(requirements, policyData)
+ * trace.filter(t => t.coverage === 'missing') // provisions the draft dropped
+ * ```
+ */
+
+import { POLICY_SECTIONS, type PolicyRequirements, type PolicyResult, type PolicySectionKey } from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ProvisionCoverage = 'covered' | 'partial' | 'missing'
+
+export interface ProvisionTrace {
+  provision: string
+  coverage: ProvisionCoverage
+  /** Section of the draft that best matches the provision */
+  section: PolicySectionKey | null
+  /** Share of the provision's significant words found in that section (0–1) */
+  score: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const COVERED_THRESHOLD = 0.6
+const PARTIAL_THRESHOLD = 0.3
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'being', 'before', 'between', 'both', 'each', 'from',
+  'have', 'into', 'must', 'only', 'other', 'over', 'shall', 'should', 'such', 'than',
+  'that', 'their', 'them', 'there', 'these', 'they', 'this', 'those', 'through', 'under',
+  'upon', 'when', 'where', 'which', 'while', 'will', 'with', 'within', 'would', 'your'
+])
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+const toStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(item => (typeof item === 'string' ? item : item && typeof item === 'object' ? Object.values(item).join(' - ') : String(item ?? '')))
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Normalize a Requirements Analyst result, or return null if it is not one
+ */
+export function toPolicyRequirements(output: Record<string, any>): PolicyRequirements | null {
+  if (!output || typeof output !== 'object') return null
+  if (output.result && typeof output.result === 'object' && !('key_provisions' in output)) {
+    return toPolicyRequirements(output.result)
+  }
+  if (!('key_provisions' in output) && !('scope' in output && 'target_audience' in output)) return null
+
+  const enforcement = output.enforcement_mechanisms || {}
+
+  return {
+    scope: typeof output.scope === 'string' ? output.scope : '',
+    target_audience: toStringList(output.target_audience),
+    key_provisions: toStringList(output.key_provisions),
+    exceptions: toStringList(output.exceptions),
+    enforcement_mechanisms: {
+      monitoring: enforcement.monitoring || '',
+      violations_process: enforcement.violations_process || '',
+      consequences: toStringList(enforcement.consequences)
+    },
+    additional_requirements: toStringList(output.additional_requirements)
+  }
+}
+
+/**
+ * Find the Requirements Analyst output in an orchestration result
+ */
+export function extractRequirements(result: Record<string, any>): PolicyRequirements | null {
+  if (!result || typeof result !== 'object') return null
+
+  const direct = result.requirements_analysis || result.requirements
+  if (direct && typeof direct === 'object') {
+    const requirements = toPolicyRequirements(direct)
+    if (requirements) return requirements
+  }
+
+  const subAgentResults = result.sub_agent_results || result.subAgentResults || []
+  const analyst = subAgentResults.find(
+    (agent: any) => agent.agent_name?.toLowerCase().includes('requirements') ||
+             agent.agent_name?.toLowerCase().includes('analyst')
+  )
+
+  return analyst?.output ? toPolicyRequirements(analyst.output) : null
+}
+
+/**
+ * True when the analyst had nothing to work with and left every field empty
+ * or "Not specified"
+ */
+export function isRequirementsEmpty(requirements: PolicyRequirements): boolean {
+  const blank = (text: string) => !text || /^not specified$/i.test(text.trim())
+  const { enforcement_mechanisms: enforcement } = requirements
+
+  return blank(requirements.scope) &&
+    requirements.target_audience.length === 0 &&
+    requirements.key_provisions.length === 0 &&
+    requirements.exceptions.length === 0 &&
+    requirements.additional_requirements.length === 0 &&
+    blank(enforcement.monitoring) &&
+    blank(enforcement.violations_process) &&
+    enforcement.consequences.length === 0
+}
+
+// =============================================================================
+// Traceability
+// =============================================================================
+
+const tokenize = (text: string): string[] =>
+  Array.from(new Set(
+    (text || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3 && !STOP_WORDS.has(word))
+  ))
+
+// Collapse a section value (string, list or nested object) into searchable text
+const flattenText = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return value.map(flattenText).join(' ')
+  if (typeof value === 'object') return Object.values(value).map(flattenText).join(' ')
+  return String(value)
+}
+
+// Crude stemming so "monitor" matches "monitoring" and "employee" matches "employees"
+const matches = (word: string, vocabulary: Set<string>): boolean => {
+  if (vocabulary.has(word)) return true
+  const stem = word.slice(0, Math.max(5, word.length - 3))
+  return Array.from(vocabulary).some(candidate => candidate.startsWith(stem))
+}
+
+/**
+ * Check which key provisions made it into the draft, and where
+ */
+export function traceProvisions(
+  requirements: PolicyRequirements | null,
+  policy: PolicyResult | null
+): ProvisionTrace[] {
+  if (!requirements) return []
+
+  const sections = POLICY_SECTIONS.map(({ key }) => ({
+    key,
+    words: new Set(tokenize(flattenText(policy?.policy_document?.[key])))
+  }))
+
+  return requirements.key_provisions.map(provision => {
+    const words = tokenize(provision)
+    let section: PolicySectionKey | null = null
+    let score = 0
+
+    if (words.length > 0) {
+      for (const candidate of sections) {
+        const found = words.filter(word => matches(word, candidate.words)).length / words.length
+        if (found > score) {
+          score = found
+          section = candidate.key
+        }
+      }
+    }
+
+    const coverage: ProvisionCoverage = score >= COVERED_THRESHOLD
+      ? 'covered'
+      : score >= PARTIAL_THRESHOLD ? 'partial' : 'missing'
+
+    return {
+      provision,
+      coverage,
+      section: coverage === 'missing' ? null : section,
+      score: Math.round(score * 100) / 100
+    }
+  })
+}
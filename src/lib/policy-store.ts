@@ -0,0 +1,150 @@
+/**
+ * Policy Store
+ *
+ * Persists generated policies (draft + compliance report + chat transcript)
+ * behind a small repository interface. The default backend is IndexedDB;
+ * an in-memory backend is used where IndexedDB is unavailable.
+ *
+ * @example
+ * ```typescript
+ * const repo = createPolicyRepository()
+ * await repo.save(record)
+ * const all = await repo.list()   // newest first
+ * ```
+ */
+
+import type { PolicyRecord, PolicyStatus, ComplianceResult } from '@/types/policy'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'hr-policy-manager'
+const DB_VERSION = 1
+const POLICY_STORE = 'policies'
+
+// =============================================================================
+// Repository Interface
+// =============================================================================
+
+export interface PolicyRepository {
+  /** All saved policies, most recently updated first */
+  list(): Promise<PolicyRecord[]>
+  /** A single policy, or null if it does not exist */
+  get(id: string): Promise<PolicyRecord | null>
+  /** Insert or replace a policy */
+  save(record: PolicyRecord): Promise<PolicyRecord>
+  /** Delete a policy (no-op if missing) */
+  remove(id: string): Promise<void>
+}
+
+function sortByUpdated(records: PolicyRecord[]): PolicyRecord[] {
+  return [...records].sort((a, b) => b.updated.getTime() - a.updated.getTime())
+}
+
+// =============================================================================
+// IndexedDB Backend
+// =============================================================================
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDBPolicyRepository implements PolicyRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(POLICY_STORE)) {
+            db.createObjectStore(POLICY_STORE, { keyPath: 'id' })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction(POLICY_STORE, mode).objectStore(POLICY_STORE)
+  }
+
+  async list(): Promise<PolicyRecord[]> {
+    const store = await this.store('readonly')
+    const records = await promisifyRequest<PolicyRecord[]>(store.getAll())
+    return sortByUpdated(records)
+  }
+
+  async get(id: string): Promise<PolicyRecord | null> {
+    const store = await this.store('readonly')
+    const record = await promisifyRequest<PolicyRecord | undefined>(store.get(id))
+    return record || null
+  }
+
+  async save(record: PolicyRecord): Promise<PolicyRecord> {
+    const store = await this.store('readwrite')
+    await promisifyRequest(store.put(record))
+    return record
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite')
+    await promisifyRequest(store.delete(id))
+  }
+}
+
+// =============================================================================
+// In-Memory Backend
+// =============================================================================
+
+export class InMemoryPolicyRepository implements PolicyRepository {
+  private records = new Map<string, PolicyRecord>()
+
+  async list(): Promise<PolicyRecord[]> {
+    return sortByUpdated(Array.from(this.records.values()))
+  }
+
+  async get(id: string): Promise<PolicyRecord | null> {
+    return this.records.get(id) || null
+  }
+
+  async save(record: PolicyRecord): Promise<PolicyRecord> {
+    this.records.set(record.id, record)
+    return record
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id)
+  }
+}
+
+// =============================================================================
+// Factory & Helpers
+// =============================================================================
+
+/**
+ * Create the default repository for this environment
+ */
+export function createPolicyRepository(): PolicyRepository {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBPolicyRepository()
+  }
+  return new InMemoryPolicyRepository()
+}
+
+/**
+ * Map a compliance report onto the status shown in the policy library
+ */
+export function getPolicyStatus(compliance: ComplianceResult | null): PolicyStatus {
+  if (!compliance) return 'draft'
+  return compliance.compliance_status === 'compliant' ? 'compliant' : 'needs_review'
+}
@@ -0,0 +1,111 @@
+/**
+ * Request Signals
+ *
+ * Combines a caller's AbortSignal with a timeout so every agent and upload
+ * request can be cancelled by the user or abandoned when it runs too long,
+ * and reports which of the two happened.
+ *
+ * @example
+ * ```typescript
+ * const request = createRequestSignal({ signal: controller.signal, timeout_ms: 60_000 })
+ * try {
+ *   await fetch(url, { signal: request.signal })
+ * } catch (error) {
+ *   if (request.abortReason()) return { success: false, abort_reason: request.abortReason() }
+ *   throw error
+ * } finally {
+ *   request.cleanup()
+ * }
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const FALLBACK_TIMEOUT_MS = 180_000
+
+let defaultTimeoutMs = Number(import.meta.env.VITE_AGENT_TIMEOUT_MS) || FALLBACK_TIMEOUT_MS
+
+/**
+ * Timeout applied to requests that do not pass their own `timeout_ms`
+ */
+export function getDefaultTimeout(): number {
+  return defaultTimeoutMs
+}
+
+/**
+ * Change the default timeout for all later requests. Pass 0 to disable it.
+ */
+export function setDefaultTimeout(ms: number): void {
+  defaultTimeoutMs = Math.max(0, ms)
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AbortReason = 'cancelled' | 'timeout'
+
+export interface RequestSignalOptions {
+  /** Caller's signal; aborting it cancels the request */
+  signal?: AbortSignal
+  /** Milliseconds before the request is abandoned (0 disables, default getDefaultTimeout()) */
+  timeout_ms?: number
+}
+
+export interface RequestSignal {
+  /** Signal to hand to fetch */
+  signal: AbortSignal
+  /** Why the request was aborted, or null if it was not */
+  abortReason: () => AbortReason | null
+  /** Clear the timer and listeners once the request has settled */
+  cleanup: () => void
+}
+
+// =============================================================================
+// Signal Factory
+// =============================================================================
+
+export function createRequestSignal(options: RequestSignalOptions = {}): RequestSignal {
+  const controller = new AbortController()
+  const timeoutMs = options.timeout_ms ?? defaultTimeoutMs
+  let reason: AbortReason | null = null
+
+  const abort = (why: AbortReason) => {
+    if (controller.signal.aborted) return
+    reason = why
+    controller.abort(why === 'timeout'
+      ? new DOMException('The request timed out', 'TimeoutError')
+      : new DOMException('The request was cancelled', 'AbortError'))
+  }
+
+  const onCallerAbort = () => abort('cancelled')
+  if (options.signal?.aborted) {
+    abort('cancelled')
+  } else {
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true })
+  }
+
+  const timer = timeoutMs > 0 ? setTimeout(() => abort('timeout'), timeoutMs) : null
+
+  return {
+    signal: controller.signal,
+    abortReason: () => reason,
+    cleanup: () => {
+      if (timer) clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onCallerAbort)
+    },
+  }
+}
+
+/**
+ * User-facing message for an aborted request
+ */
+export function getAbortMessage(reason: AbortReason, timeoutMs?: number): string {
+  if (reason === 'timeout') {
+    const seconds = Math.round((timeoutMs ?? defaultTimeoutMs) / 1000)
+    return `The request timed out after ${seconds}s`
+  }
+  return 'The request was cancelled'
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  adaptManagerResult,
+  formatAdapterReport,
+  registerResponseAdapter,
+  resetResponseAdapters,
+  getResponseAdapters
+} from '@/lib/response-adapters'
+import draftingFixture from '../../response_schemas/policy_drafting_agent_response.json'
+import complianceFixture from '../../response_schemas/compliance_checker_agent_response.json'
+
+const policyDocument = {
+  purpose: 'Guidance for remote work.',
+  scope: 'All employees.',
+  definitions: [],
+  policy_statement: 'Remote work needs approval.',
+  procedures: [],
+  responsibilities: [],
+  enforcement: { violation_reporting: '', investigation_process: '', disciplinary_actions: [] },
+}
+
+afterEach(() => resetResponseAdapters())
+
+describe('adaptManagerResult', () => {
+  it('reads sub-agent outputs, unwrapping their own envelopes', () => {
+    const { policy, compliance, report } = adaptManagerResult({
+      sub_agent_results: [
+        { agent_name: 'Policy Drafting Agent', status: 'success', output: draftingFixture.example_response },
+        { agent_name: 'compliance checker', status: 'success', output: complianceFixture.example_response.result },
+      ],
+    })
+
+    expect(policy.policy_title).toBe(draftingFixture.example_response.result.policy_title)
+    expect(compliance.overall_score).toBe(complianceFixture.example_response.result.overall_score)
+    expect(report.matched.map(match => match.adapter)).toEqual(['sub-agent: Policy Drafting Agent', 'sub-agent: Compliance Checker Agent'])
+    expect(report.unmatched).toEqual(['requirements'])
+  })
+
+  it('fills the UI defaults on a flattened manager policy and reports them', () => {
+    const { policy, report } = adaptManagerResult({ policy_document: { ...policyDocument, policy_title: 'Remote Work' } })
+
+    expect(policy.policy_title).toBe('Remote Work')
+    expect(policy.policy_document.review_cycle).toBe('Annually')
+    expect(policy.policy_document.effective_date).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+    expect(report.matched[0].defaulted).toEqual(expect.arrayContaining([
+      'policy_document.effective_date',
+      'policy_document.review_cycle',
+      'formatting_notes',
+    ]))
+  })
+
+  it('maps legacy compliance_review critical issues and string recommendations', () => {
+    const { compliance, report } = adaptManagerResult({
+      compliance_review: {
+        compliance_status: 'needs_review',
+        overall_score: '60',
+        critical_issues: ['No overtime rules', { gap_description: 'No breaks', severity: 'medium' }],
+        recommendations: ['Add an overtime section'],
+      },
+    })
+
+    expect(compliance.overall_score).toBe(60)
+    expect(compliance.identified_gaps).toEqual([
+      { gap_description: 'No overtime rules', severity: 'high', affected_section: 'General', legal_risk: 'Requires immediate attention' },
+      { gap_description: 'No breaks', severity: 'medium', affected_section: 'General', legal_risk: 'Requires immediate attention' },
+    ])
+    expect(compliance.remediation_recommendations).toEqual([
+      { issue: 'Add an overtime section', recommendation: 'Add an overtime section', priority: 'high', implementation_steps: ['Add an overtime section'] },
+    ])
+    expect(compliance.final_assessment).toBe('Policy requires review and updates.')
+    expect(report.matched[0].defaulted).toContain('final_assessment')
+  })
+
+  it('never modifies the raw result', () => {
+    const raw = { policy_document: { ...policyDocument }, compliance_review: { overall_score: 50, recommendations: ['Fix it'] } }
+    const snapshot = structuredClone(raw)
+    adaptManagerResult(raw)
+
+    expect(raw).toEqual(snapshot)
+  })
+
+  it('rejects a matching candidate that fails validation and falls through to the next adapter', () => {
+    const { compliance, report } = adaptManagerResult({
+      sub_agent_results: [{ agent_name: 'Compliance Checker', output: { overall_score: 'unknown' } }],
+      compliance_review: { overall_score: 80 },
+    })
+
+    expect(compliance.overall_score).toBe(80)
+    expect(report.rejected).toEqual([
+      { target: 'compliance', adapter: 'sub-agent: Compliance Checker Agent', issues: [{ path: 'overall_score', message: expect.any(String) }] },
+    ])
+    expect(formatAdapterReport(report)).toContain('compliance: rejected sub-agent: Compliance Checker Agent (overall_score)')
+  })
+
+  it('reports every target as unmatched for a non-object result', () => {
+    expect(adaptManagerResult('Policy drafted.').report.unmatched).toEqual(['policy', 'compliance', 'requirements'])
+  })
+})
+
+describe('registerResponseAdapter', () => {
+  it('tries a registered adapter first and removes it again', () => {
+    const remove = registerResponseAdapter({
+      name: 'manager: draft',
+      target: 'policy',
+      matches: result => !!result.draft,
+      select: result => result.draft,
+    })
+    const result = { draft: { policy_title: 'From draft', policy_document: policyDocument } }
+
+    expect(adaptManagerResult(result).report.matched[0].adapter).toBe('manager: draft')
+    remove()
+    expect(getResponseAdapters().some(adapter => adapter.name === 'manager: draft')).toBe(false)
+    expect(adaptManagerResult(result).policy).toBeNull()
+  })
+
+  it('reports an adapter that throws as rejected', () => {
+    registerResponseAdapter({
+      name: 'broken',
+      target: 'requirements',
+      matches: () => true,
+      select: () => {
+        throw new Error('bad shape')
+      },
+    })
+
+    expect(adaptManagerResult({}).report.rejected).toEqual([
+      { target: 'requirements', adapter: 'broken', issues: [{ path: '(root)', message: 'bad shape' }] },
+    ])
+  })
+})
@@ -0,0 +1,366 @@
+/**
+ * Response Adapters
+ *
+ * Maps the many shapes the Policy Creation Manager returns onto the canonical
+ * PolicyResult, ComplianceResult and PolicyRequirements. Each adapter declares
+ * which shape it recognizes and where the data lives; the registry tries them
+ * in order, validates the candidate against the target schema and reports
+ * which adapter matched and which fields had to be defaulted.
+ *
+ * Support a new backend shape by registering an adapter rather than editing
+ * the page.
+ *
+ * @example
+ * ```typescript
+ * const { policy, compliance, requirements, report } = adaptManagerResult(agentResult)
+ * console.log(formatAdapterReport(report))
+ * // policy: sub-agent: Policy Drafting Agent; compliance: manager: compliance_review (defaulted final_assessment)
+ *
+ * registerResponseAdapter({
+ *   name: 'manager: draft',
+ *   target: 'policy',
+ *   matches: (result) => !!result.draft?.policy_document,
+ *   select: (result) => result.draft
+ * })
+ * ```
+ */
+
+import type { ZodType } from 'zod'
+import {
+  validateAgentResult,
+  PolicyResultSchema,
+  ComplianceResultSchema,
+  PolicyRequirementsSchema,
+  type ValidationIssue
+} from '@/lib/agent-schemas'
+import type { PolicyResult, ComplianceResult, PolicyRequirements } from '@/types/policy'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AdapterTarget = 'policy' | 'compliance' | 'requirements'
+
+export interface ResponseAdapter {
+  /** Shown in the diagnostic report, e.g. "manager: compliance_review" */
+  name: string
+  /** Which canonical result the adapter produces */
+  target: AdapterTarget
+  /** Whether the manager output has the shape this adapter reads */
+  matches: (result: Record<string, any>) => boolean
+  /** The candidate in canonical field names; validation and coercion happen afterwards */
+  select: (result: Record<string, any>) => unknown
+}
+
+export interface AdapterMatch {
+  target: AdapterTarget
+  adapter: string
+  /** Paths that were missing and filled with defaults */
+  defaulted: string[]
+}
+
+export interface AdapterRejection {
+  target: AdapterTarget
+  adapter: string
+  issues: ValidationIssue[]
+}
+
+export interface AdapterReport {
+  matched: AdapterMatch[]
+  /** Adapters that recognized the shape but whose candidate failed validation */
+  rejected: AdapterRejection[]
+  /** Targets no adapter could produce */
+  unmatched: AdapterTarget[]
+}
+
+export interface AdaptedManagerResult {
+  policy: PolicyResult | null
+  compliance: ComplianceResult | null
+  requirements: PolicyRequirements | null
+  report: AdapterReport
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const TARGETS: AdapterTarget[] = ['policy', 'compliance', 'requirements']
+
+const SCHEMAS: Record<AdapterTarget, ZodType<unknown>> = {
+  policy: PolicyResultSchema,
+  compliance: ComplianceResultSchema,
+  requirements: PolicyRequirementsSchema,
+}
+
+/** Values the UI relies on, filled in whatever adapter matched */
+const DEFAULTS: Record<AdapterTarget, Record<string, () => unknown>> = {
+  policy: {
+    'policy_document.effective_date': () => new Date().toISOString().split('T')[0],
+    'policy_document.review_cycle': () => 'Annually',
+  },
+  compliance: {
+    final_assessment: () => 'Policy requires review and updates.',
+  },
+  requirements: {},
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === ''
+
+const getSubAgentResults = (result: Record<string, any>): any[] => {
+  const list = result.sub_agent_results || result.subAgentResults
+  return Array.isArray(list) ? list : []
+}
+
+/**
+ * A `critical_issues` entry as a gap, with the defaults older reviews were shown with
+ */
+const toLegacyGap = (issue: any) =>
+  typeof issue === 'string'
+    ? { gap_description: issue, severity: 'high', affected_section: 'General', legal_risk: 'Requires immediate attention' }
+    : { severity: 'high', affected_section: 'General', legal_risk: 'Requires immediate attention', ...issue }
+
+/**
+ * A plain-string (or partial) recommendation in the canonical shape
+ */
+const toLegacyRecommendation = (rec: any) =>
+  typeof rec === 'string'
+    ? { issue: rec, recommendation: rec, priority: 'high', implementation_steps: [rec] }
+    : { priority: 'high', implementation_steps: [], ...rec }
+
+/**
+ * Output of the first sub-agent whose name contains one of the keywords,
+ * unwrapped from its own `{ status, result }` envelope
+ */
+function findSubAgentOutput(result: Record<string, any>, keywords: string[]): Record<string, any> | null {
+  const agent = getSubAgentResults(result).find(entry => {
+    const name = String(entry?.agent_name || '').toLowerCase()
+    return keywords.some(keyword => name.includes(keyword))
+  })
+  if (!isPlainObject(agent?.output)) return null
+  return isPlainObject(agent.output.result) ? agent.output.result : agent.output
+}
+
+/**
+ * Fill missing values at dotted paths in a copy of the candidate, which may be
+ * part of the raw response (shared through the response cache); returns the
+ * copy and the paths that were filled
+ */
+function applyDefaults(
+  candidate: Record<string, any>,
+  defaults: Record<string, () => unknown>
+): { value: Record<string, any>; applied: string[] } {
+  const value = structuredClone(candidate)
+  const applied: string[] = []
+
+  for (const [path, fill] of Object.entries(defaults)) {
+    const keys = path.split('.')
+    const last = keys.pop() as string
+    let target = value
+    for (const key of keys) {
+      if (!isPlainObject(target[key])) target[key] = {}
+      target = target[key]
+    }
+    if (isMissing(target[last])) {
+      target[last] = fill()
+      applied.push(path)
+    }
+  }
+
+  return { value, applied }
+}
+
+/**
+ * Paths present in the validated output but missing from the candidate,
+ * i.e. filled in by the schema's coercions
+ */
+function findDefaultedPaths(candidate: unknown, output: unknown, path = ''): string[] {
+  if (!isPlainObject(output)) return []
+
+  return Object.entries(output).flatMap(([key, value]) => {
+    const childPath = path ? `${path}.${key}` : key
+    const source = isPlainObject(candidate) ? candidate[key] : undefined
+    if ((source === undefined || source === null) && value !== undefined) return [childPath]
+    return findDefaultedPaths(source, value, childPath)
+  })
+}
+
+// =============================================================================
+// Built-in Adapters
+// =============================================================================
+
+const DRAFTING_AGENT = ['policy drafting', 'drafting']
+const COMPLIANCE_AGENT = ['compliance', 'checker']
+const REQUIREMENTS_AGENT = ['requirements', 'analyst']
+
+const looksLikeRequirements = (value: unknown): value is Record<string, any> =>
+  isPlainObject(value) && ('key_provisions' in value || ('scope' in value && 'target_audience' in value))
+
+/** Tried in order; the first adapter whose candidate validates wins */
+const BUILT_IN_ADAPTERS: ResponseAdapter[] = [
+  {
+    name: 'sub-agent: Policy Drafting Agent',
+    target: 'policy',
+    matches: (result) => isPlainObject(findSubAgentOutput(result, DRAFTING_AGENT)?.policy_document),
+    select: (result) => findSubAgentOutput(result, DRAFTING_AGENT),
+  },
+  {
+    // The manager flattens policy_title and formatting_notes into the document
+    name: 'manager: policy_document',
+    target: 'policy',
+    matches: (result) => isPlainObject(result.policy_document),
+    select: ({ policy_document: document, policy_title }) => ({
+      policy_title: document.policy_title || policy_title,
+      policy_document: document,
+      formatting_notes: document.formatting_notes,
+    }),
+  },
+  {
+    name: 'sub-agent: Compliance Checker Agent',
+    target: 'compliance',
+    matches: (result) => {
+      const output = findSubAgentOutput(result, COMPLIANCE_AGENT)
+      return !!output && ('overall_score' in output || 'compliance_status' in output)
+    },
+    select: (result) => findSubAgentOutput(result, COMPLIANCE_AGENT),
+  },
+  {
+    // Older manager runs report critical_issues and plain-string recommendations
+    name: 'manager: compliance_review',
+    target: 'compliance',
+    matches: (result) => isPlainObject(result.compliance_review),
+    select: ({ compliance_review: review }) => ({
+      ...review,
+      identified_gaps: review.identified_gaps || review.critical_issues?.map(toLegacyGap),
+      remediation_recommendations: (review.remediation_recommendations || review.recommendations)?.map(toLegacyRecommendation),
+    }),
+  },
+  {
+    name: 'manager: requirements_analysis',
+    target: 'requirements',
+    matches: (result) => looksLikeRequirements(result.requirements_analysis || result.requirements),
+    select: (result) => result.requirements_analysis || result.requirements,
+  },
+  {
+    name: 'sub-agent: Requirements Analyst Agent',
+    target: 'requirements',
+    matches: (result) => looksLikeRequirements(findSubAgentOutput(result, REQUIREMENTS_AGENT)),
+    select: (result) => findSubAgentOutput(result, REQUIREMENTS_AGENT),
+  },
+]
+
+let adapters: ResponseAdapter[] = [...BUILT_IN_ADAPTERS]
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export function getResponseAdapters(): ResponseAdapter[] {
+  return adapters
+}
+
+/**
+ * Add an adapter. By default it is tried before the existing ones so a new
+ * shape takes priority. Returns a function that removes it again.
+ */
+export function registerResponseAdapter(
+  adapter: ResponseAdapter,
+  position: 'first' | 'last' = 'first'
+): () => void {
+  adapters = adapters.filter(existing => existing.name !== adapter.name)
+  adapters = position === 'first' ? [adapter, ...adapters] : [...adapters, adapter]
+  return () => {
+    adapters = adapters.filter(existing => existing !== adapter)
+  }
+}
+
+/**
+ * Restore the built-in adapters only
+ */
+export function resetResponseAdapters(): void {
+  adapters = [...BUILT_IN_ADAPTERS]
+}
+
+// =============================================================================
+// Adapting
+// =============================================================================
+
+function adaptTarget(
+  result: Record<string, any>,
+  target: AdapterTarget,
+  report: AdapterReport
+): unknown | null {
+  for (const adapter of adapters) {
+    if (adapter.target !== target) continue
+
+    let candidate: unknown
+    try {
+      if (!adapter.matches(result)) continue
+      candidate = adapter.select(result)
+    } catch (error) {
+      report.rejected.push({
+        target,
+        adapter: adapter.name,
+        issues: [{ path: '(root)', message: error instanceof Error ? error.message : String(error) }],
+      })
+      continue
+    }
+
+    const { value: withDefaults, applied } = isPlainObject(candidate)
+      ? applyDefaults(candidate, DEFAULTS[target])
+      : { value: candidate, applied: [] as string[] }
+
+    const validated = validateAgentResult(SCHEMAS[target], withDefaults)
+    if (!validated.success) {
+      report.rejected.push({ target, adapter: adapter.name, issues: validated.validation_error.issues })
+      continue
+    }
+
+    const defaulted = [...applied, ...findDefaultedPaths(withDefaults, validated.data)]
+    report.matched.push({ target, adapter: adapter.name, defaulted })
+    return validated.data
+  }
+
+  report.unmatched.push(target)
+  return null
+}
+
+/**
+ * Extract the canonical policy, compliance report and requirements from a
+ * Policy Creation Manager result
+ */
+export function adaptManagerResult(result: unknown): AdaptedManagerResult {
+  const report: AdapterReport = { matched: [], rejected: [], unmatched: [] }
+
+  if (!isPlainObject(result)) {
+    return { policy: null, compliance: null, requirements: null, report: { ...report, unmatched: [...TARGETS] } }
+  }
+
+  return {
+    policy: adaptTarget(result, 'policy', report) as PolicyResult | null,
+    compliance: adaptTarget(result, 'compliance', report) as ComplianceResult | null,
+    requirements: adaptTarget(result, 'requirements', report) as PolicyRequirements | null,
+    report,
+  }
+}
+
+/**
+ * One-line summary of a report for logs
+ */
+export function formatAdapterReport(report: AdapterReport): string {
+  const parts = report.matched.map(match => {
+    const defaulted = match.defaulted.length > 0 ? ` (defaulted ${match.defaulted.join(', ')})` : ''
+    return `${match.target}: ${match.adapter}${defaulted}`
+  })
+  for (const rejection of report.rejected) {
+    parts.push(`${rejection.target}: rejected ${rejection.adapter} (${rejection.issues.map(i => i.path).join(', ')})`)
+  }
+  if (report.unmatched.length > 0) parts.push(`no match for ${report.unmatched.join(', ')}`)
+  return parts.join('; ')
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { runAgentPipeline, resetAgentMiddleware, type AgentCallContext } from '@/lib/agent-middleware'
+import {
+  configureResponseCache,
+  clearResponseCache,
+  createMemoryCacheBackend,
+  getCacheKey,
+  invalidateCachedResponse,
+  type CacheBackend
+} from '@/lib/response-cache'
+import type { AIAgentResponse, CallAIAgentOptions } from '@/utils/aiAgent'
+
+let calls = 0
+
+const call = (options: CallAIAgentOptions = { cache: true }, message = 'Draft a leave policy'): AgentCallContext => {
+  calls++
+  return {
+    kind: 'chat',
+    agent_id: 'agent-1',
+    message,
+    user_id: 'user-1',
+    session_id: `session-${calls}`,
+    request_id: `request-${calls}`,
+    headers: {},
+    options,
+    state: {},
+  }
+}
+
+const success = (ctx: AgentCallContext): AIAgentResponse => ({
+  success: true,
+  response: { status: 'success', result: { text: `Answer to ${ctx.request_id}` } },
+  session_id: ctx.session_id,
+  request_id: ctx.request_id,
+})
+
+const cancelled = (ctx: AgentCallContext): AIAgentResponse => ({
+  success: false,
+  response: { status: 'error', result: {}, message: 'cancelled' },
+  request_id: ctx.request_id,
+  abort_reason: 'cancelled',
+})
+
+/** A send whose responses are released by the test */
+function controlledSend() {
+  const sent: Array<{ ctx: AgentCallContext; respond: (response: AIAgentResponse) => void }> = []
+  const send = (ctx: AgentCallContext) => new Promise<AIAgentResponse>(respond => sent.push({ ctx, respond }))
+  return { sent, send }
+}
+
+/** Let pending hooks and backend reads settle */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+let backend: CacheBackend
+
+beforeEach(async () => {
+  calls = 0
+  backend = createMemoryCacheBackend()
+  configureResponseCache({ backend, default_ttl_ms: 60_000 })
+  await clearResponseCache()
+})
+
+afterEach(() => {
+  resetAgentMiddleware()
+  vi.restoreAllMocks()
+})
+
+describe('responseCacheMiddleware', () => {
+  it('stores a miss and serves hits as copies with the current call IDs', async () => {
+    const send = vi.fn(async (ctx: AgentCallContext) => success(ctx))
+    const first = await runAgentPipeline(call(), send)
+    const hit = await runAgentPipeline(call({ cache: true }, '  Draft a   leave policy '), send)
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(first.cache_status).toBe('miss')
+    expect(hit).toMatchObject({ cache_status: 'hit', session_id: 'session-2', request_id: 'request-2' })
+    expect(hit.response.result).toEqual({ text: 'Answer to request-1' })
+
+    hit.response.result.text = 'changed by a caller'
+    const again = await runAgentPipeline(call(), send)
+    expect(again.response.result.text).toBe('Answer to request-1')
+  })
+
+  it('passes calls without cache, streams and calls with assets straight through', async () => {
+    const send = vi.fn(async (ctx: AgentCallContext) => success(ctx))
+    await runAgentPipeline(call({}), send)
+    await runAgentPipeline({ ...call(), kind: 'stream' }, send)
+    await runAgentPipeline(call({ cache: true, assets: ['asset-1'] }), send)
+    const last = await runAgentPipeline(call({}), send)
+
+    expect(send).toHaveBeenCalledTimes(4)
+    expect(last.cache_status).toBeUndefined()
+  })
+
+  it('does not store failed responses', async () => {
+    const send = vi.fn(async (ctx: AgentCallContext): Promise<AIAgentResponse> => ({
+      success: true,
+      response: { status: 'error', result: {}, message: 'Agent failed' },
+      request_id: ctx.request_id,
+    }))
+    await runAgentPipeline(call(), send)
+    await runAgentPipeline(call(), send)
+
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  it('fetches fresh with bypass_cache and stores the result', async () => {
+    const send = vi.fn(async (ctx: AgentCallContext) => success(ctx))
+    await runAgentPipeline(call(), send)
+    const bypass = await runAgentPipeline(call({ cache: true, bypass_cache: true }), send)
+    const hit = await runAgentPipeline(call(), send)
+
+    expect(bypass.cache_status).toBe('bypass')
+    expect(hit.response.result).toEqual({ text: 'Answer to request-2' })
+  })
+
+  it('shares one request between concurrent identical calls', async () => {
+    const { sent, send } = controlledSend()
+    const first = runAgentPipeline(call(), send)
+    const second = runAgentPipeline(call(), send)
+    await settle()
+
+    expect(sent).toHaveLength(1)
+    sent[0].respond(success(sent[0].ctx))
+
+    expect((await first).cache_status).toBe('miss')
+    expect(await second).toMatchObject({ cache_status: 'shared', session_id: 'session-2', request_id: 'request-2' })
+  })
+
+  it('lets a waiter cancel without cancelling the shared request', async () => {
+    const { sent, send } = controlledSend()
+    const controller = new AbortController()
+    const first = runAgentPipeline(call(), send)
+    const second = runAgentPipeline(call({ cache: true, signal: controller.signal }), send)
+    await settle()
+
+    controller.abort()
+    expect(await second).toMatchObject({ success: false, abort_reason: 'cancelled' })
+
+    sent[0].respond(success(sent[0].ctx))
+    expect((await first).success).toBe(true)
+  })
+
+  it('ends a wait at the waiter\'s own timeout', async () => {
+    const { sent, send } = controlledSend()
+    const first = runAgentPipeline(call(), send)
+    const second = runAgentPipeline(call({ cache: true, timeout_ms: 10 }), send)
+
+    expect(await second).toMatchObject({ success: false, abort_reason: 'timeout' })
+    sent[0].respond(success(sent[0].ctx))
+    await first
+  })
+
+  it('does not share an aborted call; its waiters send their own request', async () => {
+    const { sent, send } = controlledSend()
+    const first = runAgentPipeline(call(), send)
+    const second = runAgentPipeline(call(), send)
+    await settle()
+
+    sent[0].respond(cancelled(sent[0].ctx))
+    expect((await first).abort_reason).toBe('cancelled')
+    await settle()
+
+    expect(sent).toHaveLength(2)
+    sent[1].respond(success(sent[1].ctx))
+    expect(await second).toMatchObject({ success: true, cache_status: 'miss', request_id: 'request-2' })
+  })
+
+  it('deletes an expired entry when it is read', async () => {
+    const send = vi.fn(async (ctx: AgentCallContext) => success(ctx))
+    const remove = vi.spyOn(backend, 'delete')
+    await runAgentPipeline(call({ cache: { ttl_ms: 1000 } }), send)
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000)
+    const fresh = await runAgentPipeline(call({ cache: { ttl_ms: 1000 } }), send)
+
+    expect(remove).toHaveBeenCalledTimes(1)
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(fresh.cache_status).toBe('miss')
+  })
+
+  it('forgets an invalidated entry', async () => {
+    const send = vi.fn(async (ctx: AgentCallContext) => success(ctx))
+    await runAgentPipeline(call(), send)
+    await invalidateCachedResponse({ agent_id: 'agent-1', message: 'Draft a leave policy', user_id: 'user-1' })
+    await runAgentPipeline(call(), send)
+
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  it('keys pinned sessions apart from fresh ones', () => {
+    const parts = { agent_id: 'agent-1', message: 'Hi', user_id: 'user-1' }
+    expect(getCacheKey({ ...parts, message: ' Hi ' })).toBe(getCacheKey(parts))
+    expect(getCacheKey({ ...parts, session_id: 'pinned' })).not.toBe(getCacheKey(parts))
+  })
+})
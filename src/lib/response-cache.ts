@@ -0,0 +1,402 @@
+/**
+ * Response Cache
+ *
+ * Opt-in caching for agent calls. Identical calls (same agent, message after
+ * whitespace normalization, user and session) are answered from the cache
+ * until their TTL runs out, and concurrent identical calls share one request
+ * instead of each paying for a run. Only successful responses are stored,
+ * and a call that was cancelled or timed out is not shared: its waiters send
+ * their own request. A waiter still honors its own `signal` and `timeout_ms`.
+ * Runs as the first agent middleware (see agent-middleware.ts).
+ *
+ * Only callAIAgent calls are cached. streamAIAgent calls (such as the Policy
+ * Creation Manager runs in Home) always go out: their callers follow the run
+ * through `onEvent`, which a stored response cannot replay.
+ *
+ * Backends: in-memory (default, per tab, LRU-bounded) or IndexedDB (survives
+ * reloads; expired entries are swept when the database opens). Expired entries
+ * are also deleted when read. Choose with VITE_AGENT_CACHE_BACKEND or configureResponseCache().
+ *
+ * @example
+ * ```typescript
+ * await callAIAgent(message, agentId, { cache: true })                 // default TTL
+ * await callAIAgent(message, agentId, { cache: { ttl_ms: 60_000 } })
+ * await callAIAgent(message, agentId, { cache: true, bypass_cache: true }) // fetch fresh, store it
+ *
+ * configureResponseCache({ backend: 'indexeddb', default_ttl_ms: 3_600_000 })
+ * ```
+ */
+
+import type { AgentCallContext, AgentMiddleware } from '@/lib/agent-middleware'
+import { createRequestSignal, getAbortMessage, type AbortReason } from '@/lib/request-signal'
+import type { AIAgentResponse } from '@/utils/aiAgent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CacheKeyParts {
+  agent_id: string
+  message: string
+  user_id?: string
+  /** Only when the caller pins a session; fresh sessions share entries */
+  session_id?: string
+}
+
+export interface CacheEntry<T = unknown> {
+  /** The key parts, compared on read so a hash collision can never return another call's response */
+  parts: CacheKeyParts
+  value: T
+  stored_at: number
+  expires_at: number
+}
+
+export interface CacheBackend {
+  get: (key: string) => Promise<CacheEntry | null>
+  set: (key: string, entry: CacheEntry) => Promise<void>
+  delete: (key: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+export type CacheBackendName = 'memory' | 'indexeddb'
+
+export interface CacheOptions {
+  /** Time to live in milliseconds (default getResponseCacheConfig().default_ttl_ms) */
+  ttl_ms?: number
+  /** Share one request between concurrent identical calls (default true) */
+  dedupe?: boolean
+}
+
+export interface CachedCallOptions {
+  /** Enable caching for this call; `true` uses the defaults. Ignored by streamAIAgent. */
+  cache?: boolean | CacheOptions
+  /** Skip the lookup and in-flight sharing; the fresh response is still stored */
+  bypass_cache?: boolean
+}
+
+/** How a call was answered */
+export type CacheStatus = 'hit' | 'miss' | 'shared' | 'bypass'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_TTL_MS = 10 * 60_000
+const MAX_MEMORY_ENTRIES = 200
+
+const DB_NAME = 'hr-policy-manager-cache'
+const STORE_NAME = 'agent-responses'
+
+let defaultTtlMs = DEFAULT_TTL_MS
+let backend: CacheBackend | null = null
+let backendName: CacheBackendName = import.meta.env.VITE_AGENT_CACHE_BACKEND === 'indexeddb' ? 'indexeddb' : 'memory'
+
+/** Resolves with the response to share, or null when the call was aborted */
+const inFlight = new Map<string, Promise<AIAgentResponse | null>>()
+
+export function getResponseCacheConfig(): { backend: CacheBackendName; default_ttl_ms: number } {
+  return { backend: backendName, default_ttl_ms: defaultTtlMs }
+}
+
+/**
+ * Change the backend or default TTL for all later calls. Switching backends
+ * does not copy entries across.
+ */
+export function configureResponseCache(options: {
+  backend?: CacheBackendName | CacheBackend
+  default_ttl_ms?: number
+}): void {
+  if (options.default_ttl_ms !== undefined) defaultTtlMs = Math.max(0, options.default_ttl_ms)
+  if (typeof options.backend === 'string') {
+    backendName = options.backend
+    backend = null
+  } else if (options.backend) {
+    backend = options.backend
+  }
+}
+
+function getBackend(): CacheBackend {
+  backend ??= backendName === 'indexeddb' && typeof indexedDB !== 'undefined'
+    ? createIndexedDBCacheBackend()
+    : createMemoryCacheBackend()
+  return backend
+}
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+/**
+ * Collapse whitespace so reformatted but identical prompts share an entry
+ */
+export const normalizeMessage = (message: string) => message.replace(/\s+/g, ' ').trim()
+
+/** 53-bit string hash (cyrb53); keys stay short for IndexedDB */
+function hash(text: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+const normalizeParts = (parts: CacheKeyParts): CacheKeyParts => ({
+  agent_id: parts.agent_id,
+  message: normalizeMessage(parts.message),
+  user_id: parts.user_id || '',
+  session_id: parts.session_id || '',
+})
+
+const sameParts = (a: CacheKeyParts, b: CacheKeyParts) =>
+  a.agent_id === b.agent_id && a.message === b.message && a.user_id === b.user_id && a.session_id === b.session_id
+
+export function getCacheKey(parts: CacheKeyParts): string {
+  const normalized = normalizeParts(parts)
+  return `${normalized.agent_id}:${hash(JSON.stringify(normalized))}`
+}
+
+// =============================================================================
+// Backends
+// =============================================================================
+
+/**
+ * Per-tab cache; evicts the least recently used entry past `max_entries`
+ */
+export function createMemoryCacheBackend(max_entries = MAX_MEMORY_ENTRIES): CacheBackend {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      // Re-insert to mark as most recently used
+      entries.delete(key)
+      entries.set(key, entry)
+      return entry
+    },
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > max_entries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    },
+    async delete(key) {
+      entries.delete(key)
+    },
+    async clear() {
+      entries.clear()
+    },
+  }
+}
+
+/**
+ * Delete the entries whose TTL has run out (IndexedDB keeps them otherwise)
+ */
+function sweepExpired(db: IDBDatabase): void {
+  try {
+    const cursor = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor()
+    const now = Date.now()
+    cursor.onsuccess = () => {
+      if (!cursor.result) return
+      if ((cursor.result.value as CacheEntry).expires_at <= now) cursor.result.delete()
+      cursor.result.continue()
+    }
+    cursor.onerror = () => console.warn('[ResponseCache] IndexedDB sweep failed:', cursor.error)
+  } catch (error) {
+    console.warn('[ResponseCache] IndexedDB sweep failed:', error)
+  }
+}
+
+/**
+ * Cache in IndexedDB so entries survive reloads. Storage errors are logged
+ * and treated as misses; the cache never fails a call.
+ */
+export function createIndexedDBCacheBackend(db_name = DB_NAME): CacheBackend {
+  let database: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(db_name, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => {
+        sweepExpired(request.result)
+        resolve(request.result)
+      }
+      request.onerror = () => reject(request.error)
+    })
+    return database
+  }
+
+  async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest, fallback: T): Promise<T> {
+    try {
+      const db = await open()
+      return await new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+        request.onsuccess = () => resolve((request.result ?? fallback) as T)
+        request.onerror = () => reject(request.error)
+      })
+    } catch (error) {
+      console.warn('[ResponseCache] IndexedDB error:', error)
+      return fallback
+    }
+  }
+
+  return {
+    get: (key) => run<CacheEntry | null>('readonly', store => store.get(key), null),
+    set: (key, entry) => run<void>('readwrite', store => store.put(entry, key), undefined),
+    delete: (key) => run<void>('readwrite', store => store.delete(key), undefined),
+    clear: () => run<void>('readwrite', store => store.clear(), undefined),
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+interface PendingCall {
+  key: string
+  parts: CacheKeyParts
+  ttl_ms: number
+  /** Set when concurrent identical calls wait on this one */
+  shared?: Promise<AIAgentResponse | null>
+  resolve?: (response: AIAgentResponse | null) => void
+}
+
+/** Only complete, successful answers are worth repeating */
+const isCacheable = (response: AIAgentResponse) => response.success && response.response.status !== 'error'
+
+/**
+ * A stored or shared response as this call's own: a copy (so no caller can
+ * change another's) carrying this call's session and request IDs
+ */
+const asResponseFor = (response: AIAgentResponse, ctx: AgentCallContext, cache_status: CacheStatus): AIAgentResponse => ({
+  ...structuredClone(response),
+  session_id: ctx.session_id,
+  request_id: ctx.request_id,
+  cache_status,
+})
+
+/** Same shape as the response of an aborted callAIAgent call */
+const abortedResponse = (reason: AbortReason, timeoutMs?: number): AIAgentResponse => {
+  const errorMsg = getAbortMessage(reason, timeoutMs)
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message: errorMsg },
+    error: errorMsg,
+    abort_reason: reason,
+  }
+}
+
+/**
+ * Wait for a shared call, unless this caller cancels or its own timeout runs
+ * out first
+ */
+async function waitForShared(shared: Promise<AIAgentResponse | null>, ctx: AgentCallContext) {
+  const { signal, timeout_ms } = ctx.options
+  const request = createRequestSignal({ signal, timeout_ms })
+  const aborted = new Promise<AIAgentResponse>(resolve => {
+    const onAbort = () => resolve(abortedResponse(request.abortReason() || 'cancelled', timeout_ms))
+    if (request.signal.aborted) onAbort()
+    else request.signal.addEventListener('abort', onAbort, { once: true })
+  })
+
+  try {
+    return await Promise.race([shared, aborted])
+  } finally {
+    request.cleanup()
+  }
+}
+
+/**
+ * Caching as an agent middleware (registered by default, see agent-middleware.ts).
+ * Calls without `options.cache`, streaming calls and calls with `assets` pass
+ * straight through.
+ */
+export const responseCacheMiddleware: AgentMiddleware = {
+  name: 'response-cache',
+
+  async beforeRequest(ctx) {
+    const { cache, bypass_cache } = ctx.options
+    // Assets are not part of the key, so calls with files are never cached
+    if (ctx.kind !== 'chat' || !cache || ctx.options.assets?.length) return
+
+    const { ttl_ms = defaultTtlMs, dedupe = true } = cache === true ? {} : cache
+    const parts = normalizeParts({
+      agent_id: ctx.agent_id,
+      message: ctx.message,
+      user_id: ctx.user_id,
+      session_id: ctx.options.session_id,
+    })
+    const key = getCacheKey(parts)
+
+    if (!bypass_cache) {
+      const entry = await getBackend().get(key)
+      if (entry && entry.expires_at <= Date.now()) {
+        await getBackend().delete(key)
+      } else if (entry && sameParts(entry.parts, parts)) {
+        return asResponseFor(entry.value as AIAgentResponse, ctx, 'hit')
+      }
+
+      // An aborted shared call resolves null; wait on whoever picked it up next
+      let shared = dedupe ? inFlight.get(key) : undefined
+      while (shared) {
+        const response = await waitForShared(shared, ctx)
+        if (response?.abort_reason) return response
+        if (response) return asResponseFor(response, ctx, 'shared')
+        shared = inFlight.get(key)
+      }
+    }
+
+    const pending: PendingCall = { key, parts, ttl_ms }
+    if (dedupe) {
+      pending.shared = new Promise<AIAgentResponse | null>(resolve => { pending.resolve = resolve })
+      inFlight.set(key, pending.shared)
+    }
+    ctx.state[responseCacheMiddleware.name] = pending
+  },
+
+  async afterResponse(response, ctx) {
+    return settle(response, ctx, ctx.state[responseCacheMiddleware.name] as PendingCall | undefined)
+  },
+
+  async onError(response, ctx) {
+    return settle(response, ctx, ctx.state[responseCacheMiddleware.name] as PendingCall | undefined)
+  },
+}
+
+/**
+ * Hand the response to callers waiting on the same call (unless it was
+ * aborted; they send their own) and store it
+ */
+async function settle(response: AIAgentResponse, ctx: AgentCallContext, pending: PendingCall | undefined) {
+  if (!pending) return
+
+  if (pending.shared) {
+    pending.resolve(response.abort_reason ? null : response)
+    if (inFlight.get(pending.key) === pending.shared) inFlight.delete(pending.key)
+  }
+  if (pending.ttl_ms > 0 && isCacheable(response)) {
+    const now = Date.now()
+    await getBackend().set(pending.key, { parts: pending.parts, value: structuredClone(response), stored_at: now, expires_at: now + pending.ttl_ms })
+  }
+
+  return { ...response, cache_status: ctx.options.bypass_cache ? 'bypass' : 'miss' } as AIAgentResponse
+}
+
+/**
+ * Forget the cached response for one call
+ */
+export async function invalidateCachedResponse(parts: CacheKeyParts): Promise<void> {
+  await getBackend().delete(getCacheKey(parts))
+}
+
+export async function clearResponseCache(): Promise<void> {
+  inFlight.clear()
+  await getBackend().clear()
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { fetchWithRetry, getRetryDelay, parseRetryAfter, resolveRetryPolicy, type RetryPolicy, type RetryState } from '@/lib/retry-policy'
+import { setAgentTransport, resetAgentTransport } from '@/lib/agent-transport'
+
+const policy: RetryPolicy = { max_attempts: 3, base_delay_ms: 0, max_delay_ms: 1000, jitter: 0 }
+
+/** Transport that answers with the given statuses (or throws for 'network') in order */
+function scripted(steps: Array<number | 'network'>, headers: Record<string, string> = {}) {
+  const calls: RequestInit[] = []
+  setAgentTransport(async (_url, init) => {
+    const step = steps[Math.min(calls.length, steps.length - 1)]
+    calls.push(init)
+    if (step === 'network') throw new TypeError('Failed to fetch')
+    return new Response(`status ${step}`, { status: step, headers })
+  })
+  return calls
+}
+
+afterEach(() => resetAgentTransport())
+
+describe('getRetryDelay', () => {
+  it('doubles the base delay on every retry up to the maximum', () => {
+    const exponential = { ...policy, base_delay_ms: 400 }
+    expect([1, 2, 3, 4].map(retry => getRetryDelay(retry, exponential))).toEqual([400, 800, 1000, 1000])
+  })
+
+  it('caps Retry-After at max_delay_ms', () => {
+    expect(getRetryDelay(1, policy, 250)).toBe(250)
+    expect(getRetryDelay(1, policy, 60_000)).toBe(1000)
+  })
+
+  it('keeps jittered delays within the jitter share', () => {
+    const jittered = { ...policy, base_delay_ms: 1000, jitter: 0.5 }
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(1, jittered)
+      expect(delay).toBeGreaterThanOrEqual(500)
+      expect(delay).toBeLessThanOrEqual(1000)
+    }
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000)
+    expect(parseRetryAfter(new Date(Date.now() - 5000).toUTCString())).toBe(0)
+    expect(parseRetryAfter('soon')).toBeNull()
+    expect(parseRetryAfter(null)).toBeNull()
+  })
+})
+
+describe('resolveRetryPolicy', () => {
+  it('makes a single attempt when retries are disabled', () => {
+    expect(resolveRetryPolicy(false).max_attempts).toBe(1)
+    expect(resolveRetryPolicy({ max_attempts: 5 }).max_attempts).toBe(5)
+  })
+})
+
+describe('fetchWithRetry', () => {
+  it('retries server errors and network failures until a response succeeds', async () => {
+    const calls = scripted([503, 'network', 200])
+    const retries: RetryState[] = []
+    const response = await fetchWithRetry('/chat', { method: 'POST' }, { retry: policy, onRetry: state => retries.push(state) })
+
+    expect(response.status).toBe(200)
+    expect(calls).toHaveLength(3)
+    expect(retries.map(state => [state.attempt, state.reason])).toEqual([
+      [2, 'API returned status 503'],
+      [3, 'Failed to fetch'],
+    ])
+  })
+
+  it('returns client errors without retrying', async () => {
+    const calls = scripted([400, 200])
+    expect((await fetchWithRetry('/chat', {}, { retry: policy })).status).toBe(400)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('returns the last error response once attempts run out', async () => {
+    const calls = scripted([500])
+    expect((await fetchWithRetry('/chat', {}, { retry: policy })).status).toBe(500)
+    expect(calls).toHaveLength(3)
+  })
+
+  it('rethrows the last network error once attempts run out', async () => {
+    scripted(['network'])
+    await expect(fetchWithRetry('/chat', {}, { retry: policy })).rejects.toThrow('Failed to fetch')
+  })
+
+  it('returns the response instead of waiting when Retry-After exceeds max_delay_ms', async () => {
+    const calls = scripted([429, 200], { 'Retry-After': '120' })
+    const response = await fetchWithRetry('/chat', {}, { retry: policy })
+
+    expect(response.status).toBe(429)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('waits for a Retry-After within max_delay_ms', async () => {
+    scripted([429, 200], { 'Retry-After': '0' })
+    const retries: RetryState[] = []
+    const response = await fetchWithRetry('/chat', {}, { retry: policy, onRetry: state => retries.push(state) })
+
+    expect(response.status).toBe(200)
+    expect(retries[0].delay_ms).toBe(0)
+  })
+
+  it('does not retry once the signal has aborted', async () => {
+    const controller = new AbortController()
+    const calls: RequestInit[] = []
+    setAgentTransport(async (_url, init) => {
+      calls.push(init)
+      controller.abort()
+      throw new DOMException('Aborted', 'AbortError')
+    })
+
+    await expect(fetchWithRetry('/chat', { signal: controller.signal }, { retry: policy })).rejects.toThrow('Aborted')
+    expect(calls).toHaveLength(1)
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Retry Policy
+ *
+ * Retries transient failures of agent requests (network errors, 5xx, 429)
+ * with exponential backoff and jitter, honoring `Retry-After` up to the
+ * policy's `max_delay_ms` (a longer wait ends the retries). Every attempt
+ * of one logical call carries the same client request ID so the server can
+ * deduplicate retries.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetchWithRetry(url, init, {
+ *   signal: request.signal,
+ *   onRetry: (state) => console.log(`retrying (${state.attempt}/${state.max_attempts})`)
+ * })
+ * ```
+ */
+
+import { agentFetch } from '@/lib/agent-transport'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  max_attempts: number
+  /** Delay before the first retry; doubles on every further retry */
+  base_delay_ms: number
+  /** Upper bound for every delay; a longer Retry-After stops retrying */
+  max_delay_ms: number
+  /** Share of each delay that is randomized (0 = none, 1 = full jitter) */
+  jitter: number
+}
+
+export interface RetryState {
+  /** The attempt about to be made, starting at 2 for the first retry */
+  attempt: number
+  max_attempts: number
+  /** How long until that attempt starts */
+  delay_ms: number
+  /** What went wrong with the previous attempt */
+  reason: string
+}
+
+export interface RetryOptions {
+  /** Override parts of the default policy, or `false` to make a single attempt */
+  retry?: Partial<RetryPolicy> | false
+  /** Called before each retry */
+  onRetry?: (state: RetryState) => void
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const REQUEST_ID_HEADER = 'X-Client-Request-ID'
+
+let defaultPolicy: RetryPolicy = {
+  max_attempts: 3,
+  base_delay_ms: 1000,
+  max_delay_ms: 15_000,
+  jitter: 0.5,
+}
+
+export function getDefaultRetryPolicy(): RetryPolicy {
+  return defaultPolicy
+}
+
+/**
+ * Change the retry policy used by requests that do not pass their own
+ */
+export function setDefaultRetryPolicy(policy: Partial<RetryPolicy>): void {
+  defaultPolicy = { ...defaultPolicy, ...policy }
+}
+
+export function resolveRetryPolicy(retry?: Partial<RetryPolicy> | false): RetryPolicy {
+  if (retry === false) return { ...defaultPolicy, max_attempts: 1 }
+  return { ...defaultPolicy, ...retry }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Only server errors and rate limiting are worth retrying; other 4xx will
+ * fail the same way again
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  if (!isNaN(date)) return Math.max(0, date - Date.now())
+
+  return null
+}
+
+/**
+ * Delay before the given retry (1 = first retry)
+ */
+export function getRetryDelay(retry: number, policy: RetryPolicy, retryAfterMs: number | null = null): number {
+  if (retryAfterMs !== null) return Math.min(retryAfterMs, policy.max_delay_ms)
+
+  const exponential = Math.min(policy.max_delay_ms, policy.base_delay_ms * 2 ** (retry - 1))
+  const jitter = Math.min(1, Math.max(0, policy.jitter))
+  return Math.round(exponential * (1 - jitter * Math.random()))
+}
+
+/**
+ * Wait, but stop early (rejecting) if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// =============================================================================
+// Fetch With Retry
+// =============================================================================
+
+/**
+ * fetch() (through the agent transport) with retries. Resolves to the last response (which may still be an
+ * error status once attempts run out) and rethrows the last network error.
+ * Aborts are never retried.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const policy = resolveRetryPolicy(options.retry)
+  const signal = init.signal ?? undefined
+
+  for (let attempt = 1; ; attempt++) {
+    let reason: string
+    let retryAfterMs: number | null = null
+
+    try {
+      const response = await agentFetch(url, init)
+      if (!isRetryableStatus(response.status) || attempt >= policy.max_attempts) {
+        return response
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+      // The server wants a longer pause than we are willing to hold the UI for
+      if (retryAfterMs !== null && retryAfterMs > policy.max_delay_ms) return response
+
+      reason = `API returned status ${response.status}`
+      // Discard the failed body so the connection can be reused
+      response.body?.cancel().catch(() => undefined)
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.max_attempts) throw error
+      reason = error instanceof Error ? error.message : 'Network error'
+    }
+
+    const delay_ms = getRetryDelay(attempt, policy, retryAfterMs)
+    options.onRetry?.({ attempt: attempt + 1, max_attempts: policy.max_attempts, delay_ms, reason })
+    await sleep(delay_ms, signal)
+  }
+}
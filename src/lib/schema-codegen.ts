@@ -0,0 +1,402 @@
+/**
+ * Schema Codegen
+ *
+ * Turns the `response_schema` definitions in response_schemas/*.json into
+ * TypeScript interfaces and zod validators. Used by
+ * scripts/generate-agent-types.mjs and, for live responses, by
+ * agent_response_tester.ts. Keep it free of imports: the generator script
+ * compiles this one file on its own, without bundling.
+ *
+ * Definition format (as written in the schema files):
+ *   "string" | "number" | "boolean" | "any" | "object"   primitive or free-form value
+ *   "string (success|error)"                               string enum
+ *   "string (ISO)"                                         note, ignored
+ *   ["string"] / [{ ... }]                                 array of the single element
+ *   { "key": ..., "key?": ... }                            object; a trailing ? marks an optional key
+ *
+ * The schema files are copied from the agent platform and kept as they are.
+ * Fields the platform does not declare (e.g. optional keys, with their `?`)
+ * go in scripts/agent-schema-overrides.json and are merged in with
+ * applySchemaOverrides.
+ *
+ * @example
+ * ```typescript
+ * const fields = schemaToFields(schemaFile.response_schema.result)
+ * generateTypeScriptInterface(fields, 'ComplianceCheckerAgentResult', { exported: true })
+ * generateZodSchema(fields, 'ComplianceCheckerAgentResult')
+ * getAgentKey('compliance_checker_agent_response.json') // 'compliance_checker_agent'
+ * applySchemaOverrides({ a: 'string' }, { 'a?': 'string', b: 'number' }) // { 'a?': 'string', b: 'number' }
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null' | 'unknown'
+
+export interface ResponseFieldInfo {
+  /** Field name */
+  name: string
+  /** Detected type */
+  type: FieldType
+  /** Sample value (truncated for display) */
+  sampleValue: string
+  /** Path in response (e.g., "result.breakdown[0].amount") */
+  path: string
+  /** Is this field an array? */
+  isArray: boolean
+  /** Nested fields if object/array */
+  children?: ResponseFieldInfo[]
+  /** Element type of an array of primitives */
+  itemType?: FieldType
+  /** Allowed values of a string enum */
+  enumValues?: string[]
+  /** The key may be absent */
+  optional?: boolean
+}
+
+export type SchemaDefinition = string | SchemaDefinition[] | { [key: string]: SchemaDefinition }
+
+export interface InterfaceOptions {
+  /** Prefix the interface with `export` */
+  exported?: boolean
+  /** End members with `;` (default true) */
+  semicolons?: boolean
+}
+
+export interface SchemaFile {
+  /** File name inside response_schemas/, e.g. compliance_checker_agent_response.json */
+  file: string
+  agent_name: string
+  agent_id: string
+  agent_purpose?: string
+  description?: string
+  response_schema: { result?: SchemaDefinition; [key: string]: SchemaDefinition }
+}
+
+export interface GeneratedModules {
+  types: string
+  validators: string
+}
+
+// =============================================================================
+// Schema Definitions -> Fields
+// =============================================================================
+
+const PRIMITIVES: Record<string, FieldType> = {
+  string: 'string',
+  number: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+  null: 'null',
+  object: 'object',
+  array: 'array',
+  any: 'unknown',
+}
+
+const isDefinitionObject = (value: SchemaDefinition): value is { [key: string]: SchemaDefinition } =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Parse a primitive descriptor such as "string (success|error)"
+ */
+function parseDescriptor(descriptor: string): { type: FieldType; enumValues?: string[] } {
+  const match = descriptor.trim().match(/^(\w+)\s*(?:\((.*)\))?$/)
+  const type = (match && PRIMITIVES[match[1].toLowerCase()]) || 'unknown'
+  const note = match?.[2]
+
+  if (type === 'string' && note?.includes('|')) {
+    const values = note.split('|').map(v => v.trim())
+    if (values.every(v => /^[\w-]+$/.test(v))) return { type, enumValues: values }
+  }
+
+  return { type }
+}
+
+function describeField(name: string, definition: SchemaDefinition, path: string): ResponseFieldInfo {
+  const field: ResponseFieldInfo = { name, type: 'unknown', sampleValue: '', path, isArray: false }
+
+  if (typeof definition === 'string') {
+    return { ...field, ...parseDescriptor(definition), sampleValue: definition }
+  }
+
+  if (Array.isArray(definition)) {
+    const element = definition[0]
+    const arrayField: ResponseFieldInfo = { ...field, type: 'array', isArray: true, sampleValue: '[...]' }
+    if (element === undefined) return arrayField
+    if (isDefinitionObject(element)) return { ...arrayField, children: schemaToFields(element, `${path}[0]`) }
+    if (typeof element === 'string') return { ...arrayField, itemType: parseDescriptor(element).type }
+    return arrayField
+  }
+
+  return { ...field, type: 'object', sampleValue: '{...}', children: schemaToFields(definition, path) }
+}
+
+/**
+ * Merge an override into a schema definition: objects merge key by key, any
+ * other override replaces the definition. `key?` in the override replaces
+ * `key` (and the other way around), so a field can be marked optional.
+ */
+export function applySchemaOverrides(definition: SchemaDefinition, override: SchemaDefinition): SchemaDefinition {
+  if (!isDefinitionObject(definition) || !isDefinitionObject(override)) return override
+
+  const merged = { ...definition }
+  for (const [key, value] of Object.entries(override)) {
+    const name = key.endsWith('?') ? key.slice(0, -1) : key
+    const existingKey = [name, `${name}?`].find(candidate => candidate in merged)
+    const base = existingKey === undefined ? undefined : merged[existingKey]
+    if (existingKey !== undefined) delete merged[existingKey]
+    merged[key] = base === undefined ? value : applySchemaOverrides(base, value)
+  }
+  return merged
+}
+
+/**
+ * Convert an object definition from a schema file into field descriptions
+ */
+export function schemaToFields(definition: SchemaDefinition, parentPath: string = ''): ResponseFieldInfo[] {
+  if (!isDefinitionObject(definition)) return []
+
+  return Object.entries(definition).map(([key, value]) => {
+    const optional = key.endsWith('?')
+    const name = optional ? key.slice(0, -1) : key
+    const path = parentPath ? `${parentPath}.${name}` : name
+    const field = describeField(name, value, path)
+    return optional ? { ...field, optional } : field
+  })
+}
+
+// =============================================================================
+// TypeScript Interfaces
+// =============================================================================
+
+const indent = (depth: number) => '  '.repeat(depth)
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+/**
+ * Generate TypeScript interface from detected fields (client-side fallback)
+ */
+export function generateTypeScriptInterface(
+  fields: ResponseFieldInfo[],
+  interfaceName: string = 'AgentResult',
+  options: InterfaceOptions = {}
+): string {
+  const { exported = false, semicolons = true } = options
+  const end = semicolons ? ';' : ''
+
+  function generateMembers(members: ResponseFieldInfo[], depth: number): string {
+    return members
+      .map(member => `${indent(depth)}${member.name}${member.optional ? '?' : ''}: ${generateType(member, depth)}${end}`)
+      .join('\n')
+  }
+
+  function generateObject(members: ResponseFieldInfo[], depth: number): string {
+    return `{\n${generateMembers(members, depth + 1)}\n${indent(depth)}}`
+  }
+
+  function generatePrimitive(type: FieldType | undefined): string {
+    switch (type) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+      case 'null':
+        return type
+      case 'object':
+        return 'Record<string, any>'
+      default:
+        return 'any'
+    }
+  }
+
+  function generateType(field: ResponseFieldInfo, depth: number): string {
+    switch (field.type) {
+      case 'string':
+        return field.enumValues?.length ? field.enumValues.map(v => `'${v}'`).join(' | ') : 'string'
+      case 'array':
+        if (field.children && field.children.length > 0) {
+          return `Array<${generateObject(field.children, depth)}>`
+        }
+        return `${generatePrimitive(field.itemType)}[]`
+      case 'object':
+        if (field.children && field.children.length > 0) {
+          return generateObject(field.children, depth)
+        }
+        return 'Record<string, any>'
+      default:
+        return generatePrimitive(field.type)
+    }
+  }
+
+  return `${exported ? 'export ' : ''}interface ${interfaceName} ${generateObject(fields, 0)}`
+}
+
+// =============================================================================
+// zod Validators
+// =============================================================================
+
+/** Coercion helpers (from schema-coercion.ts) a generated schema uses */
+export type CoercionHelper = 'requiredText' | 'numeric' | 'flag' | 'list'
+
+/**
+ * Generate a zod schema for the fields, asserted to the interface of the same
+ * name. Helpers it needs are added to `used`.
+ */
+export function generateZodSchema(
+  fields: ResponseFieldInfo[],
+  interfaceName: string,
+  used: Set<CoercionHelper> = new Set()
+): string {
+  function generatePrimitive(type: FieldType | undefined): string {
+    switch (type) {
+      case 'string':
+        used.add('requiredText')
+        return 'requiredText'
+      case 'number':
+        used.add('numeric')
+        return 'numeric'
+      case 'boolean':
+        used.add('flag')
+        return 'flag'
+      case 'null':
+        return 'z.null()'
+      case 'object':
+        return 'z.record(z.string(), z.any())'
+      default:
+        return 'z.any()'
+    }
+  }
+
+  function generateObject(members: ResponseFieldInfo[], depth: number): string {
+    const lines = members.map(member => {
+      const schema = generateValidator(member, depth + 1)
+      return `${indent(depth + 1)}${member.name}: ${schema}${member.optional ? '.optional()' : ''}`
+    })
+    return `z.object({\n${lines.join(',\n')}\n${indent(depth)}})`
+  }
+
+  function generateValidator(field: ResponseFieldInfo, depth: number): string {
+    switch (field.type) {
+      case 'string':
+        if (field.enumValues?.length) return `z.enum([${field.enumValues.map(v => `'${v}'`).join(', ')}])`
+        return generatePrimitive('string')
+      case 'array':
+        used.add('list')
+        if (field.children && field.children.length > 0) return `list(${generateObject(field.children, depth)})`
+        return `list(${generatePrimitive(field.itemType)})`
+      case 'object':
+        if (field.children && field.children.length > 0) return generateObject(field.children, depth)
+        return generatePrimitive('object')
+      default:
+        return generatePrimitive(field.type)
+    }
+  }
+
+  return `export const ${interfaceName}Schema = ${generateObject(fields, 0)} as z.ZodType<${interfaceName}>`
+}
+
+// =============================================================================
+// Modules
+// =============================================================================
+
+/**
+ * compliance_checker_agent_response.json -> ComplianceCheckerAgentResult
+ */
+export function getResultTypeName(file: string): string {
+  const base = file.replace(/\.json$/, '').replace(/_response$/, '')
+  return base.split(/[_-]+/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('') + 'Result'
+}
+
+/**
+ * compliance_checker_agent_response.json -> compliance_checker_agent
+ */
+export function getAgentKey(file: string): string {
+  return file.replace(/\.json$/, '').replace(/_response$/, '')
+}
+
+const sectionHeader = (title: string) => [
+  '// =============================================================================',
+  `// ${title}`,
+  '// =============================================================================',
+]
+
+/**
+ * Generate the types module and the validators module for every schema file
+ */
+export function generateAgentModules(
+  schemas: SchemaFile[],
+  paths: { types: string; script: string }
+): GeneratedModules {
+  const sorted = [...schemas].sort((a, b) => a.file.localeCompare(b.file))
+  const notice = [
+    ` * Generated by ${paths.script} from response_schemas/ - do not edit.`,
+    ` * Run \`npm run codegen:agents\` after changing a schema file or scripts/agent-schema-overrides.json.`,
+  ]
+
+  const types: string[] = ['/**', ' * Agent Response Types', ' *', ...notice, ' */']
+  const validators: string[] = ['/**', ' * Agent Response Validators', ' *', ...notice, ' */']
+  const validatorBodies: string[] = []
+  const used = new Set<CoercionHelper>()
+
+  for (const schema of sorted) {
+    const name = getResultTypeName(schema.file)
+    const fields = schemaToFields(schema.response_schema.result || {})
+
+    types.push('', ...sectionHeader(`${schema.agent_name} (response_schemas/${schema.file})`), '')
+    if (schema.description) types.push(`/** ${schema.description} */`)
+    types.push(generateTypeScriptInterface(fields, name, { exported: true, semicolons: false }))
+
+    validatorBodies.push('', ...sectionHeader(schema.agent_name), '', generateZodSchema(fields, name, used))
+  }
+
+  const names = sorted.map(schema => getResultTypeName(schema.file))
+  const helpers = (['requiredText', 'numeric', 'flag', 'list'] as CoercionHelper[]).filter(h => used.has(h))
+
+  validators.push(
+    '',
+    "import { z } from 'zod'",
+    ...(helpers.length ? [`import { ${helpers.join(', ')} } from '@/lib/schema-coercion'`] : []),
+    'import type {',
+    names.map(name => `  ${name}`).join(',\n'),
+    `} from '${paths.types}'`,
+    ...validatorBodies,
+    '',
+    ...sectionHeader('Registry'),
+    '',
+    '/** Result validator for each agent, keyed by agent ID */',
+    'export const AGENT_RESULT_SCHEMAS: Record<string, { agent_name: string; schema: z.ZodTypeAny }> = {',
+    sorted
+      .map(schema => `  '${schema.agent_id}': { agent_name: '${schema.agent_name}', schema: ${getResultTypeName(schema.file)}Schema }`)
+      .join(',\n'),
+    '}',
+    '',
+    'export interface AgentManifestEntry {',
+    '  agent_name: string',
+    '  agent_id: string',
+    '  agent_purpose: string',
+    '  description: string',
+    '  /** File in response_schemas/ */',
+    '  schema_file: string',
+    '  schema: z.ZodTypeAny',
+    '}',
+    '',
+    '/** Agent metadata from response_schemas/, keyed by agent key (the file name without _response.json) */',
+    'export const AGENT_MANIFEST: Record<string, AgentManifestEntry> = {',
+    sorted
+      .map(schema => [
+        `  ${getAgentKey(schema.file)}: {`,
+        `    agent_name: ${quote(schema.agent_name)},`,
+        `    agent_id: ${quote(schema.agent_id)},`,
+        `    agent_purpose: ${quote(schema.agent_purpose || '')},`,
+        `    description: ${quote(schema.description || '')},`,
+        `    schema_file: ${quote(schema.file)},`,
+        `    schema: ${getResultTypeName(schema.file)}Schema,`,
+        '  }',
+      ].join('\n'))
+      .join(',\n'),
+    '}',
+  )
+
+  return { types: types.join('\n') + '\n', validators: validators.join('\n') + '\n' }
+}
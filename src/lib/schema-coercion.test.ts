@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { requiredText, text, textItem, numeric, flag, list, section } from '@/lib/schema-coercion'
+
+describe('schema coercions', () => {
+  it('reads numbers sent as "72", "72%" or "72/100"', () => {
+    expect(['72', '72%', '72/100', 72].map(value => numeric.parse(value))).toEqual([72, 72, 72, 72])
+    expect(numeric.safeParse('high').success).toBe(false)
+  })
+
+  it('stringifies numbers and booleans sent for text', () => {
+    expect(requiredText.parse(3)).toBe('3')
+    expect(requiredText.parse(false)).toBe('false')
+    expect(requiredText.safeParse(undefined).success).toBe(false)
+    expect(text.parse(undefined)).toBe('')
+    expect(text.parse(null)).toBe('')
+  })
+
+  it('flattens object list entries to their values', () => {
+    expect(textItem.parse({ step: 'Notify HR', owner: 'Manager' })).toBe('Notify HR - Manager')
+    expect(textItem.parse('Notify HR')).toBe('Notify HR')
+  })
+
+  it('reads "true" and "false" as booleans', () => {
+    expect(flag.parse('true')).toBe(true)
+    expect(flag.parse('false')).toBe(false)
+    expect(flag.safeParse('yes').success).toBe(false)
+  })
+
+  it('turns missing lists, single items and null padding into clean arrays', () => {
+    const findings = list(requiredText)
+    expect(findings.parse(undefined)).toEqual([])
+    expect(findings.parse(null)).toEqual([])
+    expect(findings.parse('One finding')).toEqual(['One finding'])
+    expect(findings.parse([null, 'a', undefined, 'b'])).toEqual(['a', 'b'])
+  })
+
+  it('fills a missing section so its own fields decide what is required', () => {
+    expect(section({ monitoring: text }).parse(undefined)).toEqual({ monitoring: '' })
+    expect(section({ monitoring: requiredText }).safeParse(null).success).toBe(false)
+  })
+
+  it('combines into object schemas as documented', () => {
+    const Schema = z.object({ overall_score: numeric, findings: list(requiredText) })
+    expect(Schema.parse({ overall_score: '72%', findings: 'One finding' })).toEqual({ overall_score: 72, findings: ['One finding'] })
+  })
+})
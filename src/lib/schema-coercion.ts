@@ -0,0 +1,61 @@
+/**
+ * Schema Coercion
+ *
+ * zod building blocks that absorb the drift agents commonly produce: numbers
+ * sent as strings ("72", "72%"), strings sent as numbers, booleans sent as
+ * "true", and arrays that are missing, sent as a single item or padded with
+ * nulls. Shared by the hand-written schemas in agent-schemas.ts and the
+ * generated validators in agent-validators.ts.
+ *
+ * @example
+ * ```typescript
+ * const Schema = z.object({ overall_score: numeric, findings: list(requiredText) })
+ * Schema.parse({ overall_score: '72%', findings: 'One finding' })
+ * // { overall_score: 72, findings: ['One finding'] }
+ * ```
+ */
+
+import { z } from 'zod'
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+/** String that may arrive as a number or boolean */
+export const requiredText = z.preprocess(
+  value => (typeof value === 'number' || typeof value === 'boolean' ? String(value) : value),
+  z.string()
+)
+
+/** Like requiredText, but missing values become '' */
+export const text = z.preprocess(value => value ?? '', requiredText)
+
+/** List entry that should be a sentence; objects are flattened to their values */
+export const textItem = z.preprocess(
+  value => (isPlainObject(value) ? Object.values(value).join(' - ') : value),
+  requiredText
+)
+
+/** Number that may arrive as "72", "72%" or "72/100" */
+export const numeric = z.preprocess(value => {
+  if (typeof value !== 'string') return value
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? value : parsed
+}, z.number())
+
+/** Boolean that may arrive as "true" or "false" */
+export const flag = z.preprocess(value => {
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return value
+}, z.boolean())
+
+/** Array that may be missing, sent as a single item or padded with nulls */
+export const list = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(value => {
+    if (value == null) return []
+    return (Array.isArray(value) ? value : [value]).filter(entry => entry != null)
+  }, z.array(item))
+
+/** Object that may be missing; its own fields decide what is required */
+export const section = <T extends z.ZodRawShape>(shape: T) =>
+  z.preprocess(value => value ?? {}, z.object(shape))
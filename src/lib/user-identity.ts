@@ -0,0 +1,133 @@
+/**
+ * User Identity
+ *
+ * Gives every agent request a stable user ID instead of a random one per
+ * call, so agent-side memory and per-user analytics work. Several named
+ * reviewers can share a browser and switch between themselves.
+ *
+ * @example
+ * ```typescript
+ * const user = getCurrentUser()        // created on first use and persisted
+ * await callAIAgent(message, agentId)  // sends user.id automatically
+ *
+ * const reviewer = addUser('Dana Lee', 'dana@example.com')
+ * switchUser(reviewer.id)
+ * ```
+ */
+
+import { generateUUID } from '@/utils'
+import type { User } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const USERS_KEY = 'hr-policy-manager:users'
+const ACTIVE_USER_KEY = 'hr-policy-manager:active-user'
+
+/** Fired on window whenever the user list or current user changes */
+export const USER_CHANGED_EVENT = 'user-identity-changed'
+
+// Used when localStorage is unavailable so the ID is at least stable per page load
+let fallbackUser: User | null = null
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+const hasStorage = () => typeof localStorage !== 'undefined'
+
+function readUsers(): User[] {
+  if (!hasStorage()) return fallbackUser ? [fallbackUser] : []
+  try {
+    return JSON.parse(localStorage.getItem(USERS_KEY) || '[]') as User[]
+  } catch {
+    return []
+  }
+}
+
+function writeUsers(users: User[], activeId: string | null, notify = true): void {
+  if (!hasStorage()) {
+    fallbackUser = users.find(u => u.id === activeId) || users[0] || null
+  } else {
+    localStorage.setItem(USERS_KEY, JSON.stringify(users))
+    if (activeId) localStorage.setItem(ACTIVE_USER_KEY, activeId)
+    else localStorage.removeItem(ACTIVE_USER_KEY)
+  }
+
+  if (notify && typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(USER_CHANGED_EVENT))
+  }
+}
+
+function readActiveId(): string | null {
+  if (!hasStorage()) return fallbackUser?.id || null
+  return localStorage.getItem(ACTIVE_USER_KEY)
+}
+
+const createUser = (name: string, email = ''): User => ({
+  id: `user-${generateUUID()}`,
+  name: name.trim() || 'Reviewer',
+  email: email.trim(),
+})
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+export function listUsers(): User[] {
+  return readUsers()
+}
+
+/**
+ * The user agent requests are sent as. Created on first use; that write is
+ * not broadcast because it can happen while a component renders.
+ */
+export function getCurrentUser(): User {
+  const users = readUsers()
+  const current = users.find(u => u.id === readActiveId())
+  if (current) return current
+
+  if (users.length > 0) {
+    writeUsers(users, users[0].id, false)
+    return users[0]
+  }
+
+  const user = createUser('Reviewer')
+  writeUsers([user], user.id, false)
+  return user
+}
+
+export function getCurrentUserId(): string {
+  return getCurrentUser().id
+}
+
+/**
+ * Add a named reviewer. The new reviewer does not become current until switched to.
+ */
+export function addUser(name: string, email = ''): User {
+  const user = createUser(name, email)
+  const users = readUsers()
+  writeUsers([...users, user], readActiveId() || user.id)
+  return user
+}
+
+export function updateUser(id: string, changes: Partial<Omit<User, 'id'>>): void {
+  writeUsers(readUsers().map(u => (u.id === id ? { ...u, ...changes } : u)), readActiveId())
+}
+
+export function switchUser(id: string): void {
+  if (!readUsers().some(u => u.id === id)) return
+  writeUsers(readUsers(), id)
+}
+
+/**
+ * Remove a reviewer. The last remaining reviewer cannot be removed.
+ */
+export function removeUser(id: string): void {
+  const users = readUsers()
+  if (users.length <= 1) return
+  const remaining = users.filter(u => u.id !== id)
+  const activeId = readActiveId()
+  writeUsers(remaining, activeId === id ? remaining[0].id : activeId)
+}
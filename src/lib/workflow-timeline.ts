@@ -0,0 +1,202 @@
+/**
+ * Workflow Timeline
+ *
+ * Folds the SSE events of a Policy Creation Manager run into a timeline of
+ * sub-agent stages (Requirements → Drafting → Compliance) with the tool calls
+ * made in each, so the UI can show where a long run currently is.
+ *
+ * @example
+ * ```typescript
+ * let timeline = createWorkflowTimeline()
+ * await streamAIAgent(message, AGENT_ID, {
+ *   onEvent: (event) => { timeline = applyTimelineEvent(timeline, event) }
+ * })
+ * ```
+ */
+
+import type { SSEEvent, SubagentSwitchEvent, ToolUseEvent, ToolResultEvent } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type StageStatus = 'pending' | 'active' | 'completed' | 'failed'
+export type ToolCallStatus = 'running' | 'completed' | 'failed'
+
+export interface TimelineToolCall {
+  id: string
+  tool_name: string
+  status: ToolCallStatus
+  started: Date
+  finished?: Date
+}
+
+export interface TimelineStage {
+  key: string
+  label: string
+  status: StageStatus
+  started?: Date
+  finished?: Date
+  tool_calls: TimelineToolCall[]
+}
+
+export interface WorkflowTimeline {
+  stages: TimelineStage[]
+  /** Key of the stage currently running */
+  active: string | null
+  started: Date
+  /** When the last event arrived, to spot a stalled run */
+  last_event: Date
+  finished?: Date
+  failed?: boolean
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** The orchestrator's sub-agents in the order they normally run */
+const KNOWN_STAGES: Array<{ key: string; label: string; pattern: RegExp }> = [
+  { key: 'requirements', label: 'Requirements Analysis', pattern: /requirement|analyst/i },
+  { key: 'drafting', label: 'Policy Drafting', pattern: /draft/i },
+  { key: 'compliance', label: 'Compliance Check', pattern: /compliance|checker/i }
+]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const stageKeyFor = (agentName: string): string => {
+  const known = KNOWN_STAGES.find(stage => stage.pattern.test(agentName))
+  return known ? known.key : agentName.trim().toLowerCase().replace(/\s+/g, '_')
+}
+
+const eventTime = (event: SSEEvent): Date => {
+  const time = new Date(event._ts || event.timestamp)
+  return isNaN(time.getTime()) ? new Date() : time
+}
+
+const updateStage = (
+  stages: TimelineStage[],
+  key: string,
+  update: (stage: TimelineStage) => TimelineStage
+): TimelineStage[] => stages.map(stage => (stage.key === key ? update(stage) : stage))
+
+// Make sure a stage exists for a sub-agent the orchestrator reports
+const ensureStage = (stages: TimelineStage[], agentName: string): TimelineStage[] => {
+  const key = stageKeyFor(agentName)
+  if (stages.some(stage => stage.key === key)) return stages
+  return [...stages, { key, label: agentName, status: 'pending', tool_calls: [] }]
+}
+
+// Mark the running stage finished before another one starts
+const finishActive = (timeline: WorkflowTimeline, at: Date): TimelineStage[] =>
+  timeline.active
+    ? updateStage(timeline.stages, timeline.active, stage => ({
+        ...stage,
+        status: stage.status === 'active' ? 'completed' : stage.status,
+        finished: stage.finished || at
+      }))
+    : timeline.stages
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+export function createWorkflowTimeline(): WorkflowTimeline {
+  const now = new Date()
+  return {
+    stages: KNOWN_STAGES.map(({ key, label }) => ({ key, label, status: 'pending', tool_calls: [] })),
+    active: null,
+    started: now,
+    last_event: now
+  }
+}
+
+/**
+ * Apply one SSE event to the timeline. Events that carry no progress
+ * information only refresh `last_event`.
+ */
+export function applyTimelineEvent(timeline: WorkflowTimeline, event: SSEEvent): WorkflowTimeline {
+  const at = eventTime(event)
+  const next: WorkflowTimeline = { ...timeline, last_event: new Date() }
+
+  switch (event.type) {
+    case 'subagent_switch': {
+      const { active_subagent } = event as SubagentSwitchEvent
+      if (!active_subagent) return next
+
+      const key = stageKeyFor(active_subagent)
+      if (key === timeline.active) return next
+
+      const stages = ensureStage(finishActive(timeline, at), active_subagent)
+      return {
+        ...next,
+        active: key,
+        stages: updateStage(stages, key, stage => ({
+          ...stage,
+          status: 'active',
+          started: stage.started || at,
+          finished: undefined
+        }))
+      }
+    }
+
+    case 'tool_use': {
+      const toolUse = event as ToolUseEvent
+      const key = toolUse.active_subagent ? stageKeyFor(toolUse.active_subagent) : timeline.active
+      if (!key) return next
+
+      const stages = toolUse.active_subagent ? ensureStage(timeline.stages, toolUse.active_subagent) : timeline.stages
+      return {
+        ...next,
+        stages: updateStage(stages, key, stage => ({
+          ...stage,
+          tool_calls: [...stage.tool_calls, {
+            id: toolUse.tool_use_id || `${toolUse.tool_name}-${stage.tool_calls.length}`,
+            tool_name: toolUse.tool_name,
+            status: 'running',
+            started: at
+          }]
+        }))
+      }
+    }
+
+    case 'tool_result':
+    case 'tool_error':
+    case 'tool_blocked': {
+      const result = event as ToolResultEvent
+      const failed = event.type !== 'tool_result' || result.is_error
+      return {
+        ...next,
+        stages: timeline.stages.map(stage => ({
+          ...stage,
+          tool_calls: stage.tool_calls.map(call =>
+            call.id === result.tool_use_id && call.status === 'running'
+              ? { ...call, status: failed ? 'failed' : 'completed', finished: at }
+              : call
+          )
+        }))
+      }
+    }
+
+    case 'chat_completed':
+    case 'workflow_completed':
+      return { ...next, active: null, finished: at, stages: finishActive(timeline, at) }
+
+    case 'chat_failed':
+    case 'error':
+      return {
+        ...next,
+        active: null,
+        finished: at,
+        failed: true,
+        stages: timeline.active
+          ? updateStage(timeline.stages, timeline.active, stage => ({ ...stage, status: 'failed', finished: at }))
+          : timeline.stages
+      }
+
+    default:
+      return next
+  }
+}
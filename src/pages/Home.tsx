@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -12,137 +12,150 @@ import {
   Loader2,
   ChevronDown,
   ChevronUp,
-  Download,
   Search,
   Plus,
   AlertCircle,
   CheckCircle,
   AlertTriangle,
-  Clock
+  Clock,
+  GitCompare,
+  Pencil,
+  UserPen,
+  Wand2,
+  ShieldCheck,
+  Building2,
+  ListChecks,
+  Square,
+  MessageSquarePlus,
+  Activity,
+  Settings as SettingsIcon
 } from 'lucide-react'
-import { callAIAgent } from '@/utils/aiAgent'
+import { Link } from 'react-router-dom'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { streamAIAgent } from '@/utils/aiAgent'
+import { generateUUID } from '@/utils'
 import type { NormalizedAgentResponse } from '@/utils/aiAgent'
 import { cn } from '@/lib/utils'
-
-// Agent ID from orchestrator
-const AGENT_ID = "6960bdadc57d451439d49e3f"
-
-// TypeScript interfaces based on response schemas
-interface PolicyDocument {
-  purpose: string
-  scope: string
-  definitions: Array<{
-    term: string
-    definition: string
-  }>
-  policy_statement: string
-  procedures: Array<{
-    section_title: string
-    content: string
-    steps: string[]
-  }>
-  responsibilities: Array<{
-    role: string
-    responsibilities: string[]
-  }>
-  enforcement: {
-    violation_reporting: string
-    investigation_process: string
-    disciplinary_actions: string[]
+import { getPolicyStatus } from '@/lib/policy-store'
+import { usePolicyLibrary } from '@/hooks/usePolicyLibrary'
+import { useCompanyProfiles } from '@/hooks/useCompanyProfiles'
+import { useConversationSession } from '@/hooks/useConversationSession'
+import { useAppConfig } from '@/hooks/useAppConfig'
+import { AGENTS, getAgentId } from '@/lib/agent-registry'
+import { withCompanyContext } from '@/lib/company-profile'
+import {
+  formatIntakeRequest,
+  formatIntakeSummary,
+  type PolicyIntake
+} from '@/lib/policy-intake'
+import { PolicyIntakeWizard } from '@/components/PolicyIntakeWizard'
+import { PolicyRequirementsView } from '@/components/PolicyRequirementsView'
+import { adaptManagerResult, formatAdapterReport } from '@/lib/response-adapters'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { WorkflowTimeline } from '@/components/WorkflowTimeline'
+import { ReviewerSwitcher } from '@/components/ReviewerSwitcher'
+import {
+  createWorkflowTimeline,
+  applyTimelineEvent,
+  type WorkflowTimeline as WorkflowTimelineState
+} from '@/lib/workflow-timeline'
+import type { RetryState } from '@/lib/retry-policy'
+import { PolicyVersionDiff } from '@/components/PolicyVersionDiff'
+import { PolicyExportMenu } from '@/components/PolicyExportMenu'
+import { PolicyEditor } from '@/components/PolicyEditor'
+import { collectChangedPaths, compareCompliance } from '@/lib/policy-diff'
+import {
+  regeneratePolicySection,
+  getSectionTitle,
+  applyRemediation,
+  findRelatedGap,
+  recheckCompliance
+} from '@/lib/policy-agents'
+import { SectionRegenerateButton } from '@/components/SectionRegenerateButton'
+import { ComplianceDeltaCard } from '@/components/ComplianceDeltaCard'
+import {
+  RemediationProposalDialog,
+  type RemediationProposal
+} from '@/components/RemediationProposalDialog'
+import type {
+  PolicyResult,
+  ComplianceResult,
+  Message,
+  PolicyHistoryItem,
+  PolicyRecord,
+  PolicyVersion,
+  PolicyVersionSource,
+  PolicySectionKey,
+  ComplianceRun,
+  ComplianceRunSource,
+  CompanyProfile,
+  PolicyRequirements
+} from '@/types/policy'
+
+// Component: Active company profile shown in the chat header
+function CompanyProfileSwitcher({
+  profiles,
+  activeProfile,
+  onSelectProfile
+}: {
+  profiles: CompanyProfile[]
+  activeProfile: CompanyProfile | null
+  onSelectProfile: (id: string | null) => void
+}) {
+  if (profiles.length === 0) {
+    return (
+      <Link
+        to="/settings"
+        className="flex items-center gap-1 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 hover:bg-amber-100"
+      >
+        <Building2 className="w-4 h-4" />
+        Set up company profile
+      </Link>
+    )
   }
-  effective_date: string
-  review_cycle: string
-}
 
-interface PolicyResult {
-  policy_title: string
-  policy_document: PolicyDocument
-  formatting_notes: string[]
-}
-
-interface ComplianceCheck {
-  category: string
-  status: string
-  findings: string
-  relevant_regulations: string[]
-}
-
-interface IdentifiedGap {
-  gap_description: string
-  severity: string
-  affected_section: string
-  legal_risk: string
-}
-
-interface RemediationRecommendation {
-  issue: string
-  recommendation: string
-  priority: string
-  implementation_steps: string[]
-}
-
-interface ComplianceResult {
-  compliance_status: string
-  overall_score: number
-  compliance_checks: ComplianceCheck[]
-  identified_gaps: IdentifiedGap[]
-  remediation_recommendations: RemediationRecommendation[]
-  best_practices_suggestions: string[]
-  final_assessment: string
-}
-
-interface SubAgentResult {
-  agent_name: string
-  status: string
-  output: PolicyResult | ComplianceResult | any
-}
-
-interface AgentResult {
-  final_output: any
-  sub_agent_results: SubAgentResult[]
-  summary: string
-  workflow_completed: boolean
-}
-
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: Date
-}
-
-interface PolicyHistoryItem {
-  id: string
-  title: string
-  status: 'compliant' | 'needs_review' | 'draft'
-  created: Date
-  score?: number
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <div className="min-w-0 text-right">
+        <Select
+          value={activeProfile?.id || 'none'}
+          onValueChange={(value) => onSelectProfile(value === 'none' ? null : value)}
+        >
+          <SelectTrigger className="h-8 w-52 text-sm">
+            <Building2 className="w-4 h-4 mr-1 text-blue-600 shrink-0" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No company profile</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500 truncate mt-1 max-w-52">
+          {activeProfile
+            ? activeProfile.jurisdictions.join(', ') || 'No jurisdictions set'
+            : 'Requests are sent without company context'}
+        </p>
+      </div>
+      <Link to="/settings" title="Company profiles" className="text-gray-400 hover:text-blue-600">
+        <SettingsIcon className="w-4 h-4" />
+      </Link>
+      {import.meta.env.DEV && (
+        <Link to="/telemetry" title="Agent telemetry" className="text-gray-400 hover:text-blue-600">
+          <Activity className="w-4 h-4" />
+        </Link>
+      )}
+    </div>
+  )
 }
 
-// Sample policy history
-const initialPolicyHistory: PolicyHistoryItem[] = [
-  {
-    id: '1',
-    title: 'Remote Work Policy',
-    status: 'compliant',
-    created: new Date('2024-12-15'),
-    score: 95
-  },
-  {
-    id: '2',
-    title: 'Flexible Hours Policy',
-    status: 'needs_review',
-    created: new Date('2024-12-10'),
-    score: 72
-  },
-  {
-    id: '3',
-    title: 'PTO Policy',
-    status: 'draft',
-    created: new Date('2024-12-05')
-  }
-]
-
 // Component: Chat Message Bubble
 function ChatMessage({ message }: { message: Message }) {
   return (
@@ -171,10 +184,16 @@ function ChatMessage({ message }: { message: Message }) {
 // Component: Policy History Sidebar
 function PolicyHistorySidebar({
   policies,
-  onSelectPolicy
+  activePolicyId,
+  onSelectPolicy,
+  onCreateNew,
+  disabled
 }: {
   policies: PolicyHistoryItem[]
+  activePolicyId: string | null
   onSelectPolicy: (policy: PolicyHistoryItem) => void
+  onCreateNew: () => void
+  disabled?: boolean
 }) {
   const [searchQuery, setSearchQuery] = useState('')
 
@@ -212,11 +231,20 @@ function PolicyHistorySidebar({
 
       <ScrollArea className="flex-1">
         <div className="p-2">
+          {filteredPolicies.length === 0 && (
+            <p className="p-3 text-sm text-gray-500">
+              {policies.length === 0 ? 'No saved policies yet' : 'No matching policies'}
+            </p>
+          )}
           {filteredPolicies.map(policy => (
             <button
               key={policy.id}
               onClick={() => onSelectPolicy(policy)}
-              className="w-full text-left p-3 rounded-lg hover:bg-gray-50 mb-2 transition-colors"
+              disabled={disabled}
+              className={cn(
+                "w-full text-left p-3 rounded-lg hover:bg-gray-50 mb-2 transition-colors disabled:opacity-60 disabled:cursor-not-allowed",
+                policy.id === activePolicyId && 'bg-blue-50 hover:bg-blue-50'
+              )}
             >
               <div className="flex items-start justify-between mb-2">
                 <h3 className="font-medium text-gray-900 text-sm">{policy.title}</h3>
@@ -238,7 +266,7 @@ function PolicyHistorySidebar({
       </ScrollArea>
 
       <div className="p-4 border-t border-gray-200">
-        <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+        <Button onClick={onCreateNew} disabled={disabled} className="w-full bg-blue-600 hover:bg-blue-700 text-white">
           <Plus className="w-4 h-4 mr-2" />
           Create New Policy
         </Button>
@@ -250,12 +278,71 @@ function PolicyHistorySidebar({
 // Component: Policy Preview Panel
 function PolicyPreviewPanel({
   policyData,
-  complianceData
+  complianceData,
+  versions,
+  onSaveEdit,
+  onRegenerateSection,
+  regeneratingSection,
+  onApplyRecommendation,
+  applyingRecommendation,
+  onRecheckCompliance,
+  rechecking,
+  proposalPending,
+  complianceHistory,
+  requirementsData,
+  busy
 }: {
   policyData: PolicyResult | null
   complianceData: ComplianceResult | null
+  versions: PolicyVersion[]
+  onSaveEdit: (edited: PolicyResult) => void
+  onRegenerateSection: (key: PolicySectionKey, instructions: string) => void
+  regeneratingSection: PolicySectionKey | null
+  onApplyRecommendation: (index: number) => void
+  applyingRecommendation: number | null
+  onRecheckCompliance: () => void
+  rechecking: boolean
+  /** A remediation proposal is waiting to be accepted or rejected */
+  proposalPending: boolean
+  complianceHistory: ComplianceRun[]
+  requirementsData: PolicyRequirements | null
+  busy: boolean
 }) {
   const [showCompliance, setShowCompliance] = useState(true)
+  const [view, setView] = useState<'policy' | 'requirements'>('policy')
+  const [showVersionDiff, setShowVersionDiff] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const agentActionPending = busy || regeneratingSection !== null || applyingRecommendation !== null || rechecking
+  const currentVersion = versions[versions.length - 1]
+  const editedPaths = currentVersion?.source === 'human' ? currentVersion.edited_paths || [] : []
+
+  const complianceDelta = useMemo(() => {
+    if (complianceHistory.length < 2) return null
+    const previous = complianceHistory[complianceHistory.length - 2]
+    const latest = complianceHistory[complianceHistory.length - 1]
+    return {
+      delta: compareCompliance(previous.compliance, latest.compliance),
+      previousChecked: previous.checked
+    }
+  }, [complianceHistory])
+
+  // Highlight text a reviewer wrote rather than the agent
+  const editedClass = (path: string) =>
+    editedPaths.some(p => p === path || p.startsWith(`${path}.`))
+      ? 'bg-amber-50 ring-1 ring-amber-200 rounded'
+      : undefined
+
+  const renderSectionHeading = (key: PolicySectionKey, spacing: string) => (
+    <div className={cn("flex items-center justify-between", spacing)}>
+      <h2 className="text-lg font-semibold text-gray-900">{getSectionTitle(key)}</h2>
+      <SectionRegenerateButton
+        sectionTitle={getSectionTitle(key)}
+        regenerating={regeneratingSection === key}
+        disabled={busy || regeneratingSection !== null}
+        onRegenerate={(instructions) => onRegenerateSection(key, instructions)}
+      />
+    </div>
+  )
 
   const getComplianceColor = (status: string) => {
     switch (status.toLowerCase()) {
@@ -307,310 +394,420 @@ function PolicyPreviewPanel({
   return (
     <div className="h-full flex flex-col bg-white">
       <div className="p-4 bg-white border-b border-gray-200 flex items-center justify-between">
-        <h2 className="text-lg font-semibold text-gray-900">Policy Preview</h2>
-        <Button variant="outline" size="sm" className="text-gray-700">
-          <Download className="w-4 h-4 mr-2" />
-          Export Policy
-        </Button>
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold text-gray-900">Policy Preview</h2>
+          {currentVersion && (
+            <Badge variant="outline" className="text-xs">v{currentVersion.version}</Badge>
+          )}
+          {currentVersion?.source === 'human' && (
+            <Badge className="text-xs bg-amber-100 text-amber-800 hover:bg-amber-100">
+              <UserPen className="w-3 h-3 mr-1" />
+              Human-modified
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {policyData && !editing && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-gray-700"
+              disabled={agentActionPending}
+              onClick={() => setEditing(true)}
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          {versions.length > 1 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-gray-700"
+              onClick={() => setShowVersionDiff(true)}
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare Versions
+            </Button>
+          )}
+          <PolicyExportMenu policyData={policyData} complianceData={complianceData} />
+        </div>
       </div>
 
-      <ScrollArea className="flex-1">
-        <div className="p-6">
-          {policyData && (
-            <div className="mb-6">
-              <h1 className="text-2xl font-bold text-gray-900 mb-6">
-                {policyData.policy_title}
-              </h1>
-
-              {/* Purpose Section */}
+      <PolicyVersionDiff
+        versions={versions}
+        open={showVersionDiff}
+        onOpenChange={setShowVersionDiff}
+      />
+
+      {!editing && (
+        <div className="px-4 pt-3 bg-white">
+          <Tabs value={view} onValueChange={(value) => setView(value as 'policy' | 'requirements')}>
+            <TabsList>
+              <TabsTrigger value="policy">Policy &amp; Compliance</TabsTrigger>
+              <TabsTrigger value="requirements">Requirements</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      )}
+
+      {editing && policyData ? (
+        <PolicyEditor
+          policy={policyData}
+          onSave={(edited) => {
+            onSaveEdit(edited)
+            setEditing(false)
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : view === 'requirements' ? (
+        <ScrollArea className="flex-1">
+          <div className="p-6">
+            <PolicyRequirementsView requirements={requirementsData} policyData={policyData} />
+          </div>
+        </ScrollArea>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="p-6">
+            {policyData && (
               <div className="mb-6">
-                <h2 className="text-lg font-semibold text-gray-900 mb-2">Purpose</h2>
-                <p className="text-gray-700 leading-relaxed">
-                  {policyData.policy_document.purpose}
-                </p>
-              </div>
+                <h1 className={cn("text-2xl font-bold text-gray-900 mb-6", editedClass('policy_title'))}>
+                  {policyData.policy_title}
+                </h1>
 
-              {/* Scope Section */}
-              <div className="mb-6">
-                <h2 className="text-lg font-semibold text-gray-900 mb-2">Scope</h2>
-                <p className="text-gray-700 leading-relaxed">
-                  {policyData.policy_document.scope}
-                </p>
-              </div>
+                {/* Purpose Section */}
+                <div className="mb-6">
+                  {renderSectionHeading('purpose', 'mb-2')}
+                  <p className={cn("text-gray-700 leading-relaxed", editedClass('policy_document.purpose'))}>
+                    {policyData.policy_document.purpose}
+                  </p>
+                </div>
 
-              {/* Definitions */}
-              {policyData.policy_document.definitions?.length > 0 && (
+                {/* Scope Section */}
                 <div className="mb-6">
-                  <h2 className="text-lg font-semibold text-gray-900 mb-3">Definitions</h2>
-                  <div className="space-y-3">
-                    {policyData.policy_document.definitions.map((def, idx) => (
-                      <div key={idx} className="bg-gray-50 p-3 rounded-lg">
-                        <h3 className="font-semibold text-gray-900 mb-1">{def.term}</h3>
-                        <p className="text-gray-700 text-sm">{def.definition}</p>
-                      </div>
-                    ))}
-                  </div>
+                  {renderSectionHeading('scope', 'mb-2')}
+                  <p className={cn("text-gray-700 leading-relaxed", editedClass('policy_document.scope'))}>
+                    {policyData.policy_document.scope}
+                  </p>
                 </div>
-              )}
 
-              {/* Policy Statement */}
-              <div className="mb-6">
-                <h2 className="text-lg font-semibold text-gray-900 mb-2">Policy Statement</h2>
-                <p className="text-gray-700 leading-relaxed">
-                  {policyData.policy_document.policy_statement}
-                </p>
-              </div>
+                {/* Definitions */}
+                {policyData.policy_document.definitions?.length > 0 && (
+                  <div className="mb-6">
+                    {renderSectionHeading('definitions', 'mb-3')}
+                    <div className="space-y-3">
+                      {policyData.policy_document.definitions.map((def, idx) => (
+                        <div key={idx} className={cn("bg-gray-50 p-3 rounded-lg", editedClass(`policy_document.definitions.${idx}`))}>
+                          <h3 className="font-semibold text-gray-900 mb-1">{def.term}</h3>
+                          <p className="text-gray-700 text-sm">{def.definition}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
 
-              {/* Procedures */}
-              {policyData.policy_document.procedures?.length > 0 && (
+                {/* Policy Statement */}
                 <div className="mb-6">
-                  <h2 className="text-lg font-semibold text-gray-900 mb-3">Procedures</h2>
-                  <div className="space-y-4">
-                    {policyData.policy_document.procedures.map((proc, idx) => (
-                      <div key={idx} className="border-l-4 border-blue-500 pl-4">
-                        <h3 className="font-semibold text-gray-900 mb-2">{proc.section_title}</h3>
-                        <p className="text-gray-700 mb-2">{proc.content}</p>
-                        {proc.steps?.length > 0 && (
-                          <ol className="list-decimal list-inside space-y-1 text-gray-700">
-                            {proc.steps.map((step, stepIdx) => (
-                              <li key={stepIdx} className="text-sm">{step}</li>
+                  {renderSectionHeading('policy_statement', 'mb-2')}
+                  <p className={cn("text-gray-700 leading-relaxed", editedClass('policy_document.policy_statement'))}>
+                    {policyData.policy_document.policy_statement}
+                  </p>
+                </div>
+
+                {/* Procedures */}
+                {policyData.policy_document.procedures?.length > 0 && (
+                  <div className="mb-6">
+                    {renderSectionHeading('procedures', 'mb-3')}
+                    <div className="space-y-4">
+                      {policyData.policy_document.procedures.map((proc, idx) => (
+                        <div key={idx} className="border-l-4 border-blue-500 pl-4">
+                          <h3 className={cn("font-semibold text-gray-900 mb-2", editedClass(`policy_document.procedures.${idx}.section_title`))}>{proc.section_title}</h3>
+                          <p className={cn("text-gray-700 mb-2", editedClass(`policy_document.procedures.${idx}.content`))}>{proc.content}</p>
+                          {proc.steps?.length > 0 && (
+                            <ol className="list-decimal list-inside space-y-1 text-gray-700">
+                              {proc.steps.map((step, stepIdx) => (
+                                <li key={stepIdx} className={cn("text-sm", editedClass(`policy_document.procedures.${idx}.steps.${stepIdx}`))}>{step}</li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Responsibilities */}
+                {policyData.policy_document.responsibilities?.length > 0 && (
+                  <div className="mb-6">
+                    {renderSectionHeading('responsibilities', 'mb-3')}
+                    <div className="space-y-3">
+                      {policyData.policy_document.responsibilities.map((resp, idx) => (
+                        <div key={idx} className="bg-blue-50 p-3 rounded-lg">
+                          <h3 className={cn("font-semibold text-gray-900 mb-2", editedClass(`policy_document.responsibilities.${idx}.role`))}>{resp.role}</h3>
+                          <ul className="list-disc list-inside space-y-1 text-gray-700 text-sm">
+                            {resp.responsibilities.map((r, rIdx) => (
+                              <li key={rIdx} className={editedClass(`policy_document.responsibilities.${idx}.responsibilities.${rIdx}`)}>{r}</li>
                             ))}
-                          </ol>
-                        )}
-                      </div>
-                    ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Responsibilities */}
-              {policyData.policy_document.responsibilities?.length > 0 && (
-                <div className="mb-6">
-                  <h2 className="text-lg font-semibold text-gray-900 mb-3">Responsibilities</h2>
-                  <div className="space-y-3">
-                    {policyData.policy_document.responsibilities.map((resp, idx) => (
-                      <div key={idx} className="bg-blue-50 p-3 rounded-lg">
-                        <h3 className="font-semibold text-gray-900 mb-2">{resp.role}</h3>
-                        <ul className="list-disc list-inside space-y-1 text-gray-700 text-sm">
-                          {resp.responsibilities.map((r, rIdx) => (
-                            <li key={rIdx}>{r}</li>
+                {/* Enforcement */}
+                {policyData.policy_document.enforcement && (
+                  <div className="mb-6">
+                    {renderSectionHeading('enforcement', 'mb-3')}
+                    <div className="space-y-3">
+                      <div>
+                        <h3 className="font-medium text-gray-900 mb-1">Violation Reporting</h3>
+                        <p className={cn("text-gray-700 text-sm", editedClass('policy_document.enforcement.violation_reporting'))}>
+                          {policyData.policy_document.enforcement.violation_reporting}
+                        </p>
+                      </div>
+                      <div>
+                        <h3 className="font-medium text-gray-900 mb-1">Investigation Process</h3>
+                        <p className={cn("text-gray-700 text-sm", editedClass('policy_document.enforcement.investigation_process'))}>
+                          {policyData.policy_document.enforcement.investigation_process}
+                        </p>
+                      </div>
+                      <div>
+                        <h3 className="font-medium text-gray-900 mb-1">Disciplinary Actions</h3>
+                        <ul className="list-disc list-inside text-gray-700 text-sm space-y-1">
+                          {policyData.policy_document.enforcement.disciplinary_actions?.map((action, idx) => (
+                            <li key={idx} className={editedClass(`policy_document.enforcement.disciplinary_actions.${idx}`)}>{action}</li>
                           ))}
                         </ul>
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Enforcement */}
-              {policyData.policy_document.enforcement && (
-                <div className="mb-6">
-                  <h2 className="text-lg font-semibold text-gray-900 mb-3">Enforcement</h2>
-                  <div className="space-y-3">
-                    <div>
-                      <h3 className="font-medium text-gray-900 mb-1">Violation Reporting</h3>
-                      <p className="text-gray-700 text-sm">
-                        {policyData.policy_document.enforcement.violation_reporting}
-                      </p>
-                    </div>
-                    <div>
-                      <h3 className="font-medium text-gray-900 mb-1">Investigation Process</h3>
-                      <p className="text-gray-700 text-sm">
-                        {policyData.policy_document.enforcement.investigation_process}
-                      </p>
-                    </div>
-                    <div>
-                      <h3 className="font-medium text-gray-900 mb-1">Disciplinary Actions</h3>
-                      <ul className="list-disc list-inside text-gray-700 text-sm space-y-1">
-                        {policyData.policy_document.enforcement.disciplinary_actions?.map((action, idx) => (
-                          <li key={idx}>{action}</li>
-                        ))}
-                      </ul>
                     </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Effective Date & Review Cycle */}
-              <div className="flex gap-4 text-sm text-gray-600">
-                <div>
-                  <span className="font-medium">Effective Date:</span> {policyData.policy_document.effective_date}
-                </div>
-                <div>
-                  <span className="font-medium">Review Cycle:</span> {policyData.policy_document.review_cycle}
+                {/* Effective Date & Review Cycle */}
+                <div className="flex gap-4 text-sm text-gray-600">
+                  <div className={editedClass('policy_document.effective_date')}>
+                    <span className="font-medium">Effective Date:</span> {policyData.policy_document.effective_date}
+                  </div>
+                  <div className={editedClass('policy_document.review_cycle')}>
+                    <span className="font-medium">Review Cycle:</span> {policyData.policy_document.review_cycle}
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
+
+            {/* Compliance Report */}
+            {complianceData && (
+              <div className="border-t pt-6">
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <button
+                    onClick={() => setShowCompliance(!showCompliance)}
+                    className="flex-1 flex items-center justify-between"
+                  >
+                    <h2 className="text-lg font-semibold text-gray-900">Compliance Report</h2>
+                    {showCompliance ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                  </button>
+                  {policyData && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-gray-700"
+                      disabled={agentActionPending || proposalPending}
+                      onClick={onRecheckCompliance}
+                    >
+                      {rechecking ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <ShieldCheck className="w-4 h-4 mr-2" />
+                      )}
+                      Re-check Compliance
+                    </Button>
+                  )}
+                </div>
 
-          {/* Compliance Report */}
-          {complianceData && (
-            <div className="border-t pt-6">
-              <button
-                onClick={() => setShowCompliance(!showCompliance)}
-                className="w-full flex items-center justify-between mb-4"
-              >
-                <h2 className="text-lg font-semibold text-gray-900">Compliance Report</h2>
-                {showCompliance ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
-              </button>
-
-              {showCompliance && (
-                <div className="space-y-4">
-                  {/* Overall Score */}
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-medium text-gray-700">Overall Compliance Score</span>
-                      <span className={cn(
-                        "text-2xl font-bold",
-                        complianceData.overall_score >= 80 ? 'text-green-600' :
-                        complianceData.overall_score >= 60 ? 'text-yellow-600' : 'text-red-600'
-                      )}>
-                        {complianceData.overall_score}%
-                      </span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className={cn(
-                          "h-2 rounded-full",
-                          complianceData.overall_score >= 80 ? 'bg-green-600' :
-                          complianceData.overall_score >= 60 ? 'bg-yellow-600' : 'bg-red-600'
-                        )}
-                        style={{ width: `${complianceData.overall_score}%` }}
+                {showCompliance && (
+                  <div className="space-y-4">
+                    {complianceDelta && (
+                      <ComplianceDeltaCard
+                        delta={complianceDelta.delta}
+                        previousChecked={complianceDelta.previousChecked}
                       />
-                    </div>
-                  </div>
-
-                  {/* Status Badge */}
-                  <div>
-                    <Badge className={cn(
-                      "text-sm py-1 px-3",
-                      complianceData.compliance_status === 'compliant' ? 'bg-green-100 text-green-800' :
-                      complianceData.compliance_status === 'needs_review' ? 'bg-yellow-100 text-yellow-800' :
-                      'bg-red-100 text-red-800'
-                    )}>
-                      {complianceData.compliance_status === 'compliant' ? <CheckCircle className="w-3 h-3 mr-1" /> :
-                       complianceData.compliance_status === 'needs_review' ? <AlertTriangle className="w-3 h-3 mr-1" /> :
-                       <AlertCircle className="w-3 h-3 mr-1" />}
-                      {complianceData.compliance_status.replace('_', ' ').toUpperCase()}
-                    </Badge>
-                  </div>
+                    )}
 
-                  {/* Compliance Checks */}
-                  <div>
-                    <h3 className="font-semibold text-gray-900 mb-3">Compliance Checks</h3>
-                    <div className="space-y-3">
-                      {complianceData.compliance_checks?.map((check, idx) => (
-                        <div key={idx} className={cn("p-3 rounded-lg border", getComplianceColor(check.status))}>
-                          <div className="flex items-start justify-between mb-2">
-                            <h4 className="font-medium">{check.category}</h4>
-                            <Badge className={cn(
-                              "text-xs",
-                              check.status === 'pass' ? 'bg-green-100 text-green-800' :
-                              check.status === 'warning' ? 'bg-yellow-100 text-yellow-800' :
-                              'bg-red-100 text-red-800'
-                            )}>
-                              {check.status.toUpperCase()}
-                            </Badge>
-                          </div>
-                          <p className="text-sm mb-2">{check.findings}</p>
-                          {check.relevant_regulations?.length > 0 && (
-                            <div className="flex flex-wrap gap-1">
-                              {check.relevant_regulations.map((reg, regIdx) => (
-                                <Badge key={regIdx} variant="outline" className="text-xs">
-                                  {reg}
-                                </Badge>
-                              ))}
-                            </div>
+                    {/* Overall Score */}
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-gray-700">Overall Compliance Score</span>
+                        <span className={cn(
+                          "text-2xl font-bold",
+                          complianceData.overall_score >= 80 ? 'text-green-600' :
+                          complianceData.overall_score >= 60 ? 'text-yellow-600' : 'text-red-600'
+                        )}>
+                          {complianceData.overall_score}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className={cn(
+                            "h-2 rounded-full",
+                            complianceData.overall_score >= 80 ? 'bg-green-600' :
+                            complianceData.overall_score >= 60 ? 'bg-yellow-600' : 'bg-red-600'
                           )}
-                        </div>
-                      ))}
+                          style={{ width: `${complianceData.overall_score}%` }}
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Identified Gaps */}
-                  {complianceData.identified_gaps?.length > 0 && (
+                    {/* Status Badge */}
                     <div>
-                      <h3 className="font-semibold text-gray-900 mb-3">Identified Gaps</h3>
-                      <div className="space-y-3">
-                        {complianceData.identified_gaps.map((gap, idx) => (
-                          <div key={idx} className="bg-red-50 p-3 rounded-lg border border-red-200">
-                            <div className="flex items-start justify-between mb-2">
-                              <h4 className="font-medium text-gray-900">{gap.affected_section}</h4>
-                              <Badge className={getSeverityColor(gap.severity)}>
-                                {gap.severity.toUpperCase()}
-                              </Badge>
-                            </div>
-                            <p className="text-sm text-gray-700 mb-2">{gap.gap_description}</p>
-                            <p className="text-xs text-red-700">
-                              <strong>Legal Risk:</strong> {gap.legal_risk}
-                            </p>
-                          </div>
-                        ))}
-                      </div>
+                      <Badge className={cn(
+                        "text-sm py-1 px-3",
+                        complianceData.compliance_status === 'compliant' ? 'bg-green-100 text-green-800' :
+                        complianceData.compliance_status === 'needs_review' ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-red-100 text-red-800'
+                      )}>
+                        {complianceData.compliance_status === 'compliant' ? <CheckCircle className="w-3 h-3 mr-1" /> :
+                         complianceData.compliance_status === 'needs_review' ? <AlertTriangle className="w-3 h-3 mr-1" /> :
+                         <AlertCircle className="w-3 h-3 mr-1" />}
+                        {complianceData.compliance_status.replace('_', ' ').toUpperCase()}
+                      </Badge>
                     </div>
-                  )}
 
-                  {/* Remediation Recommendations */}
-                  {complianceData.remediation_recommendations?.length > 0 && (
+                    {/* Compliance Checks */}
                     <div>
-                      <h3 className="font-semibold text-gray-900 mb-3">Remediation Recommendations</h3>
+                      <h3 className="font-semibold text-gray-900 mb-3">Compliance Checks</h3>
                       <div className="space-y-3">
-                        {complianceData.remediation_recommendations.map((rec, idx) => (
-                          <div key={idx} className="bg-blue-50 p-3 rounded-lg border border-blue-200">
+                        {complianceData.compliance_checks?.map((check, idx) => (
+                          <div key={idx} className={cn("p-3 rounded-lg border", getComplianceColor(check.status))}>
                             <div className="flex items-start justify-between mb-2">
-                              <h4 className="font-medium text-gray-900">{rec.issue}</h4>
+                              <h4 className="font-medium">{check.category}</h4>
                               <Badge className={cn(
-                                rec.priority === 'critical' ? 'bg-red-100 text-red-800' :
-                                rec.priority === 'high' ? 'bg-orange-100 text-orange-800' :
-                                'bg-blue-100 text-blue-800'
+                                "text-xs",
+                                check.status === 'pass' ? 'bg-green-100 text-green-800' :
+                                check.status === 'warning' ? 'bg-yellow-100 text-yellow-800' :
+                                'bg-red-100 text-red-800'
                               )}>
-                                {rec.priority.toUpperCase()}
+                                {check.status.toUpperCase()}
                               </Badge>
                             </div>
-                            <p className="text-sm text-gray-700 mb-2">{rec.recommendation}</p>
-                            {rec.implementation_steps?.length > 0 && (
-                              <div className="mt-2">
-                                <p className="text-xs font-medium text-gray-700 mb-1">Implementation Steps:</p>
-                                <ol className="list-decimal list-inside text-xs text-gray-600 space-y-1">
-                                  {rec.implementation_steps.map((step, stepIdx) => (
-                                    <li key={stepIdx}>{step}</li>
-                                  ))}
-                                </ol>
+                            <p className="text-sm mb-2">{check.findings}</p>
+                            {check.relevant_regulations?.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {check.relevant_regulations.map((reg, regIdx) => (
+                                  <Badge key={regIdx} variant="outline" className="text-xs">
+                                    {reg}
+                                  </Badge>
+                                ))}
                               </div>
                             )}
                           </div>
                         ))}
                       </div>
                     </div>
-                  )}
-
-                  {/* Best Practices */}
-                  {complianceData.best_practices_suggestions?.length > 0 && (
-                    <div>
-                      <h3 className="font-semibold text-gray-900 mb-3">Best Practices</h3>
-                      <ul className="list-disc list-inside space-y-2 text-sm text-gray-700">
-                        {complianceData.best_practices_suggestions.map((practice, idx) => (
-                          <li key={idx}>{practice}</li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
 
-                  {/* Final Assessment */}
-                  {complianceData.final_assessment && (
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <h3 className="font-semibold text-gray-900 mb-2">Final Assessment</h3>
-                      <p className="text-sm text-gray-700 leading-relaxed">
-                        {complianceData.final_assessment}
-                      </p>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
-        </div>
-      </ScrollArea>
+                    {/* Identified Gaps */}
+                    {complianceData.identified_gaps?.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold text-gray-900 mb-3">Identified Gaps</h3>
+                        <div className="space-y-3">
+                          {complianceData.identified_gaps.map((gap, idx) => (
+                            <div key={idx} className="bg-red-50 p-3 rounded-lg border border-red-200">
+                              <div className="flex items-start justify-between mb-2">
+                                <h4 className="font-medium text-gray-900">{gap.affected_section}</h4>
+                                <Badge className={getSeverityColor(gap.severity)}>
+                                  {gap.severity.toUpperCase()}
+                                </Badge>
+                              </div>
+                              <p className="text-sm text-gray-700 mb-2">{gap.gap_description}</p>
+                              <p className="text-xs text-red-700">
+                                <strong>Legal Risk:</strong> {gap.legal_risk}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Remediation Recommendations */}
+                    {complianceData.remediation_recommendations?.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold text-gray-900 mb-3">Remediation Recommendations</h3>
+                        <div className="space-y-3">
+                          {complianceData.remediation_recommendations.map((rec, idx) => (
+                            <div key={idx} className="bg-blue-50 p-3 rounded-lg border border-blue-200">
+                              <div className="flex items-start justify-between mb-2">
+                                <h4 className="font-medium text-gray-900">{rec.issue}</h4>
+                                <div className="flex items-center gap-2">
+                                  <Badge className={cn(
+                                    rec.priority === 'critical' ? 'bg-red-100 text-red-800' :
+                                    rec.priority === 'high' ? 'bg-orange-100 text-orange-800' :
+                                    'bg-blue-100 text-blue-800'
+                                  )}>
+                                    {rec.priority.toUpperCase()}
+                                  </Badge>
+                                  {policyData && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="h-7 px-2 text-xs bg-white"
+                                      disabled={busy || applyingRecommendation !== null || regeneratingSection !== null || rechecking}
+                                      onClick={() => onApplyRecommendation(idx)}
+                                    >
+                                      {applyingRecommendation === idx ? (
+                                        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                      ) : (
+                                        <Wand2 className="w-3 h-3 mr-1" />
+                                      )}
+                                      Apply
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                              <p className="text-sm text-gray-700 mb-2">{rec.recommendation}</p>
+                              {rec.implementation_steps?.length > 0 && (
+                                <div className="mt-2">
+                                  <p className="text-xs font-medium text-gray-700 mb-1">Implementation Steps:</p>
+                                  <ol className="list-decimal list-inside text-xs text-gray-600 space-y-1">
+                                    {rec.implementation_steps.map((step, stepIdx) => (
+                                      <li key={stepIdx}>{step}</li>
+                                    ))}
+                                  </ol>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Best Practices */}
+                    {complianceData.best_practices_suggestions?.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold text-gray-900 mb-3">Best Practices</h3>
+                        <ul className="list-disc list-inside space-y-2 text-sm text-gray-700">
+                          {complianceData.best_practices_suggestions.map((practice, idx) => (
+                            <li key={idx}>{practice}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Final Assessment */}
+                    {complianceData.final_assessment && (
+                      <div className="bg-gray-50 p-4 rounded-lg">
+                        <h3 className="font-semibold text-gray-900 mb-2">Final Assessment</h3>
+                        <p className="text-sm text-gray-700 leading-relaxed">
+                          {complianceData.final_assessment}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      )}
     </div>
   )
 }
@@ -622,7 +819,25 @@ export default function Home() {
   const [loading, setLoading] = useState(false)
   const [policyData, setPolicyData] = useState<PolicyResult | null>(null)
   const [complianceData, setComplianceData] = useState<ComplianceResult | null>(null)
+  const [requirementsData, setRequirementsData] = useState<PolicyRequirements | null>(null)
+  const [activePolicyId, setActivePolicyId] = useState<string | null>(null)
+  const [versions, setVersions] = useState<PolicyVersion[]>([])
+  const [regeneratingSection, setRegeneratingSection] = useState<PolicySectionKey | null>(null)
+  const [applyingRecommendation, setApplyingRecommendation] = useState<number | null>(null)
+  const [proposal, setProposal] = useState<RemediationProposal | null>(null)
+  const [complianceHistory, setComplianceHistory] = useState<ComplianceRun[]>([])
+  const [rechecking, setRechecking] = useState(false)
+  const [intakeOpen, setIntakeOpen] = useState(false)
+  const [timeline, setTimeline] = useState<WorkflowTimelineState | null>(null)
+  const [retryState, setRetryState] = useState<RetryState | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const { policies, savePolicy, getPolicy } = usePolicyLibrary()
+  const { profiles, activeProfile, setActiveProfile } = useCompanyProfiles()
+  // Orchestrator; the ID can be overridden per environment in the app config
+  const managerAgentId = getAgentId(AGENTS.POLICY_CREATION_MANAGER, useAppConfig())
+  const { sessionId, startNewSession, restoreSession } = useConversationSession(managerAgentId)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -633,113 +848,320 @@ export default function Home() {
   }, [messages])
 
   const extractPolicyAndCompliance = (result: any) => {
-    console.log('Full agent result:', JSON.stringify(result, null, 2))
-
-    // Check if policy_document exists directly in result (new structure)
-    if (result.policy_document) {
-      console.log('Found policy_document in result')
-      const policyData: PolicyResult = {
-        policy_title: result.policy_document.policy_title,
-        policy_document: {
-          purpose: result.policy_document.purpose,
-          scope: result.policy_document.scope,
-          definitions: result.policy_document.definitions || [],
-          policy_statement: result.policy_document.policy_statement,
-          procedures: result.policy_document.procedures || [],
-          responsibilities: result.policy_document.responsibilities || [],
-          enforcement: result.policy_document.enforcement || {
-            violation_reporting: result.policy_document.enforcement?.violation_reporting || '',
-            investigation_process: result.policy_document.enforcement?.investigation_process || '',
-            disciplinary_actions: result.policy_document.enforcement?.disciplinary_actions || []
-          },
-          effective_date: result.policy_document.effective_date || new Date().toISOString().split('T')[0],
-          review_cycle: result.policy_document.review_cycle || 'Annually'
-        },
-        formatting_notes: result.policy_document.formatting_notes || []
-      }
-      console.log('Setting policy data:', policyData)
-      setPolicyData(policyData)
+    const { policy, compliance, requirements, report } = adaptManagerResult(result)
+
+    if (report.rejected.length > 0 || report.unmatched.length > 0) {
+      console.warn('[ResponseAdapters]', formatAdapterReport(report), report)
+    } else {
+      console.debug('[ResponseAdapters]', formatAdapterReport(report))
     }
 
-    // Check if compliance_review exists directly in result (new structure)
-    if (result.compliance_review) {
-      console.log('Found compliance_review in result')
-      const complianceData: ComplianceResult = {
-        compliance_status: result.compliance_review.compliance_status,
-        overall_score: result.compliance_review.overall_score,
-        compliance_checks: result.compliance_review.compliance_checks || [],
-        identified_gaps: result.compliance_review.identified_gaps || result.compliance_review.critical_issues?.map((issue: string, idx: number) => ({
-          gap_description: issue,
-          severity: 'high',
-          affected_section: 'General',
-          legal_risk: 'Requires immediate attention'
-        })) || [],
-        remediation_recommendations: result.compliance_review.remediation_recommendations?.map((rec: any) => ({
-          issue: typeof rec === 'string' ? rec : rec.issue,
-          recommendation: typeof rec === 'string' ? rec : rec.recommendation,
-          priority: 'high',
-          implementation_steps: typeof rec === 'string' ? [rec] : rec.implementation_steps || []
-        })) || result.compliance_review.recommendations?.map((rec: string) => ({
-          issue: rec,
-          recommendation: rec,
-          priority: 'high',
-          implementation_steps: []
-        })) || [],
-        best_practices_suggestions: result.compliance_review.best_practices_suggestions || [],
-        final_assessment: result.compliance_review.final_assessment || 'Policy requires review and updates.'
-      }
-      console.log('Setting compliance data:', complianceData)
-      setComplianceData(complianceData)
+    if (policy) setPolicyData(policy)
+    if (compliance) setComplianceData(compliance)
+    if (requirements) setRequirementsData(requirements)
+
+    return { policy, compliance, requirements }
+  }
+
+  const persistPolicy = async ({
+    policy,
+    compliance,
+    transcript,
+    newVersion,
+    complianceRun,
+    requirements
+  }: {
+    policy: PolicyResult | null
+    compliance: ComplianceResult | null
+    transcript: Message[]
+    newVersion?: { source: PolicyVersionSource; edited_paths?: string[] }
+    complianceRun?: ComplianceRunSource
+    requirements?: PolicyRequirements | null
+  }) => {
+    if (!policy && !compliance) return
+
+    const existing = activePolicyId ? await getPolicy(activePolicyId) : null
+    const now = new Date()
+
+    // Each regenerated or edited draft becomes a new numbered version
+    let nextVersions = existing?.versions || []
+    if (newVersion && policy) {
+      const lastVersion = nextVersions[nextVersions.length - 1]?.version || 0
+      nextVersions = [...nextVersions, { version: lastVersion + 1, created: now, policy, compliance, ...newVersion }]
+    } else if (compliance && nextVersions.length > 0) {
+      const last = nextVersions[nextVersions.length - 1]
+      nextVersions = [...nextVersions.slice(0, -1), { ...last, compliance }]
+    }
+
+    // Keep every compliance review so later checks can be compared
+    let nextHistory = existing?.compliance_history || []
+    if (complianceRun === 'recheck' && nextHistory.length === 0 && existing?.compliance) {
+      // Policies saved before reviews were kept: the stored report is the first one
+      nextHistory = [{
+        checked: existing.updated || existing.created,
+        version: nextVersions[nextVersions.length - 1]?.version,
+        source: 'orchestration',
+        compliance: existing.compliance
+      }]
+    }
+    if (complianceRun && compliance) {
+      nextHistory = [...nextHistory, {
+        checked: now,
+        version: nextVersions[nextVersions.length - 1]?.version,
+        source: complianceRun,
+        compliance
+      }]
     }
 
-    // Fallback: Try old structure with sub_agent_results
-    const subAgentResults = result.sub_agent_results || result.subAgentResults || []
+    const record: PolicyRecord = {
+      id: existing?.id || generateUUID(),
+      title: policy?.policy_title || existing?.title || 'Untitled Policy',
+      status: getPolicyStatus(compliance),
+      score: compliance?.overall_score,
+      created: existing?.created || now,
+      updated: now,
+      policy,
+      compliance,
+      messages: transcript,
+      versions: nextVersions,
+      compliance_history: nextHistory,
+      requirements: requirements !== undefined ? requirements : existing?.requirements || null,
+      session_id: sessionId
+    }
 
-    if (subAgentResults.length > 0) {
-      console.log('Sub-agent results found:', subAgentResults.length)
+    const saved = await savePolicy(record)
+    setVersions(nextVersions)
+    setComplianceHistory(nextHistory)
 
-      const policyAgent = subAgentResults.find(
-        (agent: any) => agent.agent_name?.toLowerCase().includes('policy drafting') ||
-                 agent.agent_name?.toLowerCase().includes('drafting')
-      )
+    // Only select records that exist, so the sidebar never points at a missing one
+    if (saved) {
+      setActivePolicyId(record.id)
+    } else {
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: 'This policy could not be saved to your library. It stays open here, but will be lost when the page is reloaded.',
+        timestamp: new Date()
+      }])
+    }
+  }
 
-      if (policyAgent?.output) {
-        const policyOutput = policyAgent.output.result || policyAgent.output
-        console.log('Setting policy data from sub-agent:', policyOutput)
-        setPolicyData(policyOutput as PolicyResult)
-      }
+  // Reviewer edits the agent did not touch are still human-written
+  const getAgentVersionMeta = (next: PolicyResult): { source: PolicyVersionSource; edited_paths?: string[] } => {
+    const base = versions[versions.length - 1]
+    const changed = policyData ? collectChangedPaths(policyData, next) : []
+    const overlaps = (a: string, b: string) => a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`)
+    const remaining = (base?.source === 'human' ? base.edited_paths || [] : [])
+      .filter(path => !changed.some(c => overlaps(path, c)))
 
-      const complianceAgent = subAgentResults.find(
-        (agent: any) => agent.agent_name?.toLowerCase().includes('compliance') ||
-                 agent.agent_name?.toLowerCase().includes('checker')
-      )
+    return remaining.length > 0 ? { source: 'human', edited_paths: remaining } : { source: 'agent' }
+  }
 
-      if (complianceAgent?.output) {
-        const complianceOutput = complianceAgent.output.result || complianceAgent.output
-        console.log('Setting compliance data from sub-agent:', complianceOutput)
-        setComplianceData(complianceOutput as ComplianceResult)
-      }
+  const handleSaveEdit = async (edited: PolicyResult) => {
+    const base = versions[versions.length - 1]
+    const changed = collectChangedPaths(base?.policy || policyData, edited)
+    if (changed.length === 0) return
+
+    // Keep earlier reviewer edits marked when editing an already edited draft
+    const previous = base?.source === 'human' ? base.edited_paths || [] : []
+    const edited_paths = Array.from(new Set([...previous, ...changed]))
+
+    setPolicyData(edited)
+    await persistPolicy({
+      policy: edited,
+      compliance: complianceData,
+      transcript: messages,
+      newVersion: { source: 'human', edited_paths }
+    })
+  }
+
+  // Targeted agent calls run in the policy's session and share the Stop button with orchestration runs
+  const startAgentAction = () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    return { signal: controller.signal, session_id: sessionId }
+  }
+
+  const handleRegenerateSection = async (key: PolicySectionKey, instructions: string) => {
+    if (!policyData || regeneratingSection) return
+    const title = getSectionTitle(key)
+
+    setRegeneratingSection(key)
+    const result = await regeneratePolicySection(policyData, key, instructions, activeProfile, startAgentAction())
+    abortRef.current = null
+    setRegeneratingSection(null)
+
+    const note: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: result.success
+        ? `Regenerated the ${title} section${instructions.trim() ? ` ("${instructions.trim()}")` : ''}.`
+        : result.error || `Failed to regenerate the ${title} section.`,
+      timestamp: new Date()
     }
+    setMessages(prev => [...prev, note])
+    if (!result.success || !result.policy) return
+
+    setPolicyData(result.policy)
+    await persistPolicy({
+      policy: result.policy,
+      compliance: complianceData,
+      transcript: [...messages, note],
+      newVersion: getAgentVersionMeta(result.policy)
+    })
   }
 
-  const handleSendMessage = async () => {
-    if (!input.trim() || loading) return
+  const handleApplyRecommendation = async (index: number) => {
+    const recommendation = complianceData?.remediation_recommendations?.[index]
+    if (!policyData || !recommendation || applyingRecommendation !== null || rechecking) return
 
+    const gap = findRelatedGap(recommendation, complianceData.identified_gaps, index)
+
+    setApplyingRecommendation(index)
+    const result = await applyRemediation(policyData, recommendation, gap, activeProfile, startAgentAction())
+    abortRef.current = null
+    setApplyingRecommendation(null)
+
+    if (!result.success || !result.policy) {
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: result.error || 'Failed to apply recommendation.',
+        timestamp: new Date()
+      }])
+      return
+    }
+
+    setProposal({ recommendation, policy: result.policy })
+  }
+
+  const handleAcceptProposal = async (proposed: PolicyResult) => {
+    if (!proposal) return
+    const note: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: `Applied compliance recommendation: ${proposal.recommendation.issue}`,
+      timestamp: new Date()
+    }
+
+    setProposal(null)
+    setPolicyData(proposed)
+    setMessages(prev => [...prev, note])
+    await persistPolicy({
+      policy: proposed,
+      compliance: complianceData,
+      transcript: [...messages, note],
+      newVersion: getAgentVersionMeta(proposed)
+    })
+  }
+
+  const handleRecheckCompliance = async () => {
+    // Scoring while another change is in flight would report on the old draft
+    if (!policyData || rechecking || regeneratingSection || applyingRecommendation !== null || proposal) return
+
+    setRechecking(true)
+    const result = await recheckCompliance(policyData, activeProfile, startAgentAction())
+    abortRef.current = null
+    setRechecking(false)
+
+    if (!result.success || !result.compliance) {
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: result.error || 'Compliance re-check failed.',
+        timestamp: new Date()
+      }])
+      return
+    }
+
+    const previousScore = complianceData?.overall_score
+    const note: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: previousScore !== undefined
+        ? `Compliance re-checked: ${previousScore}% → ${result.compliance.overall_score}%.`
+        : `Compliance checked: ${result.compliance.overall_score}%.`,
+      timestamp: new Date()
+    }
+
+    setComplianceData(result.compliance)
+    setMessages(prev => [...prev, note])
+    await persistPolicy({
+      policy: policyData,
+      compliance: result.compliance,
+      transcript: [...messages, note],
+      complianceRun: 'recheck'
+    })
+  }
+
+  // Section regeneration, remediation and re-checks write their result to the
+  // open policy when they finish, so switching policies waits for them
+  const policyActionPending = loading || regeneratingSection !== null || applyingRecommendation !== null || rechecking
+
+  const handleSelectPolicy = async (item: PolicyHistoryItem) => {
+    if (policyActionPending) return
+    const record = await getPolicy(item.id)
+    if (!record) return
+
+    setActivePolicyId(record.id)
+    setPolicyData(record.policy)
+    setComplianceData(record.compliance)
+    setMessages(record.messages)
+    setVersions(record.versions || [])
+    setComplianceHistory(record.compliance_history || [])
+    setRequirementsData(record.requirements || null)
+    restoreSession(record.session_id)
+  }
+
+  const handleCreateNew = () => {
+    if (policyActionPending) return
+    setActivePolicyId(null)
+    setPolicyData(null)
+    setComplianceData(null)
+    setMessages([])
+    setVersions([])
+    setComplianceHistory([])
+    setRequirementsData(null)
+    startNewSession()
+    setInput('')
+  }
+
+  /**
+   * Send a request to the orchestrator. `content` is shown in the chat and
+   * `agentMessage` (defaults to the same text) is what the agent receives.
+   * `intakeRequirements` stand in for the analyst output if none comes back.
+   */
+  const sendRequest = async (
+    content: string,
+    agentMessage = content,
+    intakeRequirements?: PolicyRequirements
+  ) => {
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: input,
+      content,
       timestamp: new Date()
     }
 
     setMessages(prev => [...prev, userMessage])
-    setInput('')
     setLoading(true)
+    setTimeline(createWorkflowTimeline())
+
+    const controller = new AbortController()
+    abortRef.current = controller
 
     try {
-      const result = await callAIAgent(input, AGENT_ID)
+      const result = await streamAIAgent(withCompanyContext(agentMessage, activeProfile), managerAgentId, {
+        session_id: sessionId,
+        signal: controller.signal,
+        onRetry: setRetryState,
+        onEvent: (event) => {
+          setRetryState(null)
+          setTimeline(prev => prev && applyTimelineEvent(prev, event))
+        }
+      })
 
-      console.log('callAIAgent result:', JSON.stringify(result, null, 2))
+      console.log('streamAIAgent result:', JSON.stringify(result, null, 2))
 
       if (result.success && result.response) {
         console.log('Response structure:', JSON.stringify(result.response, null, 2))
@@ -763,9 +1185,11 @@ export default function Home() {
         console.log('Agent result to extract:', agentResult)
 
         // Extract policy and compliance data
-        if (agentResult) {
-          extractPolicyAndCompliance(agentResult)
-        }
+        const extracted = agentResult
+          ? extractPolicyAndCompliance(agentResult)
+          : { policy: null, compliance: null, requirements: null }
+        const requirements = extracted.requirements || intakeRequirements
+        if (!extracted.requirements && intakeRequirements) setRequirementsData(intakeRequirements)
 
         // Add assistant response with workflow summary if available
         const assistantMessage: Message = {
@@ -779,6 +1203,15 @@ export default function Home() {
           timestamp: new Date()
         }
         setMessages(prev => [...prev, assistantMessage])
+
+        await persistPolicy({
+          policy: extracted.policy || policyData,
+          compliance: extracted.compliance || complianceData,
+          transcript: [...messages, userMessage, assistantMessage],
+          newVersion: extracted.policy ? { source: 'agent' } : undefined,
+          complianceRun: extracted.compliance ? 'orchestration' : undefined,
+          requirements
+        })
       } else {
         const errorMessage: Message = {
           id: (Date.now() + 1).toString(),
@@ -798,10 +1231,56 @@ export default function Home() {
       }
       setMessages(prev => [...prev, errorMessage])
     } finally {
+      abortRef.current = null
       setLoading(false)
+      setTimeline(null)
+      setRetryState(null)
     }
   }
 
+  const handleNewConversation = async () => {
+    if (loading) return
+    const nextSessionId = startNewSession()
+    const note: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: 'Started a new conversation. Earlier messages will not be used as context for the next request.',
+      timestamp: new Date()
+    }
+    setMessages(prev => [...prev, note])
+
+    const existing = activePolicyId ? await getPolicy(activePolicyId) : null
+    if (existing) {
+      await savePolicy({
+        ...existing,
+        session_id: nextSessionId,
+        messages: [...existing.messages, note],
+        updated: new Date()
+      })
+    }
+  }
+
+  const handleStop = () => {
+    abortRef.current?.abort()
+  }
+
+  const handleSendMessage = async () => {
+    if (!input.trim() || policyActionPending) return
+    const content = input
+    setInput('')
+    await sendRequest(content)
+  }
+
+  const handleSubmitIntake = async (intake: PolicyIntake) => {
+    setIntakeOpen(false)
+    await sendRequest(formatIntakeSummary(intake), formatIntakeRequest(intake), intake.requirements)
+  }
+
+  const handleUseFreeText = () => {
+    setIntakeOpen(false)
+    inputRef.current?.focus()
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -814,19 +1293,43 @@ export default function Home() {
       {/* Left Sidebar - Policy History (20%) */}
       <div className="w-[20%] min-w-[250px]">
         <PolicyHistorySidebar
-          policies={initialPolicyHistory}
-          onSelectPolicy={(policy) => {
-            console.log('Selected policy:', policy)
-          }}
+          policies={policies}
+          activePolicyId={activePolicyId}
+          onSelectPolicy={handleSelectPolicy}
+          onCreateNew={handleCreateNew}
+          disabled={policyActionPending}
         />
       </div>
 
       {/* Center - Chat Interface (45%) */}
       <div className="w-[45%] flex flex-col bg-white border-r border-gray-200">
         {/* Header */}
-        <div className="p-4 bg-white border-b border-gray-200">
-          <h1 className="text-xl font-bold text-gray-900">HR Policy Manager</h1>
-          <p className="text-sm text-gray-600">AI-Powered Policy Creation Assistant</p>
+        <div className="p-4 bg-white border-b border-gray-200 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">HR Policy Manager</h1>
+            <p className="text-sm text-gray-600">AI-Powered Policy Creation Assistant</p>
+            <div className="flex items-center gap-3 mt-1">
+              <ReviewerSwitcher disabled={loading} />
+              {messages.length > 0 && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  disabled={loading}
+                  onClick={handleNewConversation}
+                  title="Start a fresh agent session for this policy"
+                >
+                  <MessageSquarePlus className="w-3 h-3 mr-1" />
+                  New conversation
+                </Button>
+              )}
+            </div>
+          </div>
+          <CompanyProfileSwitcher
+            profiles={profiles}
+            activeProfile={activeProfile}
+            onSelectProfile={setActiveProfile}
+          />
         </div>
 
         {/* Messages Area */}
@@ -842,8 +1345,15 @@ export default function Home() {
                   Describe the policy you need, and I'll help you create a compliant,
                   professional HR policy document.
                 </p>
+                <Button
+                  className="bg-blue-600 hover:bg-blue-700 text-white mb-4"
+                  onClick={() => setIntakeOpen(true)}
+                >
+                  <ListChecks className="w-4 h-4 mr-2" />
+                  Start Guided Intake
+                </Button>
                 <div className="bg-blue-50 p-4 rounded-lg text-left">
-                  <p className="text-sm font-medium text-blue-900 mb-2">Try asking:</p>
+                  <p className="text-sm font-medium text-blue-900 mb-2">Or describe it in your own words:</p>
                   <ul className="text-sm text-blue-800 space-y-1">
                     <li>• "Create a remote work policy"</li>
                     <li>• "Draft a social media usage policy"</li>
@@ -859,12 +1369,16 @@ export default function Home() {
               ))}
               {loading && (
                 <div className="flex justify-start mb-4">
-                  <div className="bg-gray-100 rounded-lg px-4 py-3">
-                    <div className="flex items-center gap-2 text-gray-600">
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      <span className="text-sm">Generating policy...</span>
+                  {timeline ? (
+                    <WorkflowTimeline timeline={timeline} retry={retryState} />
+                  ) : (
+                    <div className="bg-gray-100 rounded-lg px-4 py-3">
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm">Generating policy...</span>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               )}
               <div ref={messagesEndRef} />
@@ -876,6 +1390,7 @@ export default function Home() {
         <div className="p-4 bg-white border-t border-gray-200">
           <div className="flex gap-2">
             <Textarea
+              ref={inputRef}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={handleKeyPress}
@@ -884,25 +1399,42 @@ export default function Home() {
               disabled={loading}
             />
             <div className="flex flex-col gap-2">
-              <Button
-                onClick={handleSendMessage}
-                disabled={loading || !input.trim()}
-                className="bg-blue-600 hover:bg-blue-700 text-white h-full px-6"
-              >
-                {loading ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
-                  <>
-                    <Send className="w-5 h-5 mr-2" />
-                    Generate Policy
-                  </>
-                )}
-              </Button>
+              {policyActionPending ? (
+                <Button
+                  onClick={handleStop}
+                  variant="outline"
+                  className="h-full px-6 text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+                >
+                  <Square className="w-4 h-4 mr-2 fill-current" />
+                  Stop
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!input.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 text-white h-full px-6"
+                >
+                  <Send className="w-5 h-5 mr-2" />
+                  Generate Policy
+                </Button>
+              )}
             </div>
           </div>
-          <p className="text-xs text-gray-500 mt-2">
-            Press Enter to send, Shift+Enter for new line
-          </p>
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-xs text-gray-500">
+              Press Enter to send, Shift+Enter for new line
+            </p>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              disabled={loading}
+              onClick={() => setIntakeOpen(true)}
+            >
+              <ListChecks className="w-3 h-3 mr-1" />
+              Guided intake
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -911,8 +1443,33 @@ export default function Home() {
         <PolicyPreviewPanel
           policyData={policyData}
           complianceData={complianceData}
+          versions={versions}
+          onSaveEdit={handleSaveEdit}
+          onRegenerateSection={handleRegenerateSection}
+          regeneratingSection={regeneratingSection}
+          onApplyRecommendation={handleApplyRecommendation}
+          applyingRecommendation={applyingRecommendation}
+          onRecheckCompliance={handleRecheckCompliance}
+          rechecking={rechecking}
+          proposalPending={proposal !== null}
+          complianceHistory={complianceHistory}
+          requirementsData={requirementsData}
+          busy={loading}
+        />
+        <RemediationProposalDialog
+          proposal={proposal}
+          currentPolicy={policyData}
+          onAccept={handleAcceptProposal}
+          onReject={() => setProposal(null)}
         />
       </div>
+
+      <PolicyIntakeWizard
+        open={intakeOpen}
+        onOpenChange={setIntakeOpen}
+        onSubmit={handleSubmitIntake}
+        onUseFreeText={handleUseFreeText}
+      />
     </div>
   )
 }
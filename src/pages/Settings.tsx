@@ -0,0 +1,315 @@
+/**
+ * SETTINGS PAGE - Company profiles attached to every agent request
+ */
+
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form'
+import { ArrowLeft, Building2, Check, Plus, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { generateUUID } from '@/utils'
+import { UNION_STATUS_LABELS } from '@/lib/company-profile'
+import { useCompanyProfiles } from '@/hooks/useCompanyProfiles'
+import type { CompanyProfile, UnionStatus } from '@/types/policy'
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'Company name is required'),
+  jurisdictions: z.string().trim().min(1, 'Add at least one jurisdiction'),
+  headcount: z.string().trim().regex(/^\d*$/, 'Headcount must be a whole number'),
+  industry: z.string().trim(),
+  union_status: z.enum(['non_union', 'partially_unionized', 'unionized', 'unknown']),
+  handbook_terms: z.string()
+})
+
+type ProfileFormValues = z.infer<typeof profileSchema>
+
+const EMPTY_FORM: ProfileFormValues = {
+  name: '',
+  jurisdictions: '',
+  headcount: '',
+  industry: '',
+  union_status: 'unknown',
+  handbook_terms: ''
+}
+
+const toFormValues = (profile: CompanyProfile): ProfileFormValues => ({
+  name: profile.name,
+  jurisdictions: profile.jurisdictions.join(', '),
+  headcount: profile.headcount === null ? '' : String(profile.headcount),
+  industry: profile.industry,
+  union_status: profile.union_status,
+  handbook_terms: profile.handbook_terms
+})
+
+const parseJurisdictions = (value: string): string[] =>
+  value.split(/[,;\n]/).map(j => j.trim()).filter(Boolean)
+
+export default function Settings() {
+  const { profiles, activeProfile, setActiveProfile, saveProfile, removeProfile } = useCompanyProfiles()
+  const [selectedId, setSelectedId] = useState<string | null>(activeProfile?.id || null)
+  const [saved, setSaved] = useState(false)
+
+  const selected = profiles.find(p => p.id === selectedId) || null
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: selected ? toFormValues(selected) : EMPTY_FORM
+  })
+
+  const selectProfile = (id: string | null) => {
+    const profile = profiles.find(p => p.id === id)
+    form.reset(profile ? toFormValues(profile) : EMPTY_FORM)
+    setSelectedId(profile ? profile.id : null)
+    setSaved(false)
+  }
+
+  const onSubmit = (values: ProfileFormValues) => {
+    const profile = saveProfile({
+      id: selected?.id || generateUUID(),
+      name: values.name,
+      jurisdictions: parseJurisdictions(values.jurisdictions),
+      headcount: values.headcount ? parseInt(values.headcount, 10) : null,
+      industry: values.industry,
+      union_status: values.union_status as UnionStatus,
+      handbook_terms: values.handbook_terms,
+      updated: new Date().toISOString()
+    })
+    setSelectedId(profile.id)
+    setSaved(true)
+  }
+
+  const handleDelete = () => {
+    if (!selected) return
+    removeProfile(selected.id)
+    selectProfile(null)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Company Profiles</h1>
+            <p className="text-sm text-gray-600">
+              The active profile is sent with every request so policies are checked against the right regulations
+            </p>
+          </div>
+          <Link
+            to="/"
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to policies
+          </Link>
+        </div>
+
+        <div className="flex gap-6">
+          {/* Profile list */}
+          <div className="w-64 shrink-0 space-y-2">
+            <Button
+              variant="outline"
+              className="w-full justify-start"
+              onClick={() => selectProfile(null)}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Profile
+            </Button>
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => selectProfile(profile.id)}
+                className={cn(
+                  "w-full text-left p-3 rounded-lg border transition-colors",
+                  profile.id === selectedId
+                    ? "bg-blue-50 border-blue-200"
+                    : "bg-white border-gray-200 hover:bg-gray-50"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm text-gray-900 truncate">{profile.name}</span>
+                  {profile.id === activeProfile?.id && (
+                    <Badge className="bg-green-100 text-green-800 hover:bg-green-100 text-xs">Active</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate mt-1">
+                  {profile.jurisdictions.join(', ') || 'No jurisdictions'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {/* Profile form */}
+          <Card className="flex-1">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Building2 className="w-5 h-5 text-blue-600" />
+                {selected ? selected.name : 'New Company Profile'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Company name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Acme Corp" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="jurisdictions"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Jurisdictions</FormLabel>
+                        <FormControl>
+                          <Input placeholder="California, New York, Ontario (Canada)" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Countries, states or provinces where you employ people, separated by commas
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="headcount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Headcount</FormLabel>
+                          <FormControl>
+                            <Input inputMode="numeric" placeholder="250" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="industry"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Industry</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Healthcare" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="union_status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Union status</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(UNION_STATUS_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="handbook_terms"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Existing handbook terms</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder={'e.g. "Team Member" means any full- or part-time employee'}
+                            className="min-h-[120px]"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Defined terms and conventions new policies should stay consistent with
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex items-center justify-between pt-2">
+                    <div className="flex gap-2">
+                      {selected && selected.id !== activeProfile?.id && (
+                        <Button type="button" variant="outline" onClick={() => setActiveProfile(selected.id)}>
+                          <Check className="w-4 h-4 mr-2" />
+                          Use for Requests
+                        </Button>
+                      )}
+                      {selected && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={handleDelete}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {saved && <span className="text-sm text-green-600">Saved</span>}
+                      <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">
+                        Save Profile
+                      </Button>
+                    </div>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+/**
+ * TELEMETRY PAGE - Developer view of agent call latency, retries and usage
+ */
+
+import { Link } from 'react-router-dom'
+import { ArrowLeft } from 'lucide-react'
+import { AgentTelemetryPanel } from '@/components/AgentTelemetryPanel'
+
+export default function Telemetry() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Agent Telemetry</h1>
+            <p className="text-sm text-gray-600">
+              Latency, retries, payload sizes and token usage of recent agent calls in this browser
+            </p>
+          </div>
+          <Link
+            to="/"
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to policies
+          </Link>
+        </div>
+
+        <AgentTelemetryPanel />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+/**
+ * Agent Response Types
+ *
+ * Generated by scripts/generate-agent-types.mjs from response_schemas/ - do not edit.
+ * Run `npm run codegen:agents` after changing a schema file or scripts/agent-schema-overrides.json.
+ */
+
+// =============================================================================
+// Compliance Checker Agent (response_schemas/compliance_checker_agent_response.json)
+// =============================================================================
+
+/** Reviews drafted policies for compliance with labor laws, employment regulations, and industry standards, identifying gaps and providing remediation recommendations */
+export interface ComplianceCheckerAgentResult {
+  compliance_status: string
+  overall_score: number
+  compliance_checks: Array<{
+    category: string
+    status: string
+    findings: string
+    relevant_regulations: string[]
+  }>
+  identified_gaps: Array<{
+    gap_description: string
+    severity: string
+    affected_section: string
+    legal_risk: string
+  }>
+  remediation_recommendations: Array<{
+    issue: string
+    recommendation: string
+    priority: string
+    implementation_steps: string[]
+  }>
+  best_practices_suggestions: string[]
+  final_assessment: string
+}
+
+// =============================================================================
+// Policy Creation Manager (response_schemas/policy_creation_manager_response.json)
+// =============================================================================
+
+/** Orchestrates policy creation workflow by coordinating requirements extraction, policy drafting, and compliance checking, aggregating final compliant policy output */
+export interface PolicyCreationManagerResult {
+  final_output: Record<string, any>
+  sub_agent_results: Array<{
+    agent_name: string
+    status: string
+    output: Record<string, any>
+  }>
+  summary: string
+  workflow_completed: boolean
+  policy_document?: {
+    policy_title?: string
+    purpose: string
+    scope: string
+    definitions?: Array<{
+      term: string
+      definition: string
+    }>
+    policy_statement: string
+    procedures?: Array<{
+      section_title: string
+      content: string
+      steps: string[]
+    }>
+    responsibilities?: Array<{
+      role: string
+      responsibilities: string[]
+    }>
+    enforcement?: {
+      violation_reporting: string
+      investigation_process: string
+      disciplinary_actions: string[]
+    }
+    effective_date?: string
+    review_cycle?: string
+    formatting_notes?: string[]
+  }
+  compliance_review?: {
+    compliance_status: string
+    overall_score: number
+    compliance_checks?: Array<{
+      category: string
+      status: string
+      findings: string
+      relevant_regulations: string[]
+    }>
+    identified_gaps?: Array<{
+      gap_description: string
+      severity: string
+      affected_section: string
+      legal_risk: string
+    }>
+    remediation_recommendations?: any[]
+    best_practices_suggestions?: string[]
+    final_assessment?: string
+    critical_issues?: string[]
+    recommendations?: string[]
+  }
+  requirements_analysis?: {
+    scope: string
+    target_audience: any[]
+    key_provisions: any[]
+    exceptions: any[]
+    enforcement_mechanisms: {
+      monitoring: string
+      violations_process: string
+      consequences: any[]
+    }
+    additional_requirements: any[]
+  }
+}
+
+// =============================================================================
+// Policy Drafting Agent (response_schemas/policy_drafting_agent_response.json)
+// =============================================================================
+
+/** Creates comprehensive, professionally formatted HR policy documents with structured sections including purpose, scope, procedures, and enforcement */
+export interface PolicyDraftingAgentResult {
+  policy_title: string
+  policy_document: {
+    purpose: string
+    scope: string
+    definitions: Array<{
+      term: string
+      definition: string
+    }>
+    policy_statement: string
+    procedures: Array<{
+      section_title: string
+      content: string
+      steps: string[]
+    }>
+    responsibilities: Array<{
+      role: string
+      responsibilities: string[]
+    }>
+    enforcement: {
+      violation_reporting: string
+      investigation_process: string
+      disciplinary_actions: string[]
+    }
+    effective_date: string
+    review_cycle: string
+  }
+  formatting_notes: string[]
+}
+
+// =============================================================================
+// Requirements Analyst Agent (response_schemas/requirements_analyst_agent_response.json)
+// =============================================================================
+
+/** Extracts and structures policy requirements including scope, target audience, key provisions, exceptions, and enforcement mechanisms */
+export interface RequirementsAnalystAgentResult {
+  scope: string
+  target_audience: any[]
+  key_provisions: any[]
+  exceptions: any[]
+  enforcement_mechanisms: {
+    monitoring: string
+    violations_process: string
+    consequences: any[]
+  }
+  additional_requirements: any[]
+}
@@ -14,8 +14,36 @@ export interface ApiResponse<T> {
 
 export type Theme = 'light' | 'dark'
 
+export type AppEnvironment = 'development' | 'staging' | 'production'
+
+/**
+ * How agent requests leave the browser: straight to Lyzr with the API key,
+ * through the backend proxy that holds the key, or to the offline mock
+ */
+export type AgentTransportMode = 'direct' | 'proxy' | 'mock'
+
+/**
+ * Endpoints, keys and agent IDs for one environment (see src/lib/app-config.ts)
+ */
 export interface AppConfig {
+  environment: AppEnvironment
+  transport: AgentTransportMode
+  /** Base path of the backend proxy (proxy mode) */
+  proxyUrl: string
+  /** Lyzr agent chat endpoint */
+  chatUrl: string
+  /** Lyzr agent streaming endpoint */
+  streamUrl: string
+  /** File upload endpoint */
+  uploadUrl: string
+  /** Agent test server (agent_response_tester.ts) */
   apiUrl: string
+  /** Only sent in direct mode */
+  apiKey: string
+  /** Agent ID overrides keyed by agent key, e.g. { policy_creation_manager: '...' } */
+  agentIds: Record<string, string>
+  /** Agent useAgent() calls when none is given */
+  defaultAgentId: string
   theme: Theme
 }
 
@@ -0,0 +1,154 @@
+// Policy domain types shared by the HR Policy Manager UI and its storage layer
+
+import type {
+  PolicyDraftingAgentResult,
+  ComplianceCheckerAgentResult,
+  PolicyCreationManagerResult
+} from '@/types/agent-responses'
+
+// =============================================================================
+// Agent Output Types (based on response_schemas/)
+// =============================================================================
+
+// Requirements are normalized to strings (see toPolicyRequirements); the
+// analyst's schema leaves list items untyped
+export interface EnforcementMechanisms {
+  monitoring: string
+  violations_process: string
+  consequences: string[]
+}
+
+export interface PolicyRequirements {
+  scope: string
+  target_audience: string[]
+  key_provisions: string[]
+  exceptions: string[]
+  enforcement_mechanisms: EnforcementMechanisms
+  additional_requirements: string[]
+}
+
+// Agent results are generated from response_schemas/ (npm run codegen:agents)
+export type PolicyResult = PolicyDraftingAgentResult
+export type PolicyDocument = PolicyResult['policy_document']
+
+export type ComplianceResult = ComplianceCheckerAgentResult
+export type ComplianceCheck = ComplianceResult['compliance_checks'][number]
+export type IdentifiedGap = ComplianceResult['identified_gaps'][number]
+export type RemediationRecommendation = ComplianceResult['remediation_recommendations'][number]
+
+export type AgentResult = PolicyCreationManagerResult
+export type SubAgentResult = AgentResult['sub_agent_results'][number]
+
+export type PolicySectionKey =
+  | 'purpose'
+  | 'scope'
+  | 'definitions'
+  | 'policy_statement'
+  | 'procedures'
+  | 'responsibilities'
+  | 'enforcement'
+
+/**
+ * Policy sections in the order the preview panel renders them
+ */
+export const POLICY_SECTIONS: Array<{ key: PolicySectionKey; title: string }> = [
+  { key: 'purpose', title: 'Purpose' },
+  { key: 'scope', title: 'Scope' },
+  { key: 'definitions', title: 'Definitions' },
+  { key: 'policy_statement', title: 'Policy Statement' },
+  { key: 'procedures', title: 'Procedures' },
+  { key: 'responsibilities', title: 'Responsibilities' },
+  { key: 'enforcement', title: 'Enforcement' },
+]
+
+// =============================================================================
+// Chat & Library Types
+// =============================================================================
+
+export interface Message {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: Date
+}
+
+export type PolicyStatus = 'compliant' | 'needs_review' | 'draft'
+
+export interface PolicyHistoryItem {
+  id: string
+  title: string
+  status: PolicyStatus
+  created: Date
+  score?: number
+}
+
+export type PolicyVersionSource = 'agent' | 'human'
+
+/**
+ * One numbered generation of a policy draft
+ */
+export interface PolicyVersion {
+  version: number
+  created: Date
+  policy: PolicyResult
+  compliance: ComplianceResult | null
+  /** Who produced this draft; missing on versions saved before editing existed */
+  source?: PolicyVersionSource
+  /** Paths within PolicyResult (e.g. "policy_document.purpose") written by a reviewer */
+  edited_paths?: string[]
+}
+
+export type ComplianceRunSource = 'orchestration' | 'recheck'
+
+/**
+ * One compliance review of a draft
+ */
+export interface ComplianceRun {
+  checked: Date
+  /** Draft version that was reviewed */
+  version?: number
+  source: ComplianceRunSource
+  compliance: ComplianceResult
+}
+
+/**
+ * A saved policy: the latest generated draft, its compliance report
+ * and the chat transcript that produced it.
+ */
+export interface PolicyRecord extends PolicyHistoryItem {
+  updated: Date
+  policy: PolicyResult | null
+  compliance: ComplianceResult | null
+  messages: Message[]
+  /** Every generated draft, oldest first */
+  versions: PolicyVersion[]
+  /** Every compliance review, oldest first */
+  compliance_history?: ComplianceRun[]
+  /** Requirements Analyst output (or the guided intake answers) behind the draft */
+  requirements?: PolicyRequirements | null
+  /** Agent session for this policy's conversation, reused on every turn */
+  session_id?: string
+}
+
+// =============================================================================
+// Company Profile Types
+// =============================================================================
+
+export type UnionStatus = 'non_union' | 'partially_unionized' | 'unionized' | 'unknown'
+
+/**
+ * Company context attached to every agent call so compliance is judged
+ * against the regulations that actually apply.
+ */
+export interface CompanyProfile {
+  id: string
+  name: string
+  /** Countries, states or provinces the company employs people in */
+  jurisdictions: string[]
+  headcount: number | null
+  industry: string
+  union_status: UnionStatus
+  /** Terms and definitions from the existing employee handbook */
+  handbook_terms: string
+  updated: string
+}
@@ -24,11 +24,9 @@
  * ```
  */
 
-// =============================================================================
-// Configuration
-// =============================================================================
-
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8889'
+import { generateTypeScriptInterface, type ResponseFieldInfo } from '@/lib/schema-codegen'
+import { agentFetch } from '@/lib/agent-transport'
+import { getAppConfig } from '@/lib/app-config'
 
 // =============================================================================
 // Types
@@ -84,20 +82,7 @@ export interface TestResult {
   typeScriptInterface?: string
 }
 
-export interface ResponseFieldInfo {
-  /** Field name */
-  name: string
-  /** Detected type */
-  type: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null' | 'unknown'
-  /** Sample value (truncated for display) */
-  sampleValue: string
-  /** Path in response (e.g., "result.breakdown[0].amount") */
-  path: string
-  /** Is this field an array? */
-  isArray: boolean
-  /** Nested fields if object/array */
-  children?: ResponseFieldInfo[]
-}
+export type { ResponseFieldInfo }
 
 interface SSEEvent {
   event_type: string
@@ -149,7 +134,7 @@ export async function testAgentWithProgress(
       reject(new Error(error))
     }, timeout + 5000) // Add buffer for SSE connection
 
-    fetch(`${API_BASE_URL}/api/test-agent`, {
+    agentFetch(`${getAppConfig().apiUrl}/api/test-agent`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -276,7 +261,7 @@ export async function testAgentResponse(options: TestAgentOptions): Promise<Test
   const { agentId, testMessage, timeout = 30000 } = options
 
   try {
-    const response = await fetch(`${API_BASE_URL}/api/test-agent/quick`, {
+    const response = await agentFetch(`${getAppConfig().apiUrl}/api/test-agent/quick`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -319,7 +304,7 @@ export async function testAgentResponse(options: TestAgentOptions): Promise<Test
  */
 export async function pingAgent(agentId: string): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/test-agent/ping/${agentId}`)
+    const response = await agentFetch(`${getAppConfig().apiUrl}/api/test-agent/ping/${agentId}`)
     const data = await response.json()
     return data.success && data.reachable
   } catch {
@@ -359,49 +344,8 @@ export async function getResponseSchema(
   }
 }
 
-/**
- * Generate TypeScript interface from detected fields (client-side fallback)
- */
-export function generateTypeScriptInterface(
-  fields: ResponseFieldInfo[],
-  interfaceName: string = 'AgentResult'
-): string {
-  const lines: string[] = []
-
-  function generateType(field: ResponseFieldInfo): string {
-    switch (field.type) {
-      case 'string':
-        return 'string'
-      case 'number':
-        return 'number'
-      case 'boolean':
-        return 'boolean'
-      case 'null':
-        return 'null'
-      case 'array':
-        if (field.children && field.children.length > 0) {
-          const childInterface = `{\n${field.children.map((c) => `    ${c.name}: ${generateType(c)}`).join(';\n')};\n  }`
-          return `Array<${childInterface}>`
-        }
-        return 'any[]'
-      case 'object':
-        if (field.children && field.children.length > 0) {
-          return `{\n${field.children.map((c) => `    ${c.name}: ${generateType(c)}`).join(';\n')};\n  }`
-        }
-        return 'Record<string, any>'
-      default:
-        return 'any'
-    }
-  }
-
-  lines.push(`interface ${interfaceName} {`)
-  for (const field of fields) {
-    lines.push(`  ${field.name}: ${generateType(field)};`)
-  }
-  lines.push('}')
-
-  return lines.join('\n')
-}
+// Moved to schema-codegen, which also builds the checked-in agent types
+export { generateTypeScriptInterface }
 
 // =============================================================================
 // Export default
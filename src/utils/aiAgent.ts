@@ -31,16 +31,26 @@
  * ```
  */
 
-import parseLLMJson from '@/utils/jsonParser'
+import parseLLMJson, { type ParseStrategy } from '@/utils/jsonParser'
+import { generateUUID } from '@/utils'
+import { createSSEStreamParser, type ParsedSSEEvent } from '@/lib/event-parser'
+import {
+  createRequestSignal,
+  getAbortMessage,
+  type AbortReason,
+  type RequestSignalOptions
+} from '@/lib/request-signal'
+import { fetchWithRetry, REQUEST_ID_HEADER, type RetryOptions } from '@/lib/retry-policy'
+import { getCurrentUserId } from '@/lib/user-identity'
+import { validateAgentResult, type ValidationError } from '@/lib/agent-schemas'
+import { canSendRequestIdHeader, getAgentEndpoint, getAgentHeaders } from '@/lib/app-config'
+import type { CachedCallOptions, CacheStatus } from '@/lib/response-cache'
+import { startAgentCall } from '@/lib/agent-telemetry'
+import { runAgentPipeline, type AgentCallContext, type AgentMiddleware } from '@/lib/agent-middleware'
+import type { ZodType } from 'zod'
+import type { SSEEvent } from '@/types'
 import React from 'react'
 
-// =============================================================================
-// Configuration
-// =============================================================================
-
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
-
 // =============================================================================
 // Types - UI can rely on these!
 // =============================================================================
@@ -78,6 +88,8 @@ export interface AIAgentResponse {
   user_id?: string
   /** Session ID used */
   session_id?: string
+  /** Client request ID shared by every attempt of this call */
+  request_id?: string
   /** Timestamp */
   timestamp?: string
   /** Original raw response text (for debugging) */
@@ -86,20 +98,40 @@ export interface AIAgentResponse {
   error?: string
   /** Additional error details */
   details?: string
+  /** Set when the call was cancelled by the caller or timed out */
+  abort_reason?: AbortReason
+  /** Set when the call was made with `cache` (see @/lib/response-cache) */
+  cache_status?: CacheStatus
+  /** How the JSON parser read the raw response (recorded in @/lib/agent-telemetry) */
+  parse_strategy?: ParseStrategy
+  /** Set by the validation middleware when the result did not match the agent's schema */
+  validation_error?: ValidationError
+}
+
+/**
+ * Per-call options shared by callAIAgent and streamAIAgent
+ */
+export interface AgentRequestOptions extends RequestSignalOptions, RetryOptions {
+  /** Defaults to the current user from user-identity */
+  user_id?: string
+  session_id?: string
+  /** Idempotency key for this logical call (generated if omitted) */
+  request_id?: string
+  /** Extra middleware for this call, run after the registered ones (see @/lib/agent-middleware) */
+  middleware?: AgentMiddleware[]
+  /** Asset IDs from uploadFiles (@/utils/fileUpload) to send with the message */
+  assets?: string[]
 }
 
+/**
+ * Options for callAIAgent: the shared ones plus opt-in response caching
+ */
+export interface CallAIAgentOptions extends AgentRequestOptions, CachedCallOptions {}
+
 // =============================================================================
 // Helpers
 // =============================================================================
 
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
-    const r = Math.random() * 16 | 0
-    const v = c === 'x' ? r : (r & 0x3 | 0x8)
-    return v.toString(16)
-  })
-}
-
 /**
  * Normalize any parsed response to the standard structure.
  * Handles various response formats and ensures consistent output.
@@ -186,6 +218,95 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
   }
 }
 
+/**
+ * New conversation session ID for an agent. Reuse the same ID across turns
+ * so the agent keeps the conversation's context.
+ */
+export function createSessionId(agent_id: string): string {
+  return `${agent_id}-${generateUUID().substring(0, 12)}`
+}
+
+/**
+ * Turn the raw text of a finished agent call into the guaranteed response
+ * structure. Shared by the buffered and streaming clients.
+ */
+function buildAgentResponse(
+  rawText: string,
+  ok: boolean,
+  status: number,
+  ids: { agent_id: string; user_id: string; session_id: string; request_id: string }
+): AIAgentResponse {
+  if (ok) {
+    // Parse with bulletproof JSON parser
+    let parse_strategy: ParseStrategy | undefined
+    const parsed = parseLLMJson(rawText, { onStrategy: (strategy: ParseStrategy) => { parse_strategy = strategy } })
+
+    // Check for parser error
+    if (parsed?.success === false && parsed?.error) {
+      return {
+        success: false,
+        response: {
+          status: 'error',
+          result: {},
+          message: parsed.error
+        },
+        error: parsed.error,
+        raw_response: rawText,
+        request_id: ids.request_id,
+        parse_strategy,
+      }
+    }
+
+    // Normalize to guaranteed structure
+    const normalized = normalizeResponse(parsed)
+
+    return {
+      success: true,
+      response: normalized,
+      ...ids,
+      timestamp: new Date().toISOString(),
+      raw_response: rawText,
+      parse_strategy,
+    }
+  }
+
+  // API error
+  let errorMsg = `API returned status ${status}`
+  try {
+    const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
+    errorMsg = errorData?.error || errorData?.message || errorMsg
+  } catch {}
+
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    raw_response: rawText,
+    request_id: ids.request_id,
+  }
+}
+
+/**
+ * Response for a call that was cancelled or timed out
+ */
+function buildAbortedResponse(reason: AbortReason, timeoutMs?: number): AIAgentResponse {
+  const errorMsg = getAbortMessage(reason, timeoutMs)
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    abort_reason: reason,
+  }
+}
+
 // =============================================================================
 // Main API Function
 // =============================================================================
@@ -195,7 +316,7 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required)
- * @param options - Optional user_id and session_id
+ * @param options - Optional user_id, session_id, AbortSignal, timeout_ms and cache settings
  * @returns Promise with normalized AI agent response
  *
  * @example
@@ -206,83 +327,309 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *   console.log(result.response.status)  // "success"
  *   console.log(result.response.result)  // { ...agent's data }
  * }
+ *
+ * // Identical calls within the TTL are answered from the cache
+ * const cached = await callAIAgent(prompt, agentId, { cache: { ttl_ms: 60_000 } })
+ * cached.cache_status // 'hit' | 'miss' | 'shared' | 'bypass'
  * ```
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string }
+  options?: CallAIAgentOptions
 ): Promise<AIAgentResponse> {
-  const user_id = options?.user_id || `user-${generateUUID()}`
-  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  const ctx = createCallContext('chat', message, agent_id, options)
+  const call = startAgentCall({ kind: 'chat', agent_id, message, request_id: ctx.request_id })
+
+  const result = await runAgentPipeline(ctx, () => requestAgent(ctx, {
+    ...options,
+    onRetry: (state) => {
+      call.retry()
+      options?.onRetry?.(state)
+    },
+  }))
+
+  call.finish(result)
+  return result
+}
+
+/**
+ * Where the request ID goes: REQUEST_ID_HEADER for same-origin calls, the
+ * body for direct (cross-origin) calls to Lyzr
+ */
+function requestIdFields(request_id: string): { headers: Record<string, string>; body: { request_id?: string } } {
+  return canSendRequestIdHeader()
+    ? { headers: { [REQUEST_ID_HEADER]: request_id }, body: {} }
+    : { headers: {}, body: { request_id } }
+}
+
+/**
+ * Starting context for the middleware pipeline
+ */
+function createCallContext(
+  kind: AgentCallContext['kind'],
+  message: string,
+  agent_id: string,
+  options?: CallAIAgentOptions
+): AgentCallContext {
+  const user_id = options?.user_id || getCurrentUserId()
+  return {
+    kind,
+    agent_id,
+    message,
+    user_id,
+    session_id: options?.session_id || createSessionId(agent_id),
+    request_id: options?.request_id || generateUUID(),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(kind === 'stream' ? { 'Accept': 'text/event-stream' } : {}),
+      ...getAgentHeaders(user_id),
+    },
+    options: options || {},
+    state: {},
+  }
+}
+
+/**
+ * One request to the chat endpoint, as the pipeline left the call
+ */
+async function requestAgent(ctx: AgentCallContext, options: AgentRequestOptions): Promise<AIAgentResponse> {
+  const { agent_id, user_id, session_id, request_id } = ctx
+  const request = createRequestSignal(options)
 
   try {
-    const response = await fetch(LYZR_API_URL, {
+    const response = await fetchWithRetry(getAgentEndpoint('chat'), {
       method: 'POST',
+      signal: request.signal,
       headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
+        ...ctx.headers,
+        ...requestIdFields(request_id).headers,
       },
       body: JSON.stringify({
-        message,
+        message: ctx.message,
         agent_id,
         user_id,
         session_id,
+        ...(ctx.options.assets?.length ? { assets: ctx.options.assets } : {}),
+        ...requestIdFields(request_id).body,
       }),
-    })
+    }, options)
 
     const rawText = await response.text()
 
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check for parser error
-      if (parsed?.success === false && parsed?.error) {
-        return {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error
-          },
-          error: parsed.error,
-          raw_response: rawText,
-        }
-      }
+    return buildAgentResponse(rawText, response.ok, response.status, { agent_id, user_id, session_id, request_id })
+  } catch (error) {
+    const reason = request.abortReason()
+    if (reason) return buildAbortedResponse(reason, options?.timeout_ms)
+
+    const errorMsg = error instanceof Error ? error.message : 'Network error'
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: errorMsg
+      },
+      error: errorMsg,
+      details: error instanceof Error ? error.stack : String(error),
+    }
+  } finally {
+    request.cleanup()
+  }
+}
 
-      // Normalize to guaranteed structure
-      const normalized = normalizeResponse(parsed)
+// =============================================================================
+// Typed API Function
+// =============================================================================
 
-      return {
-        success: true,
-        response: normalized,
+export interface TypedAgentResponse<T> extends AIAgentResponse {
+  /** The validated (and coerced) result, when it matched the schema */
+  data?: T
+}
+
+/**
+ * Call an agent and validate `response.result` against a zod schema
+ * (see @/lib/agent-schemas). A result that fails validation is reported as
+ * `success: false` with a `validation_error` listing the failing paths; the
+ * normalized response is still included for debugging.
+ *
+ * @example
+ * ```tsx
+ * const review = await callAIAgentTyped(ComplianceResultSchema, message, agentId)
+ * if (review.success) {
+ *   review.data.overall_score // number, even if the agent sent "72"
+ * } else if (review.validation_error) {
+ *   console.warn(review.validation_error.issues)
+ * }
+ * ```
+ */
+export async function callAIAgentTyped<T>(
+  schema: ZodType<T>,
+  message: string,
+  agent_id: string,
+  options?: CallAIAgentOptions
+): Promise<TypedAgentResponse<T>> {
+  const response = await callAIAgent(message, agent_id, options)
+  if (!response.success || response.response.status === 'error') return response
+
+  const validated = validateAgentResult(schema, response.response.result)
+  if (validated.success) {
+    return { ...response, data: validated.data }
+  }
+
+  return {
+    ...response,
+    success: false,
+    error: validated.validation_error.message,
+    validation_error: validated.validation_error,
+  }
+}
+
+// =============================================================================
+// Streaming API Function
+// =============================================================================
+
+export interface StreamAgentOptions extends AgentRequestOptions {
+  /** Called for every SSE event as it arrives (sub-agent switches, tool calls, ...) */
+  onEvent?: (event: SSEEvent) => void
+  /** Called for data the SSE parser could not turn into an event */
+  onParseError?: (raw: string, error: string) => void
+}
+
+/**
+ * Pull the final agent output out of a completion event, if it carries one
+ */
+function getCompletionPayload(event: SSEEvent): string | null {
+  const data = event as Record<string, any>
+  if (data.type !== 'chat_completed' && data.type !== 'workflow_completed') return null
+
+  const payload = data.response ?? data.result ?? data.content ?? data.message
+  if (payload === undefined || payload === null) return null
+  return typeof payload === 'string' ? payload : JSON.stringify(payload)
+}
+
+/**
+ * Call the AI Agent over the streaming endpoint, reporting progress events as
+ * they arrive. Resolves to the same normalized response as callAIAgent.
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent(message, agentId, {
+ *   onEvent: (event) => setTimeline(prev => applyTimelineEvent(prev, event))
+ * })
+ * ```
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: StreamAgentOptions
+): Promise<AIAgentResponse> {
+  const ctx = createCallContext('stream', message, agent_id, options)
+  const call = startAgentCall({ kind: 'stream', agent_id, message, request_id: ctx.request_id })
+
+  const result = await runAgentPipeline(ctx, () => requestAgentStream(ctx, {
+    ...options,
+    onRetry: (state) => {
+      call.retry()
+      options?.onRetry?.(state)
+    },
+    onEvent: (event) => {
+      call.event(event)
+      options?.onEvent?.(event)
+    },
+  }))
+
+  call.finish(result)
+  return result
+}
+
+/**
+ * One request to the streaming endpoint, as the pipeline left the call
+ */
+async function requestAgentStream(ctx: AgentCallContext, options: StreamAgentOptions): Promise<AIAgentResponse> {
+  const { agent_id, user_id, session_id, request_id } = ctx
+  const ids = { agent_id, user_id, session_id, request_id }
+  const request = createRequestSignal(options)
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+  let streamEnded = false
+
+  try {
+    // Retries only cover establishing the stream; a stream that breaks
+    // midway is reported as an error rather than replayed
+    const response = await fetchWithRetry(getAgentEndpoint('stream'), {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        ...ctx.headers,
+        ...requestIdFields(request_id).headers,
+      },
+      body: JSON.stringify({
+        message: ctx.message,
         agent_id,
         user_id,
         session_id,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
+        ...(ctx.options.assets?.length ? { assets: ctx.options.assets } : {}),
+        ...requestIdFields(request_id).body,
+      }),
+    }, options)
+
+    if (!response.ok || !response.body) {
+      const rawText = await response.text()
+      return buildAgentResponse(rawText, response.ok, response.status, ids)
+    }
+
+    reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    const parser = createSSEStreamParser(session_id)
+    let streamedText = ''
+    let finalPayload: string | null = null
+
+    const consume = (events: ParsedSSEEvent[]) => {
+      for (const parsed of events) {
+        if (!parsed.success) {
+          // Plain-text data lines are output tokens rather than events
+          streamedText += parsed.raw || ''
+          options?.onParseError?.(parsed.raw || '', parsed.error || 'Failed to parse SSE data')
+          continue
+        }
+        if (!parsed.event) continue
+
+        const data = parsed.event as Record<string, any>
+        finalPayload = getCompletionPayload(parsed.event) ?? finalPayload
+        if (data.type === 'message' && typeof data.content === 'string') {
+          streamedText += data.content
+        }
+        options?.onEvent?.(parsed.event)
       }
-    } else {
-      // API error
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
+    }
+
+    let chunk = await reader.read()
+    while (!chunk.done) {
+      consume(parser.push(decoder.decode(chunk.value, { stream: true })))
+      chunk = await reader.read()
+    }
+    streamEnded = true
+    consume(parser.push(decoder.decode()))
+    consume(parser.flush())
 
+    const rawText = finalPayload ?? streamedText
+    if (!rawText.trim()) {
       return {
         success: false,
         response: {
           status: 'error',
           result: {},
-          message: errorMsg
+          message: 'Stream ended without a response'
         },
-        error: errorMsg,
-        raw_response: rawText,
+        error: 'Stream ended without a response',
       }
     }
+
+    return buildAgentResponse(rawText, true, response.status, ids)
   } catch (error) {
+    const reason = request.abortReason()
+    if (reason) return buildAbortedResponse(reason, options?.timeout_ms)
+
     const errorMsg = error instanceof Error ? error.message : 'Network error'
     return {
       success: false,
@@ -294,6 +641,86 @@ export async function callAIAgent(
       error: errorMsg,
       details: error instanceof Error ? error.stack : String(error),
     }
+  } finally {
+    // Stop downloading a stream that was abandoned midway (abort, or a throwing onEvent)
+    if (reader && !streamEnded) reader.cancel().catch(() => {})
+    request.cleanup()
+  }
+}
+
+/**
+ * A streaming agent call consumed as an async iterator of SSE events
+ */
+export interface AgentEventStream extends AsyncIterable<SSEEvent> {
+  /** Resolves to the normalized response once the stream has ended */
+  response: Promise<AIAgentResponse>
+}
+
+/**
+ * Start a streaming agent call and iterate over its events with `for await`.
+ * The loop ends when the stream does; `response` then holds the same result
+ * streamAIAgent would have returned. Leaving the loop early cancels the
+ * request (`response` then has `abort_reason: 'cancelled'`).
+ *
+ * @example
+ * ```typescript
+ * const stream = openAgentStream(message, agentId)
+ * for await (const event of stream) {
+ *   if (event.type === 'subagent_switch') console.log(event.active_subagent)
+ * }
+ * const result = await stream.response
+ * ```
+ */
+export function openAgentStream(
+  message: string,
+  agent_id: string,
+  options?: StreamAgentOptions
+): AgentEventStream {
+  const queue: SSEEvent[] = []
+  let finished = false
+  let wake: (() => void) | null = null
+
+  // Aborted when the consumer leaves the loop early, or when the caller's signal fires
+  const controller = new AbortController()
+  const forwardAbort = () => controller.abort()
+  if (options?.signal?.aborted) controller.abort()
+  else options?.signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  const notify = () => {
+    wake?.()
+    wake = null
+  }
+
+  const response = streamAIAgent(message, agent_id, {
+    ...options,
+    signal: controller.signal,
+    onEvent: (event) => {
+      options?.onEvent?.(event)
+      queue.push(event)
+      notify()
+    },
+  }).finally(() => {
+    finished = true
+    options?.signal?.removeEventListener('abort', forwardAbort)
+    notify()
+  })
+
+  return {
+    response,
+    async *[Symbol.asyncIterator]() {
+      try {
+        while (queue.length > 0 || !finished) {
+          if (queue.length === 0) {
+            await new Promise<void>(resolve => { wake = resolve })
+            continue
+          }
+          yield queue.shift() as SSEEvent
+        }
+      } finally {
+        // `break`, `return` or a throw inside the loop: cancel the request
+        if (!finished) controller.abort()
+      }
+    },
   }
 }
 
@@ -337,7 +764,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string }
+    options?: CallAIAgentOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -384,29 +811,38 @@ export function extractText(response: NormalizedAgentResponse): string {
 /**
  * Generate a commit message from code changes
  */
-export async function generateCommitMessage(changes: string, agent_id: string): Promise<string> {
+export async function generateCommitMessage(
+  changes: string,
+  agent_id: string,
+  options?: CallAIAgentOptions
+): Promise<string> {
   const result = await callAIAgent(
     `Generate a concise git commit message for these changes:\n\n${changes}\n\nRequirements:\n- One line summary (max 72 chars)\n- Present tense\n- No quotes`,
-    agent_id
+    agent_id,
+    options
   )
   return result.success ? extractText(result.response) || 'Update' : 'Update'
 }
 
+// The code helpers below answer the same question for the same code, so they
+// cache by default; pass { bypass_cache: true } for a fresh answer
+
 /**
  * Ask for code explanation
  */
-export async function explainCode(code: string, agent_id: string): Promise<string> {
-  const result = await callAIAgent(`Explain this code in simple terms:\n\n${code}`, agent_id)
+export async function explainCode(code: string, agent_id: string, options?: CallAIAgentOptions): Promise<string> {
+  const result = await callAIAgent(`Explain this code in simple terms:\n\n${code}`, agent_id, { cache: true, ...options })
   return result.success ? extractText(result.response) : ''
 }
 
 /**
  * Get code suggestions
  */
-export async function getSuggestions(code: string, agent_id: string): Promise<string[]> {
+export async function getSuggestions(code: string, agent_id: string, options?: CallAIAgentOptions): Promise<string[]> {
   const result = await callAIAgent(
     `Suggest improvements for this code:\n\n${code}\n\nProvide 3-5 specific suggestions.`,
-    agent_id
+    agent_id,
+    { cache: true, ...options }
   )
   const text = result.success ? extractText(result.response) : ''
   return text.split('\n').filter((line: string) => line.trim().length > 0)
@@ -415,7 +851,7 @@ export async function getSuggestions(code: string, agent_id: string): Promise<st
 /**
  * Generate documentation
  */
-export async function generateDocs(code: string, agent_id: string): Promise<string> {
-  const result = await callAIAgent(`Generate JSDoc documentation for this code:\n\n${code}`, agent_id)
+export async function generateDocs(code: string, agent_id: string, options?: CallAIAgentOptions): Promise<string> {
+  const result = await callAIAgent(`Generate JSDoc documentation for this code:\n\n${code}`, agent_id, { cache: true, ...options })
   return result.success ? extractText(result.response) : ''
 }
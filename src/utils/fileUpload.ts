@@ -14,16 +14,22 @@
  *
  * // Use with agent chat via callAIAgent utility
  * import { callAIAgent } from '@/utils/aiAgent'
- * const response = await callAIAgent('What is in this image?', 'your-agent-id')
+ * const response = await callAIAgent('What is in this image?', 'your-agent-id', { assets: asset_ids })
+ *
+ * Uploads are not agent calls, so agent middleware (see @/lib/agent-middleware)
+ * does not apply to them; they send the same agent headers directly.
  */
 
-import parseLLMJson from '@/utils/jsonParser'
-
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
-// API Key from environment variable
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+import { callAIAgent, type AIAgentResponse } from '@/utils/aiAgent'
+import {
+  createRequestSignal,
+  getAbortMessage,
+  type AbortReason,
+  type RequestSignalOptions
+} from '@/lib/request-signal'
+import { getCurrentUserId } from '@/lib/user-identity'
+import { agentFetch } from '@/lib/agent-transport'
+import { getAppConfig, getAgentHeaders } from '@/lib/app-config'
 
 export interface UploadedAsset {
   success: boolean
@@ -47,12 +53,15 @@ export interface UploadResponse {
   message?: string
   error?: string
   timestamp?: string
+  /** Set when the upload was cancelled or timed out */
+  abort_reason?: AbortReason
 }
 
-export interface AgentChatWithFilesOptions {
+export interface AgentChatWithFilesOptions extends RequestSignalOptions {
   message: string
   agent_id: string
   files?: File | File[]
+  /** Defaults to the current user from user-identity */
   user_id?: string
   session_id?: string
 }
@@ -61,6 +70,7 @@ export interface AgentChatWithFilesOptions {
  * Upload one or more files to the secure storage
  *
  * @param files - Single file or array of files to upload
+ * @param options - Optional AbortSignal and timeout_ms
  * @returns Promise with asset_ids that can be used in agent chat
  *
  * @example
@@ -71,7 +81,10 @@ export interface AgentChatWithFilesOptions {
  * // From drag and drop
  * const { asset_ids } = await uploadFiles(e.dataTransfer.files)
  */
-export async function uploadFiles(files: File | File[] | FileList): Promise<UploadResponse> {
+export async function uploadFiles(
+  files: File | File[] | FileList,
+  options?: RequestSignalOptions
+): Promise<UploadResponse> {
   const fileArray = files instanceof FileList
     ? Array.from(files)
     : Array.isArray(files)
@@ -91,10 +104,14 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
     formData.append('files', file)
   }
 
+  const request = createRequestSignal(options)
+
   try {
-    const response = await fetch('/api/upload', {
+    const response = await agentFetch(getAppConfig().uploadUrl, {
       method: 'POST',
+      headers: getAgentHeaders(getCurrentUserId()),
       body: formData,
+      signal: request.signal,
     })
 
     const data = await response.json()
@@ -115,16 +132,24 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
       timestamp: data.timestamp,
     }
   } catch (error) {
+    const reason = request.abortReason()
     return {
       success: false,
       asset_ids: [],
-      error: error instanceof Error ? error.message : 'Upload failed',
+      error: reason
+        ? getAbortMessage(reason, options?.timeout_ms)
+        : error instanceof Error ? error.message : 'Upload failed',
+      abort_reason: reason || undefined,
     }
+  } finally {
+    request.cleanup()
   }
 }
 
 /**
- * Upload files and immediately chat with an agent about them
+ * Upload files and immediately chat with an agent about them. The chat goes
+ * through callAIAgent, so it runs the agent middleware, retries and telemetry
+ * like any other agent call.
  *
  * @param options - Chat options including message, agent_id, and files
  * @returns Promise with the agent's response
@@ -136,88 +161,27 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
  *   files: imageFile
  * })
  */
-export async function chatWithFiles(options: AgentChatWithFilesOptions) {
-  const { message, agent_id, files, user_id, session_id } = options
+export async function chatWithFiles(options: AgentChatWithFilesOptions): Promise<AIAgentResponse> {
+  const { message, agent_id, files, user_id, session_id, signal, timeout_ms } = options
 
   let asset_ids: string[] = []
 
   // Upload files if provided
   if (files) {
-    const uploadResult = await uploadFiles(files)
+    const uploadResult = await uploadFiles(files, { signal, timeout_ms })
     if (!uploadResult.success) {
+      const error = uploadResult.error || 'Failed to upload files'
       return {
         success: false,
-        error: uploadResult.error || 'Failed to upload files',
+        response: { status: 'error', result: {}, message: error },
+        error,
+        abort_reason: uploadResult.abort_reason,
       }
     }
     asset_ids = uploadResult.asset_ids
   }
 
-  // Call Lyzr Agent API directly with assets
-  try {
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify({
-        message,
-        agent_id,
-        user_id,
-        session_id,
-        assets: asset_ids.length > 0 ? asset_ids : undefined,
-      }),
-    })
-
-    const rawText = await response.text()
-
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check if parsing failed
-      if (parsed?.success === false || parsed?.error) {
-        return {
-          success: false,
-          error: parsed?.error || 'Failed to parse agent response',
-          raw_response: rawText,
-        }
-      }
-
-      // The parsed data should be the agent's response object:
-      // { status: "success", result: {...}, message: "..." }
-      // Return it as-is so UI can access response.status, response.result, etc.
-      return {
-        success: true,
-        response: parsed,
-        agent_id: parsed?.agent_id || agent_id,
-        user_id: parsed?.user_id || user_id,
-        session_id: parsed?.session_id || session_id,
-        timestamp: parsed?.timestamp || new Date().toISOString(),
-        raw_response: rawText,
-      }
-    } else {
-      // Try to parse error response
-      let errorData: any = { error: 'Unknown error' }
-      try {
-        errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-      } catch {
-        errorData = { error: rawText || `API returned status ${response.status}` }
-      }
-
-      return {
-        success: false,
-        error: errorData.error || errorData.message || `API returned status ${response.status}`,
-        raw_response: rawText,
-      }
-    }
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Chat request failed',
-    }
-  }
+  return callAIAgent(message, agent_id, { user_id, session_id, signal, timeout_ms, assets: asset_ids })
 }
 
 /**
@@ -1,3 +1,10 @@
+/**
+ * How parseLLMJson got its result, reported through `options.onStrategy`:
+ * a ```json code block, the whole text as-is, the whole text after repairs,
+ * the largest extracted JSON candidate, the outermost braces, or nothing
+ */
+export type ParseStrategy = "code_block" | "direct" | "repaired" | "extracted" | "boundaries" | "failed";
+
 /**
  * Parse JSON from LLM responses with bulletproof error handling
  */
@@ -30,8 +37,14 @@ function parseLLMJson(
         ],
         // If true, prefer raw_response over response when both exist
         preferRawResponse = true,
+        // Called once with the ParseStrategy that produced the result
+        onStrategy,
     } = options as any;
 
+    const report = (strategy: ParseStrategy) => {
+        if (typeof onStrategy === "function") onStrategy(strategy);
+    };
+
     if (response === null || response === undefined) return null;
 
     // --- NEW: If it's already a parsed object/array, don't String() it ---
@@ -104,7 +117,10 @@ function parseLLMJson(
 
     // Turn input into a workable string
     const text = coerceToTextIfNeeded(response);
-    if (!text || text.trim().length === 0) return null;
+    if (!text || text.trim().length === 0) {
+        report("failed");
+        return null;
+    }
 
     // Cache for performance (NEW: move outside helper closures is fine, but keep per-call ok)
     const jsonCache = new Map<string, string>();
@@ -302,7 +318,7 @@ function parseLLMJson(
         // Direct parse
         try {
             const parsed = JSON.parse(clean);
-            return { success: true, data: decodeJsonStringLoop(parsed), error: null };
+            return { success: true, data: decodeJsonStringLoop(parsed), error: null, repaired: false };
         } catch { }
 
         if (attemptFix) {
@@ -310,7 +326,7 @@ function parseLLMJson(
             if (bounded) {
                 try {
                     const parsed = JSON.parse(bounded);
-                    return { success: true, data: decodeJsonStringLoop(parsed), error: null };
+                    return { success: true, data: decodeJsonStringLoop(parsed), error: null, repaired: true };
                 } catch { }
             }
 
@@ -318,14 +334,14 @@ function parseLLMJson(
 
             try {
                 const parsed = JSON.parse(clean);
-                return { success: true, data: decodeJsonStringLoop(parsed), error: null };
+                return { success: true, data: decodeJsonStringLoop(parsed), error: null, repaired: true };
             } catch { }
 
             const extracted = findJsonBoundaries(clean);
             if (extracted) {
                 try {
                     const parsed = JSON.parse(extracted);
-                    return { success: true, data: decodeJsonStringLoop(parsed), error: null };
+                    return { success: true, data: decodeJsonStringLoop(parsed), error: null, repaired: true };
                 } catch { }
             }
         }
@@ -396,19 +412,28 @@ function parseLLMJson(
         if (m) {
             const extracted = m[1].trim();
             const parsed = tryParseJson(extracted);
-            if (parsed.success) return unwrapResponse(parsed.data);
+            if (parsed.success) {
+                report("code_block");
+                return unwrapResponse(parsed.data);
+            }
         }
     } catch { }
 
     // Try whole text first
     const direct = tryParseJson(text);
-    if (direct.success) return unwrapResponse(direct.data);
+    if (direct.success) {
+        report(direct.repaired ? "repaired" : "direct");
+        return unwrapResponse(direct.data);
+    }
 
     // Else extract candidates
     const candidates = extractJson(text).sort((a, b) => b.length - a.length);
     for (const c of candidates) {
         const r = tryParseJson(c);
-        if (r.success) return unwrapResponse(r.data);
+        if (r.success) {
+            report("extracted");
+            return unwrapResponse(r.data);
+        }
     }
 
     // Final fallback
@@ -416,10 +441,14 @@ function parseLLMJson(
         const aggressive = findJsonBoundaries(text);
         if (aggressive) {
             const r = tryParseJson(aggressive);
-            if (r.success) return unwrapResponse(r.data);
+            if (r.success) {
+                report("boundaries");
+                return unwrapResponse(r.data);
+            }
         }
     }
 
+    report("failed");
     return {
         success: false,
         data: null,
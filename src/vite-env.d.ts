@@ -1,9 +1,20 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
+  readonly VITE_APP_ENV?: string
   readonly VITE_AGENT_ID?: string
+  readonly VITE_AGENT_IDS?: string
   readonly VITE_LYZR_API_KEY?: string
+  readonly VITE_LYZR_API_URL?: string
+  readonly VITE_LYZR_STREAM_URL?: string
+  readonly VITE_UPLOAD_URL?: string
+  readonly VITE_AGENT_TIMEOUT_MS?: string
+  readonly VITE_AGENT_CACHE_BACKEND?: string
   readonly VITE_API_URL?: string
+  readonly VITE_AGENT_TRANSPORT?: string
+  readonly VITE_AGENT_PROXY_URL?: string
+  readonly VITE_MOCK_LATENCY_MS?: string
+  readonly VITE_MOCK_SCRIPT?: string
 }
 
 interface ImportMeta {
@@ -1,23 +1,46 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, __dirname, '')
+  const proxyMode = env.VITE_AGENT_TRANSPORT === 'proxy'
+
+  // Every VITE_ variable is inlined into the bundle, which is exactly what
+  // proxy mode exists to prevent
+  if (proxyMode && env.VITE_LYZR_API_KEY) {
+    throw new Error(
+      'VITE_LYZR_API_KEY must not be set with VITE_AGENT_TRANSPORT=proxy: it would ship in the client bundle. ' +
+      'Give the key to the proxy as LYZR_API_KEY instead.'
+    )
+  }
+
+  // Local agent proxy (npm run proxy:agent)
+  const agentProxy = `http://localhost:${Number(env.AGENT_PROXY_PORT) || 8788}`
+
+  return {
+    plugins: [react()],
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
+    },
+    server: {
+      host: '0.0.0.0',
+      port: 3333,
+      allowedHosts: true,
+      headers: {
+        'Content-Security-Policy': "frame-ancestors *",
+      },
+      proxy: proxyMode
+        ? {
+            '/api/agent': agentProxy,
+            '/api/upload': agentProxy,
+          }
+        : undefined,
     },
-  },
-  server: {
-    host: '0.0.0.0',
-    port: 3333,
-    allowedHosts: true,
-    headers: {
-      'Content-Security-Policy': "frame-ancestors *",
+    build: {
+      outDir: 'dist',
     },
-  },
-  build: {
-    outDir: 'dist',
-  },
+  }
 })